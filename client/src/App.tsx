@@ -12,43 +12,62 @@ import ChatInterface from "@/components/ChatInterface";
 import DocumentUpload from "@/components/DocumentUpload";
 import UserProfile from "@/components/UserProfile";
 import GovernorPostingPanel from "@/components/GovernorPostingPanel";
+import ScheduledNotifications from "@/components/ScheduledNotifications";
 import AdminPanel from "@/components/AdminPanel";
 import DeveloperWatermark from "@/components/DeveloperWatermark";
 import NotificationCard from "@/components/NotificationCard";
 import ThemeToggle from "@/components/ThemeToggle";
+import GlobalSearch from "@/components/GlobalSearch";
+import RoomInvites from "@/components/RoomInvites";
+import MentionsInbox from "@/components/MentionsInbox";
+import ModerationQueue from "@/components/ModerationQueue";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Bell, MessageSquare, FileText, User, LogOut, Settings } from "lucide-react";
-import { useAuth, useLogout } from "@/lib/auth";
+import { Bell, MessageSquare, AtSign, FileText, User, LogOut, Settings } from "lucide-react";
+import { useAuth, useLogout, useAccountLocked } from "@/lib/auth";
 import { registerPushNotifications } from "@/lib/pushNotifications";
+import { useRealtime } from "@/lib/realtime";
+import { useNotifications, updateNotification, updateNotifications } from "@/lib/notifications";
+import { useMentions } from "@/lib/mentions";
+import { useToast } from "@/hooks/use-toast";
 
 interface Room {
   id: string;
   name: string;
   type: string;
+  unreadCount?: number;
+  // Only dm and group rooms list their members
+  members?: Array<{ userId: string; username: string; role: string; departmentName: string }>;
+  joinPolicy?: string;
+  readOnly?: boolean;
+  slowModeSeconds?: number;
+  retentionPolicy?: string;
+  retentionDays?: number | null;
+  myRole?: string | null;
+  canModerate?: boolean;
+  mutedUntil?: string | null;
+  // Custom rooms the user could join but hasn't
+  joinable?: boolean;
+  joinRequested?: boolean;
 }
 
-interface Notification {
-  id: string;
-  type: string;
-  notificationType: string;
-  title: string;
-  content: string;
-  postedBy: string;
-  targetDepartmentName?: string;
-  reactions: any;
-  comments: any[];
-  createdAt: string;
-}
+const isConversation = (room: Room) => room.type === 'dm' || room.type === 'group';
 
 function Router() {
   const { data: user, isLoading } = useAuth();
   const logoutMutation = useLogout();
+  const accountLocked = useAccountLocked();
   const [showTutorial, setShowTutorial] = useState(false);
-  const [currentPage, setCurrentPage] = useState<"dashboard" | "chat" | "documents" | "profile" | "admin" | "governor">("dashboard");
+  const [currentPage, setCurrentPage] = useState<"dashboard" | "chat" | "mentions" | "documents" | "profile" | "admin" | "governor">("dashboard");
   const [rooms, setRooms] = useState<Room[]>([]);
   const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [highlightedNotificationId, setHighlightedNotificationId] = useState<string | null>(null);
+  const [highlightedDocumentId, setHighlightedDocumentId] = useState<string | null>(null);
+  const { data: notifications = [] } = useNotifications(!!user);
+  const { data: mentionsInbox } = useMentions(!!user);
+  const { toast } = useToast();
+  // A message to scroll to (or open the thread of) once its room has loaded
+  const [focusMessage, setFocusMessage] = useState<{ messageId: string; threadRootId: string | null } | null>(null);
 
   // Register push notifications when user is authenticated
   useEffect(() => {
@@ -61,6 +80,94 @@ function Router() {
     }
   }, [user]);
 
+  // Keep unread counters live from the app-wide socket
+  useRealtime((event) => {
+    if (event.type === 'room_activity') {
+      if (currentPage === 'chat' && selectedRoom?.id === event.roomId) return;
+      setRooms(prev => prev.map(room =>
+        room.id === event.roomId
+          ? { ...room, unreadCount: (room.unreadCount || 0) + 1 }
+          : room
+      ));
+    } else if (event.type === 'room_read') {
+      setRooms(prev => prev.map(room =>
+        room.id === event.roomId ? { ...room, unreadCount: 0 } : room
+      ));
+    } else if (event.type === 'new_room') {
+      // A joinable room the user has just joined arrives again as a member room
+      setRooms(prev => prev.some(room => room.id === event.room.id)
+        ? prev.map(room => room.id === event.room.id ? { ...room, ...event.room, joinable: !!event.room.joinable } : room)
+        : [...prev, { ...event.room, unreadCount: 0 }]);
+    } else if (event.type === 'room_updated') {
+      setRooms(prev => prev.map(room =>
+        room.id === event.room.id ? { ...room, ...event.room } : room
+      ));
+    } else if (event.type === 'room_muted') {
+      setRooms(prev => prev.map(room =>
+        room.id === event.roomId ? { ...room, mutedUntil: event.mutedUntil } : room
+      ));
+    } else if (event.type === 'room_request_decided' && event.request.kind === 'join') {
+      setRooms(prev => prev.map(room =>
+        room.id === event.request.roomId ? { ...room, joinRequested: false } : room
+      ));
+    } else if (event.type === 'room_members_changed') {
+      setRooms(prev => prev.map(room =>
+        room.id === event.roomId ? { ...room, members: event.members } : room
+      ));
+    } else if (event.type === 'room_removed') {
+      setRooms(prev => prev.filter(room => room.id !== event.roomId));
+      if (selectedRoom?.id === event.roomId) {
+        setSelectedRoom(rooms.find(room => room.name === 'General') || null);
+      }
+    } else if (event.type === 'document_version_added') {
+      toast({
+        title: `${event.name} was updated`,
+        description: `Version ${event.version} replaces the version ${event.downloadedVersion} you downloaded.`
+          + (event.note ? ` ${event.note}` : ''),
+      });
+    } else if (event.type === 'moderation_warning') {
+      toast({
+        title: "Warning from a moderator",
+        description: event.note || "Something you posted was reported. Please follow the community rules.",
+        variant: "destructive",
+      });
+    } else if (event.type === 'account_muted') {
+      toast({
+        title: "You have been muted",
+        description: `You can't send chat messages or comments until ${new Date(event.mutedUntil).toLocaleString()}.`
+          + (event.reason ? ` Reason: ${event.reason}` : ''),
+        variant: "destructive",
+      });
+    } else if (event.type === 'account_suspended') {
+      accountLocked(event);
+      setCurrentPage("dashboard");
+    }
+  }, !!user);
+
+  const markNotificationRead = async (notificationId: string) => {
+    updateNotification(notificationId, { isRead: true });
+    try {
+      await fetch(`/api/notifications/${notificationId}/read`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+    }
+  };
+
+  const markAllNotificationsRead = async () => {
+    try {
+      await fetch('/api/notifications/read-all', {
+        method: 'POST',
+        credentials: 'include',
+      });
+      updateNotifications(prev => prev.map(notif => ({ ...notif, isRead: true })));
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
   const handleLogout = async () => {
     await logoutMutation.mutateAsync();
     setCurrentPage("dashboard");
@@ -82,24 +189,97 @@ function Router() {
     }
   };
 
-  const loadNotifications = async () => {
+  useEffect(() => {
+    if (user) {
+      loadRooms();
+    }
+  }, [user]);
+
+  // Scroll a notification picked from search into view once the dashboard renders it
+  useEffect(() => {
+    if (currentPage === "dashboard" && highlightedNotificationId) {
+      document.getElementById(`notification-${highlightedNotificationId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [currentPage, highlightedNotificationId, notifications]);
+
+  const openRoom = (roomId: string) => {
+    const room = rooms.find(r => r.id === roomId);
+    if (room) {
+      setSelectedRoom(room);
+      setCurrentPage("chat");
+    }
+  };
+
+  const openMessage = (roomId: string, messageId: string, threadRootId: string | null) => {
+    const room = rooms.find(r => r.id === roomId);
+    if (room) {
+      setFocusMessage({ messageId, threadRootId });
+      setSelectedRoom(room);
+      setCurrentPage("chat");
+    }
+  };
+
+  // Opens a DM or group, which may have been created just now
+  const openConversation = (room: Room) => {
+    setRooms(prev => prev.some(r => r.id === room.id) ? prev : [...prev, { ...room, unreadCount: 0 }]);
+    setSelectedRoom(room);
+    setCurrentPage("chat");
+  };
+
+  // DMs are named after the other person
+  const roomLabel = (room: Room) => {
+    if (room.type !== 'dm') return room.name;
+    const other = room.members?.find(member => member.userId !== user?.id);
+    return other?.username || room.name;
+  };
+
+  const joinRoom = async (room: Room) => {
     try {
-      const response = await fetch('/api/notifications', { credentials: 'include' });
-      if (response.ok) {
-        const data = await response.json();
-        setNotifications(data);
+      const response = await fetch(`/api/rooms/${room.id}/join`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(result.error || 'Failed to join room');
+      } else if (result.status === 'requested') {
+        setRooms(prev => prev.map(r => r.id === room.id ? { ...r, joinRequested: true } : r));
+      } else {
+        // new_room follows over the socket; select it now so the click feels instant
+        setRooms(prev => prev.map(r => r.id === room.id ? { ...r, joinable: false } : r));
+        setSelectedRoom({ ...room, joinable: false });
       }
     } catch (error) {
-      console.error('Error loading notifications:', error);
+      console.error('Error joining room:', error);
     }
   };
 
-  useEffect(() => {
-    if (user) {
-      loadRooms();
-      loadNotifications();
-    }
-  }, [user]);
+  const renderRoomButton = (room: Room) => (
+    <Button
+      key={room.id}
+      variant={selectedRoom?.id === room.id ? "default" : "outline"}
+      onClick={() => setSelectedRoom(room)}
+      size="sm"
+      data-testid={`button-room-${room.id}`}
+    >
+      {roomLabel(room)}
+      {!!room.unreadCount && selectedRoom?.id !== room.id && (
+        <Badge variant="destructive" className="ml-2 h-5 px-1.5 text-[10px]">
+          {room.unreadCount > 99 ? "99+" : room.unreadCount}
+        </Badge>
+      )}
+    </Button>
+  );
+
+  const openNotification = (notificationId: string) => {
+    setHighlightedNotificationId(notificationId);
+    setCurrentPage("dashboard");
+  };
+
+  const openDocument = (documentId: string) => {
+    setHighlightedDocumentId(documentId);
+    setCurrentPage("documents");
+  };
 
   if (isLoading) {
     return (
@@ -112,11 +292,17 @@ function Router() {
     );
   }
 
+  const unreadNotifications = notifications.filter(notif => notif.isRead === false).length;
+  // Settings and mutes change on the listed room, so read the selection from there
+  const currentRoom = selectedRoom && (rooms.find(room => room.id === selectedRoom.id) ?? selectedRoom);
+  const unreadMessages = rooms.reduce((total, room) => total + (room.unreadCount || 0), 0);
+
   const menuItems = [
-    { icon: Bell, label: "Dashboard", page: "dashboard" as const },
-    { icon: MessageSquare, label: "Chat", page: "chat" as const },
-    { icon: FileText, label: "Documents", page: "documents" as const },
-    { icon: User, label: "Profile", page: "profile" as const },
+    { icon: Bell, label: "Dashboard", page: "dashboard" as const, unread: unreadNotifications },
+    { icon: MessageSquare, label: "Chat", page: "chat" as const, unread: unreadMessages },
+    { icon: AtSign, label: "Mentions", page: "mentions" as const, unread: mentionsInbox?.unreadCount ?? 0 },
+    { icon: FileText, label: "Documents", page: "documents" as const, unread: 0 },
+    { icon: User, label: "Profile", page: "profile" as const, unread: 0 },
   ];
 
   if (!user) {
@@ -142,6 +328,14 @@ function Router() {
             <p className="text-xs text-muted-foreground">{user.departmentName}</p>
           </div>
 
+          <div className="flex-1 flex justify-center px-4">
+            <GlobalSearch
+              onOpenRoom={openRoom}
+              onOpenNotification={openNotification}
+              onOpenDocument={openDocument}
+            />
+          </div>
+
           <div className="flex items-center gap-2">
             <Badge variant="secondary">{user.role}</Badge>
             <ThemeToggle />
@@ -173,6 +367,11 @@ function Router() {
                 >
                   <Icon className="w-4 h-4 mr-2" />
                   {item.label}
+                  {item.unread > 0 && (
+                    <Badge variant="destructive" className="ml-auto h-5 px-1.5 text-[10px]" data-testid={`badge-unread-${item.page}`}>
+                      {item.unread > 99 ? "99+" : item.unread}
+                    </Badge>
+                  )}
                 </Button>
               );
             })}
@@ -207,26 +406,46 @@ function Router() {
           <div className="max-w-6xl mx-auto">
             {currentPage === "dashboard" && (
               <div className="space-y-4">
-                <h2 className="text-2xl font-bold">Welcome, {user.username}!</h2>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-2xl font-bold">Welcome, {user.username}!</h2>
+                  {unreadNotifications > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={markAllNotificationsRead}
+                      data-testid="button-mark-all-read"
+                    >
+                      Mark all as read
+                    </Button>
+                  )}
+                </div>
                 <p className="text-muted-foreground">
                   Stay updated with the latest notifications and announcements
                 </p>
                 <div className="space-y-4 mt-6">
                   {notifications.length > 0 ? (
                     notifications.map((notif) => (
-                      <NotificationCard
+                      <div
                         key={notif.id}
-                        id={notif.id}
-                        type={notif.notificationType as any}
-                        notificationType={notif.notificationType}
-                        title={notif.title}
-                        content={notif.content}
-                        postedBy={notif.postedBy}
-                        createdAt={notif.createdAt}
-                        targetDepartmentName={notif.targetDepartmentName}
-                        reactions={notif.reactions}
-                        comments={notif.comments}
-                      />
+                        id={`notification-${notif.id}`}
+                        className={highlightedNotificationId === notif.id ? "ring-2 ring-primary rounded-lg" : ""}
+                      >
+                        <NotificationCard
+                          id={notif.id}
+                          type={notif.notificationType as any}
+                          notificationType={notif.notificationType}
+                          title={notif.title}
+                          content={notif.content}
+                          postedBy={notif.postedBy}
+                          createdAt={notif.publishAt || notif.createdAt}
+                          targetDepartmentName={notif.targetDepartmentName}
+                          reactions={notif.reactions}
+                          commentCount={notif.commentCount}
+                          isRead={notif.isRead}
+                          onRead={() => markNotificationRead(notif.id)}
+                          acknowledged={notif.acknowledged}
+                        />
+                      </div>
                     ))
                   ) : (
                     <p className="text-sm text-muted-foreground">
@@ -239,25 +458,50 @@ function Router() {
 
             {currentPage === "chat" && (
               <div className="space-y-4">
+                <RoomInvites />
                 <div className="flex gap-2 overflow-x-auto pb-2">
-                  {rooms.map((room) => (
-                    <Button
-                      key={room.id}
-                      variant={selectedRoom?.id === room.id ? "default" : "outline"}
-                      onClick={() => setSelectedRoom(room)}
-                      size="sm"
-                      data-testid={`button-room-${room.id}`}
-                    >
-                      {room.name}
-                    </Button>
-                  ))}
+                  {rooms.filter(room => !isConversation(room) && !room.joinable).map(renderRoomButton)}
                 </div>
-                {selectedRoom ? (
+                {rooms.some(isConversation) && (
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">Direct messages</p>
+                    <div className="flex gap-2 overflow-x-auto pb-2" data-testid="list-conversations">
+                      {rooms.filter(isConversation).map(renderRoomButton)}
+                    </div>
+                  </div>
+                )}
+                {rooms.some(room => room.joinable) && (
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">Browse rooms</p>
+                    <div className="flex gap-2 overflow-x-auto pb-2" data-testid="list-joinable-rooms">
+                      {rooms.filter(room => room.joinable).map(room => (
+                        <Button
+                          key={room.id}
+                          variant="outline"
+                          size="sm"
+                          disabled={room.joinRequested}
+                          onClick={() => joinRoom(room)}
+                          data-testid={`button-join-room-${room.id}`}
+                        >
+                          {room.name}
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            {room.joinRequested ? "Requested" : room.joinPolicy === "request" ? "Ask to join" : "Join"}
+                          </span>
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {currentRoom ? (
                   <div className="h-[calc(100vh-200px)] border rounded-lg overflow-hidden">
                     <ChatInterface
-                      roomId={selectedRoom.id}
-                      roomName={selectedRoom.name}
+                      roomId={currentRoom.id}
+                      roomName={roomLabel(currentRoom)}
                       currentUser={user.username}
+                      onOpenRoom={openConversation}
+                      room={currentRoom}
+                      focus={focusMessage}
+                      onFocusHandled={() => setFocusMessage(null)}
                     />
                   </div>
                 ) : (
@@ -268,7 +512,9 @@ function Router() {
               </div>
             )}
 
-            {currentPage === "documents" && <DocumentUpload />}
+            {currentPage === "mentions" && <MentionsInbox onOpenMessage={openMessage} />}
+
+            {currentPage === "documents" && <DocumentUpload highlightId={highlightedDocumentId} />}
 
             {currentPage === "profile" && (
               <div className="flex justify-center">
@@ -279,16 +525,19 @@ function Router() {
                   role={user.role}
                   department={user.departmentName}
                   canMessage={false}
+                  showStorageUsage
                 />
               </div>
             )}
 
             {currentPage === "governor" && (user.role === "department-governor" || user.role === "faculty-governor") && (
-              <div className="max-w-2xl mx-auto">
+              <div className="max-w-2xl mx-auto space-y-6">
                 <GovernorPostingPanel
                   role={user.role === "faculty-governor" ? "faculty" : "department"}
                   department={user.departmentName}
                 />
+                <ScheduledNotifications />
+                {user.role === "department-governor" && <ModerationQueue />}
               </div>
             )}
 
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VolumeX, Volume2, Clock, Ban, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ManagedUser {
+  id: string;
+  username: string;
+  accountStatus: "active" | "suspended" | "banned";
+  suspendedUntil: string | null;
+  statusReason: string | null;
+  mutedUntil: string | null;
+  muteReason: string | null;
+}
+
+type AccountAction = "mute" | "unmute" | "suspend" | "ban" | "reinstate";
+
+interface AccountStatusDialogProps {
+  // The account being managed; the dialog is open while this is set
+  user: ManagedUser | null;
+  onClose: () => void;
+  onUpdated: (user: ManagedUser) => void;
+}
+
+const durations = [
+  { hours: "1", label: "1 hour" },
+  { hours: "24", label: "1 day" },
+  { hours: "168", label: "7 days" },
+  { hours: "720", label: "30 days" },
+];
+
+const actionLabels: Record<AccountAction, string> = {
+  mute: "User muted",
+  unmute: "User unmuted",
+  suspend: "User suspended",
+  ban: "User banned",
+  reinstate: "User reinstated",
+};
+
+// Suspended accounts whose end date has passed are active again
+export function isSuspended(user: ManagedUser) {
+  return user.accountStatus === "suspended" && (!user.suspendedUntil || new Date(user.suspendedUntil) > new Date());
+}
+
+export function isMuted(user: ManagedUser) {
+  return !!user.mutedUntil && new Date(user.mutedUntil) > new Date();
+}
+
+export default function AccountStatusDialog({ user, onClose, onUpdated }: AccountStatusDialogProps) {
+  const [reason, setReason] = useState("");
+  const [hours, setHours] = useState("24");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const close = () => {
+    setReason("");
+    setHours("24");
+    onClose();
+  };
+
+  const apply = async (action: AccountAction) => {
+    if (!user) return;
+    if (action === 'ban' && !confirm(`Ban ${user.username}? They will be signed out and unable to sign in again.`)) return;
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action, reason: reason.trim() || undefined, hours: Number(hours) }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      toast({ title: actionLabels[action] });
+      onUpdated(data);
+      close();
+    } catch (error: any) {
+      toast({ title: "Could not update the account", description: error.message, variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const locked = user && (user.accountStatus === 'banned' || isSuspended(user));
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Account status</DialogTitle>
+          <DialogDescription>
+            {user && (
+              user.accountStatus === 'banned'
+                ? `${user.username} is banned.`
+                : isSuspended(user)
+                  ? `${user.username} is suspended${user.suspendedUntil ? ` until ${new Date(user.suspendedUntil).toLocaleString()}` : ''}.`
+                  : isMuted(user)
+                    ? `${user.username} is muted until ${new Date(user.mutedUntil!).toLocaleString()}.`
+                    : `${user.username} is active.`
+            )}
+            {user && (locked ? user.statusReason : isMuted(user) ? user.muteReason : null) && (
+              <span className="block">Reason: {locked ? user.statusReason : user.muteReason}</span>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {user && (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={500}
+                placeholder="Shown to the user. Required to suspend or ban."
+                data-testid="input-account-reason"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Duration (mute and suspend)</Label>
+              <Select value={hours} onValueChange={setHours}>
+                <SelectTrigger data-testid="select-account-duration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {durations.map(({ hours, label }) => (
+                    <SelectItem key={hours} value={hours}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {isMuted(user) ? (
+                <Button variant="outline" size="sm" onClick={() => apply('unmute')} disabled={submitting} data-testid="button-account-unmute">
+                  <Volume2 className="w-4 h-4 mr-1" />
+                  Unmute
+                </Button>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => apply('mute')} disabled={submitting} data-testid="button-account-mute">
+                  <VolumeX className="w-4 h-4 mr-1" />
+                  Mute
+                </Button>
+              )}
+              {locked ? (
+                <Button variant="outline" size="sm" onClick={() => apply('reinstate')} disabled={submitting} data-testid="button-account-reinstate">
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Reinstate
+                </Button>
+              ) : (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => apply('suspend')} disabled={submitting || !reason.trim()} data-testid="button-account-suspend">
+                    <Clock className="w-4 h-4 mr-1" />
+                    Suspend
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => apply('ban')} disabled={submitting || !reason.trim()} data-testid="button-account-ban">
+                    <Ban className="w-4 h-4 mr-1" />
+                    Ban
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Download } from "lucide-react";
+
+interface AckReport {
+  notificationId: string;
+  title: string;
+  total: number;
+  acknowledged: number;
+  departments: Array<{ departmentName: string; total: number; acknowledged: number }>;
+  pending: Array<{ userId: string; username: string; regNumber?: string | null; departmentName?: string | null }>;
+}
+
+interface AckReportDialogProps {
+  notificationId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const percent = (part: number, total: number) => total === 0 ? 0 : Math.round((part / total) * 100);
+
+export default function AckReportDialog({ notificationId, open, onOpenChange }: AckReportDialogProps) {
+  const [report, setReport] = useState<AckReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchReport = async () => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/notifications/${notificationId}/acks`, {
+          credentials: 'include',
+        });
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to load report');
+        }
+        setReport(await response.json());
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+    fetchReport();
+  }, [open, notificationId]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Acknowledgements</DialogTitle>
+          <DialogDescription>
+            Students who have confirmed they saw this urgent notification.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {!report && !error && <p className="text-sm text-muted-foreground">Loading...</p>}
+
+        {report && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">All students</span>
+                <span data-testid="text-ack-total">
+                  {report.acknowledged}/{report.total} ({percent(report.acknowledged, report.total)}%)
+                </span>
+              </div>
+              <Progress value={percent(report.acknowledged, report.total)} />
+            </div>
+
+            <div className="space-y-2">
+              {report.departments.map((dept) => (
+                <div key={dept.departmentName} className="flex justify-between text-xs">
+                  <span>{dept.departmentName}</span>
+                  <span className="text-muted-foreground">{dept.acknowledged}/{dept.total}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Not yet acknowledged ({report.pending.length})</p>
+              <div className="max-h-48 overflow-y-auto border rounded-md divide-y">
+                {report.pending.length === 0 && (
+                  <p className="text-xs text-muted-foreground p-2">Everyone has acknowledged.</p>
+                )}
+                {report.pending.map((student) => (
+                  <div key={student.userId} className="flex justify-between p-2 text-xs">
+                    <span>{student.username}{student.regNumber ? ` · ${student.regNumber}` : ''}</span>
+                    <span className="text-muted-foreground">{student.departmentName}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <Button variant="outline" className="w-full" asChild>
+              <a href={`/api/notifications/${notificationId}/acks?format=csv`} download data-testid="button-export-acks">
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Download, Upload, Plus, Trash2, Users, MessageSquare, UserX, Send } from "lucide-react";
+import { Download, Upload, Plus, Trash2, Users, MessageSquare, UserX, Send, ShieldAlert } from "lucide-react";
+import MessageHistory from "./MessageHistory";
+import AccountStatusDialog, { isMuted, isSuspended, type ManagedUser } from "./AccountStatusDialog";
+import ModerationQueue from "./ModerationQueue";
 
 interface Room {
   id: string;
@@ -18,6 +21,7 @@ export default function AdminPanel() {
   const [newRoomName, setNewRoomName] = useState("");
   const [users, setUsers] = useState<any[]>([]);
   const [backupStatus, setBackupStatus] = useState('');
+  const [managedUser, setManagedUser] = useState<ManagedUser | null>(null);
 
   useEffect(() => {
     loadRooms();
@@ -299,9 +303,28 @@ export default function AdminPanel() {
                 </div>
 
                 <div className="flex items-center gap-2">
+                  {user.accountStatus === "banned" ? (
+                    <Badge variant="destructive">Banned</Badge>
+                  ) : isSuspended(user) ? (
+                    <Badge variant="destructive" title={user.statusReason ?? undefined}>
+                      Suspended{user.suspendedUntil && ` until ${new Date(user.suspendedUntil).toLocaleDateString()}`}
+                    </Badge>
+                  ) : isMuted(user) && (
+                    <Badge variant="outline" title={user.muteReason ?? undefined}>Muted</Badge>
+                  )}
                   <Badge variant={user.role === "admin" ? "default" : "secondary"}>
                     {user.role}
                   </Badge>
+                  {user.role !== "admin" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setManagedUser(user)}
+                      data-testid={`button-account-status-${user.id}`}
+                    >
+                      <ShieldAlert className="w-4 h-4" />
+                    </Button>
+                  )}
                   {user.role !== "admin" && (
                     <Button
                       variant="ghost"
@@ -319,6 +342,16 @@ export default function AdminPanel() {
         </CardContent>
       </Card>
 
+      <AccountStatusDialog
+        user={managedUser}
+        onClose={() => setManagedUser(null)}
+        onUpdated={(updated) => setUsers(prev => prev.map(u => u.id === updated.id ? updated : u))}
+      />
+
+      <ModerationQueue />
+
+      <MessageHistory />
+
       <Card>
         <CardHeader>
           <CardTitle>Active Chat Rooms</CardTitle>
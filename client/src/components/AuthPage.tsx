@@ -5,7 +5,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { useLogin, useSignup } from "@/lib/auth";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Ban } from "lucide-react";
+import { useLogin, useSignup, useAccountLock, AccountLockedError } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 
@@ -29,6 +31,7 @@ export default function AuthPage({ onLogin, onShowTutorial }: AuthPageProps) {
 
   const loginMutation = useLogin();
   const signupMutation = useSignup();
+  const { data: accountLock } = useAccountLock();
 
   const { data: departments } = useQuery({
     queryKey: ["departments"],
@@ -63,6 +66,8 @@ export default function AuthPage({ onLogin, onShowTutorial }: AuthPageProps) {
         onLogin(user);
       }
     } catch (error: any) {
+      // Shown in full above the form instead
+      if (error instanceof AccountLockedError) return;
       toast({
         title: "Login Failed",
         description: error.message || "Invalid username or password",
@@ -127,6 +132,21 @@ export default function AuthPage({ onLogin, onShowTutorial }: AuthPageProps) {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {accountLock && (
+            <Alert variant="destructive" className="mb-4" data-testid="alert-account-locked">
+              <Ban className="h-4 w-4" />
+              <AlertTitle>
+                {accountLock.accountStatus === "banned" ? "Your account has been banned" : "Your account is suspended"}
+              </AlertTitle>
+              <AlertDescription>
+                {accountLock.accountStatus === "suspended" && accountLock.until && (
+                  <p>You can sign in again on {new Date(accountLock.until).toLocaleString()}.</p>
+                )}
+                {accountLock.reason && <p>Reason: {accountLock.reason}</p>}
+                <p>Contact an administrator if you think this is a mistake.</p>
+              </AlertDescription>
+            </Alert>
+          )}
           <Tabs defaultValue="login" className="w-full">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="login" data-testid="tab-login">Login</TabsTrigger>
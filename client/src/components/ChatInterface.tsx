@@ -1,20 +1,40 @@
 import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { ScrollArea } from "@/components/ui/scroll-area";
-import { Send, Image as ImageIcon, Bold, Italic, Palette } from "lucide-react";
+import { Send, Image as ImageIcon, Bold, Italic, Palette, Settings2, Timer } from "lucide-react";
 import ChatMessage from "./ChatMessage";
+import ThreadPanel from "./ThreadPanel";
+import type { ReactionSummary } from "./ReactionBar";
 import UserProfileDialog from "./UserProfileDialog";
-
-interface Message {
+import RoomSettingsDialog, { type RoomSettings } from "./RoomSettingsDialog";
+import PinnedBar, { type PinnedMessage } from "./PinnedBar";
+import ReportDialog from "./ReportDialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePresence } from "@/lib/presence";
+import { useAuth } from "@/lib/auth";
+import { MAX_MESSAGE_LENGTH, type MessageAst } from "@shared/markdown";
+import type { MessageFormatting } from "@shared/schema";
+
+// While the user keeps typing, typing_start is repeated this often to keep the
+// server's indicator alive; after this much idle time typing_stop is sent
+const TYPING_REFRESH_MS = 3000;
+const TYPING_IDLE_MS = 3000;
+
+export interface Message {
   id: string;
   sender: string;
   content: string;
+  contentAst?: MessageAst | null;
   timestamp: string;
   isOwn?: boolean;
   isAI?: boolean;
   replyTo?: string;
-  reactions?: { heart: number };
+  replyCount?: number;
+  lastReplyAt?: string | null;
+  deleted?: boolean;
+  hidden?: boolean;
+  legalHold?: boolean;
+  reactions?: ReactionSummary[];
   formatting?: {
     bold?: boolean;
     italic?: boolean;
@@ -22,15 +42,22 @@ interface Message {
   };
   imageUrl?: string;
   caption?: string;
+  edited?: boolean;
 }
 
 interface ChatInterfaceProps {
   roomName: string;
   currentUser: string;
   roomId: string;
+  onOpenRoom?: (room: any) => void;
+  // Posting rules and the viewer's role, for the settings dialog and input state
+  room?: RoomSettings;
+  // A message to jump to once this room's history has loaded
+  focus?: { messageId: string; threadRootId: string | null } | null;
+  onFocusHandled?: () => void;
 }
 
-export default function ChatInterface({ roomName, currentUser, roomId }: ChatInterfaceProps) {
+export default function ChatInterface({ roomName, currentUser, roomId, onOpenRoom, room, focus, onFocusHandled }: ChatInterfaceProps) {
   const [message, setMessage] = useState("");
   const [messages, setMessages] = useState<Message[]>([]);
   const [isBold, setIsBold] = useState(false);
@@ -40,9 +67,32 @@ export default function ChatInterface({ roomName, currentUser, roomId }: ChatInt
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [profileDialogOpen, setProfileDialogOpen] = useState(false);
   const [selectedUsername, setSelectedUsername] = useState("");
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [threadRoot, setThreadRoot] = useState<Message | null>(null);
+  const [threadReplies, setThreadReplies] = useState<Message[]>([]);
+  const [threadLoading, setThreadLoading] = useState(false);
+  const [typingUsers, setTypingUsers] = useState<string[]>([]);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [pins, setPins] = useState<PinnedMessage[]>([]);
+  const [reportingMessageId, setReportingMessageId] = useState<string | null>(null);
+  // The room whose history is on screen; messages briefly belong to the old room after switching
+  const [loadedRoomId, setLoadedRoomId] = useState<string | null>(null);
+  // Read by the socket handler, which is bound once per room
+  const threadRootIdRef = useRef<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // scrollHeight captured before older messages are prepended, so the view can stay in place
+  const prependHeightRef = useRef<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const wsRef = useRef<WebSocket | null>(null);
+  const typingSentAtRef = useRef(0);
+  const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { toast } = useToast();
+  const { isOnline } = usePresence();
+  const { data: user } = useAuth();
+  const isAdmin = user?.role === 'admin';
 
   // Helper function to scroll to the bottom
   const scrollToBottom = () => {
@@ -56,11 +106,214 @@ export default function ChatInterface({ roomName, currentUser, roomId }: ChatInt
     return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  const toChatMessage = (msg: any): Message => ({
+    id: msg.id,
+    sender: msg.sender,
+    content: msg.content,
+    contentAst: msg.contentAst,
+    timestamp: formatTimestamp(msg.createdAt),
+    isOwn: msg.sender === currentUser,
+    isAI: msg.sender === 'AI Assistant',
+    replyTo: msg.replyTo,
+    reactions: msg.reactions || [],
+    formatting: msg.formatting,
+    imageUrl: msg.imageUrl,
+    caption: msg.imageUrl ? msg.content : undefined,
+    edited: msg.edited,
+    replyCount: msg.replyCount,
+    lastReplyAt: msg.lastReplyAt,
+    deleted: !!msg.deletedAt,
+    hidden: !!msg.hiddenAt,
+    legalHold: !!msg.legalHold,
+  });
+
+  // Applies a change to a message wherever it is shown: timeline, thread root or thread reply
+  const updateMessage = (messageId: string, update: (msg: Message) => Message) => {
+    const apply = (msg: Message) => msg.id === messageId ? update(msg) : msg;
+    setMessages(prev => prev.map(apply));
+    setThreadReplies(prev => prev.map(apply));
+    setThreadRoot(prev => prev ? apply(prev) : prev);
+  };
+
+  const openThread = async (messageId: string) => {
+    threadRootIdRef.current = messageId;
+    setThreadRootId(messageId);
+    setThreadRoot(messages.find(msg => msg.id === messageId) || null);
+    setThreadReplies([]);
+    setThreadLoading(true);
+
+    try {
+      const response = await fetch(`/api/messages/${messageId}/thread`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to load thread');
+      }
+      const data = await response.json();
+      if (threadRootIdRef.current !== messageId) return;
+      setThreadRoot(toChatMessage(data.root));
+      setThreadReplies(data.replies.map(toChatMessage));
+    } catch (error: any) {
+      toast({
+        title: "Thread error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setThreadLoading(false);
+    }
+  };
+
+  const closeThread = () => {
+    threadRootIdRef.current = null;
+    setThreadRootId(null);
+    setThreadRoot(null);
+    setThreadReplies([]);
+  };
+
+  const sendThreadReply = (content: string) => {
+    if (!threadRootId || !wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+    wsRef.current.send(JSON.stringify({
+      type: 'message',
+      roomId: roomId,
+      content: content,
+      replyTo: threadRootId
+    }));
+  };
+
+  const deleteMessage = (messageId: string) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+    wsRef.current.send(JSON.stringify({
+      type: 'delete',
+      messageId: messageId
+    }));
+  };
+
+  const togglePin = (messageId: string) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+    wsRef.current.send(JSON.stringify({
+      type: pins.some(pin => pin.messageId === messageId) ? 'unpin' : 'pin',
+      messageId: messageId
+    }));
+  };
+
+  const toggleLegalHold = async (messageId: string, hold: boolean) => {
+    try {
+      const response = await fetch(`/api/admin/messages/${messageId}/legal-hold`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ hold }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      toast({ title: hold ? "Legal hold placed" : "Legal hold released" });
+    } catch (error: any) {
+      toast({ title: "Legal hold error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  // Replies live in their thread; timeline messages are scrolled to if loaded
+  const jumpToMessage = (messageId: string, threadRootId: string | null) => {
+    if (threadRootId) {
+      openThread(threadRootId);
+      return;
+    }
+    const element = document.getElementById(`message-${messageId}`);
+    if (element) {
+      element.scrollIntoView({ behavior: "smooth", block: "center" });
+    } else {
+      toast({ title: "Message not loaded", description: "Load older messages to see this one in context." });
+    }
+  };
+
+  const showPinnedMessage = (pin: PinnedMessage) => jumpToMessage(pin.messageId, pin.message.replyTo ?? null);
+
   useEffect(() => {
+    if (prependHeightRef.current !== null && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight - prependHeightRef.current;
+      prependHeightRef.current = null;
+      return;
+    }
     scrollToBottom();
   }, [messages]);
 
+  // Runs after the scroll-to-bottom above so the jump isn't undone
+  useEffect(() => {
+    if (!focus || loadedRoomId !== roomId) return;
+    jumpToMessage(focus.messageId, focus.threadRootId);
+    onFocusHandled?.();
+  }, [focus, loadedRoomId, roomId]);
+
+  const loadOlderMessages = () => {
+    if (!hasMore || !nextCursor || loadingMore) return;
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+
+    setLoadingMore(true);
+    wsRef.current.send(JSON.stringify({
+      type: 'load_more',
+      roomId: roomId,
+      before: nextCursor
+    }));
+  };
+
+  const handleScroll = () => {
+    if (scrollRef.current && scrollRef.current.scrollTop < 40) {
+      loadOlderMessages();
+    }
+  };
+
+  const stopTyping = (notifyServer: boolean) => {
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+      typingIdleTimerRef.current = null;
+    }
+    if (notifyServer && typingSentAtRef.current && wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'typing_stop', roomId: roomId }));
+    }
+    typingSentAtRef.current = 0;
+  };
+
+  const handleMessageChange = (value: string) => {
+    setMessage(value);
+
+    if (!value.trim()) {
+      stopTyping(true);
+      return;
+    }
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+    if (Date.now() - typingSentAtRef.current > TYPING_REFRESH_MS) {
+      ws.send(JSON.stringify({ type: 'typing_start', roomId: roomId }));
+      typingSentAtRef.current = Date.now();
+    }
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+    }
+    typingIdleTimerRef.current = setTimeout(() => stopTyping(true), TYPING_IDLE_MS);
+  };
+
+  const typingLabel = typingUsers.length === 1
+    ? `${typingUsers[0]} is typing…`
+    : typingUsers.length === 2
+      ? `${typingUsers[0]} and ${typingUsers[1]} are typing…`
+      : typingUsers.length > 2
+        ? 'Several people are typing…'
+        : null;
+
+  // Tell the server everything currently shown has been read
+  const markRoomRead = (ws: WebSocket) => {
+    if (ws.readyState === WebSocket.OPEN && document.visibilityState === 'visible') {
+      ws.send(JSON.stringify({ type: 'read', roomId: roomId }));
+    }
+  };
+
   useEffect(() => {
+    closeThread();
+    stopTyping(false);
+    setTypingUsers([]);
+
     // Connect to WebSocket
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
     const wsUrl = `${protocol}//${window.location.host}/ws`;
@@ -75,8 +328,7 @@ export default function ChatInterface({ roomName, currentUser, roomId }: ChatInt
       console.log('WebSocket connected');
       ws.send(JSON.stringify({
         type: 'join',
-        roomId: roomId,
-        userId: currentUser
+        roomId: roomId
       }));
     };
 
@@ -84,50 +336,81 @@ export default function ChatInterface({ roomName, currentUser, roomId }: ChatInt
       const data = JSON.parse(event.data);
 
       if (data.type === 'history') {
-        setMessages(data.messages.map((msg: any) => ({
-          id: msg.id,
-          sender: msg.sender,
-          content: msg.content,
-          timestamp: formatTimestamp(msg.createdAt),
-          isOwn: msg.sender === currentUser,
-          isAI: msg.sender === 'AI Assistant',
-          replyTo: msg.replyTo,
-          reactions: msg.reactions || { heart: 0 },
-          formatting: msg.formatting,
-          imageUrl: msg.imageUrl,
-          caption: msg.imageUrl ? msg.content : undefined,
-          edited: msg.edited,
-        })));
+        setTypingUsers([]);
+        setMessages(data.messages.map(toChatMessage));
+        setPins(data.pins || []);
+        setLoadedRoomId(data.roomId);
+        setNextCursor(data.nextCursor);
+        setHasMore(data.hasMore);
+        markRoomRead(ws);
+      } else if (data.type === 'history_page') {
+        if (scrollRef.current) {
+          prependHeightRef.current = scrollRef.current.scrollHeight;
+        }
+        setMessages(prev => {
+          const known = new Set(prev.map(msg => msg.id));
+          const older = data.messages.filter((msg: any) => !known.has(msg.id)).map(toChatMessage);
+          return [...older, ...prev];
+        });
+        setNextCursor(data.nextCursor);
+        setHasMore(data.hasMore);
+        setLoadingMore(false);
       } else if (data.type === 'new_message') {
-        const msg = data.message;
-        setMessages(prev => [...prev, {
-          id: msg.id,
-          sender: msg.sender,
-          content: msg.content,
-          timestamp: formatTimestamp(msg.createdAt),
-          isOwn: msg.sender === currentUser,
-          isAI: msg.sender === 'AI Assistant',
-          replyTo: msg.replyTo,
-          reactions: msg.reactions || { heart: 0 },
-          formatting: msg.formatting,
-          imageUrl: msg.imageUrl,
-          caption: msg.imageUrl ? msg.content : undefined,
-          edited: msg.edited,
-        }]);
+        setMessages(prev => [...prev, toChatMessage(data.message)]);
+        markRoomRead(ws);
+      } else if (data.type === 'thread_reply') {
+        if (data.rootId === threadRootIdRef.current) {
+          setThreadReplies(prev =>
+            prev.some(msg => msg.id === data.message.id) ? prev : [...prev, toChatMessage(data.message)]
+          );
+        }
+        markRoomRead(ws);
+      } else if (data.type === 'thread_updated') {
+        updateMessage(data.rootId, msg => ({
+          ...msg,
+          replyCount: data.replyCount,
+          lastReplyAt: data.lastReplyAt
+        }));
       } else if (data.type === 'message_edited') {
-        setMessages(prev => prev.map(msg =>
-          msg.id === data.messageId
-            ? { ...msg, content: data.content, edited: true }
-            : msg
+        updateMessage(data.messageId, msg => ({ ...msg, content: data.content, contentAst: data.contentAst, edited: true }));
+        setPins(prev => prev.map(pin =>
+          pin.messageId === data.messageId ? { ...pin, message: { ...pin.message, content: data.content } } : pin
         ));
-      } else if (data.type === 'message_deleted') {
-        setMessages(prev => prev.filter(msg => msg.id !== data.messageId));
+      } else if (data.type === 'message_pinned') {
+        setPins(prev => prev.some(pin => pin.messageId === data.pin.messageId) ? prev : [data.pin, ...prev]);
+      } else if (data.type === 'message_unpinned') {
+        setPins(prev => prev.filter(pin => pin.messageId !== data.messageId));
+      } else if (data.type === 'message_deleted' || data.type === 'message_hidden') {
+        // Deleted and hidden messages stay in place as a placeholder
+        const placeholder = toChatMessage(data.placeholder);
+        updateMessage(data.messageId, () => placeholder);
+      } else if (data.type === 'messages_expired') {
+        // Removed for good by the room's retention policy
+        const expired = new Set<string>(data.messageIds);
+        setMessages(prev => prev.filter(msg => !expired.has(msg.id)));
+        setThreadReplies(prev => prev.filter(msg => !expired.has(msg.id)));
+        if (threadRootIdRef.current && expired.has(threadRootIdRef.current)) {
+          closeThread();
+        }
+      } else if (data.type === 'message_legal_hold') {
+        updateMessage(data.messageId, msg => ({ ...msg, legalHold: data.legalHold }));
       } else if (data.type === 'message_reacted') {
-        setMessages(prev => prev.map(msg =>
-          msg.id === data.messageId
-            ? { ...msg, reactions: data.reactions }
-            : msg
-        ));
+        updateMessage(data.messageId, msg => ({ ...msg, reactions: data.reactions }));
+      } else if (data.type === 'typing_start') {
+        if (data.username !== currentUser) {
+          setTypingUsers(prev => prev.includes(data.username) ? prev : [...prev, data.username]);
+        }
+      } else if (data.type === 'typing_stop') {
+        setTypingUsers(prev => prev.filter(username => username !== data.username));
+      } else if (data.type === 'error') {
+        if (data.requestType === 'load_more') {
+          setLoadingMore(false);
+        }
+        toast({
+          title: "Chat error",
+          description: data.message,
+          variant: "destructive",
+        });
       }
     };
 
@@ -141,6 +424,7 @@ export default function ChatInterface({ roomName, currentUser, roomId }: ChatInt
     };
 
     return () => {
+      stopTyping(false);
       ws.close();
       (window as any).ws = null;
     };
@@ -167,8 +451,9 @@ export default function ChatInterface({ roomName, currentUser, roomId }: ChatInt
           // Image message will come through WebSocket
           console.log('Image uploaded successfully');
         } else {
+          const error = await response.json().catch(() => ({}));
           console.error('Image upload failed');
-          alert('Failed to upload image. Please try again.');
+          alert(error.error || 'Failed to upload image. Please try again.');
         }
       } catch (error) {
         console.error('Error uploading image:', error);
@@ -185,57 +470,29 @@ export default function ChatInterface({ roomName, currentUser, roomId }: ChatInt
     const isAIQuery = message.toLowerCase().includes('@ai');
     const cleanedMessage = isAIQuery ? message.replace(/@ai/gi, '').trim() : message;
 
-    const formatting: any = {};
+    const formatting: MessageFormatting = {};
     if (isBold) formatting.bold = true;
     if (isItalic) formatting.italic = true;
     if (textColor !== "#000000") formatting.color = textColor;
 
-    // Send message through WebSocket (with @ai stripped)
+    // Send message through WebSocket (with @ai stripped). The server posts
+    // the AI reply itself when askAI is set.
     if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify({
         type: 'message',
         roomId: roomId,
-        sender: currentUser,
         content: cleanedMessage,
-        formatting: Object.keys(formatting).length > 0 ? formatting : null
+        formatting: Object.keys(formatting).length > 0 ? formatting : null,
+        askAI: isAIQuery
       }));
     }
 
+    // The server clears our typing indicator when the message arrives
+    stopTyping(false);
     setMessage("");
     setIsBold(false);
     setIsItalic(false);
     setTextColor("#000000");
-
-    if (isAIQuery) {
-      // Send to custom AI API with sender context
-      fetch('/api/ai/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({
-          message: cleanedMessage,
-          roomId: roomId,
-          context: `Chat room: ${roomName}, Asked by: ${currentUser}`,
-        }),
-      })
-        .then(response => response.json())
-        .then(data => {
-          // AI response will be sent through WebSocket
-          if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-            wsRef.current.send(JSON.stringify({
-              type: 'message',
-              roomId: roomId,
-              sender: 'AI Assistant',
-              content: data.response || "I'm sorry, I couldn't process that request."
-            }));
-          }
-        })
-        .catch(error => {
-          console.error('AI request failed:', error);
-        });
-    }
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -257,156 +514,254 @@ export default function ChatInterface({ roomName, currentUser, roomId }: ChatInt
     setProfileDialogOpen(true);
   };
 
-  return (
-    <div className="flex flex-col h-full">
-      <div className="border-b px-4 py-3 bg-card">
-        <h2 className="font-semibold">{roomName}</h2>
-        <p className="text-xs text-muted-foreground">
-          {messages.length} messages
-        </p>
-      </div>
+  const pinnedIds = new Set(pins.map(pin => pin.messageId));
+
+  // Moderators are exempt from read-only, mutes and slow mode, as on the server
+  const mutedUntil = room?.mutedUntil && new Date(room.mutedUntil) > new Date() ? new Date(room.mutedUntil) : null;
+  const postingBlocked = !room?.canModerate && (!!room?.readOnly || !!mutedUntil);
+  const postingNotice = room?.canModerate ? null
+    : room?.readOnly ? "Only moderators can post in this room"
+    : mutedUntil ? `You are muted in this room until ${mutedUntil.toLocaleString()}`
+    : room?.slowModeSeconds ? `Slow mode: one message every ${room.slowModeSeconds}s`
+    : null;
+  const retentionNotice = room?.retentionPolicy === 'days' && room.retentionDays
+    ? `Messages are deleted after ${room.retentionDays} ${room.retentionDays === 1 ? 'day' : 'days'}`
+    : room?.retentionPolicy === 'semester' ? 'Messages are deleted at the end of the semester'
+    : null;
 
-      <ScrollArea className="flex-1 p-4" ref={scrollRef}>
-        <div className="space-y-4">
-          {messages.map((msg) => (
-            <ChatMessage
-              id={msg.id}
-              key={msg.id}
-              sender={msg.sender}
-              content={msg.content}
-              timestamp={msg.timestamp}
-              isOwn={msg.isOwn}
-              isAI={msg.isAI}
-              replyTo={msg.replyTo}
-              reactions={msg.reactions}
-              formatting={msg.formatting}
-              imageUrl={msg.imageUrl}
-              caption={msg.caption}
-              onReact={handleReaction}
-              onUsernameClick={handleUsernameClick}
-            />
-          ))}
-        </div>
-      </ScrollArea>
-
-      <div className="border-t p-4 bg-card space-y-2">
-        {imagePreview && (
-          <div className="relative bg-muted rounded-lg p-2">
-            <button
-              onClick={() => {
-                setSelectedImage(null);
-                setImagePreview(null);
-              }}
-              className="absolute top-1 right-1 bg-background rounded-full p-1 hover:bg-destructive hover:text-destructive-foreground"
-            >
-              ✕
-            </button>
-            <img
-              src={imagePreview}
-              alt="Preview"
-              className="max-h-32 rounded"
-            />
-            <p className="text-xs text-muted-foreground mt-1">
-              {selectedImage?.name} • Add a caption below (optional)
+  return (
+    <div className="flex h-full">
+      <div className="flex flex-col h-full flex-1 min-w-0">
+        <div className="border-b px-4 py-3 bg-card flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <h2 className="font-semibold">{roomName}</h2>
+            <p className="text-xs text-muted-foreground">
+              {messages.length} messages
             </p>
+            {retentionNotice && (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="text-retention-notice">
+                <Timer className="w-3 h-3" />
+                {retentionNotice}. Pinned messages are kept.
+              </p>
+            )}
           </div>
-        )}
+          {room?.canModerate && room.type !== "dm" && (
+            <Button variant="ghost" size="sm" onClick={() => setSettingsOpen(true)} data-testid="button-room-settings">
+              <Settings2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
 
-        <div className="flex gap-2 items-center">
-          <Button
-            variant={isBold ? "default" : "ghost"}
-            size="sm"
-            onClick={() => setIsBold(!isBold)}
-            data-testid="button-format-bold"
-          >
-            <Bold className="w-4 h-4" />
-          </Button>
-          <Button
-            variant={isItalic ? "default" : "ghost"}
-            size="sm"
-            onClick={() => setIsItalic(!isItalic)}
-            data-testid="button-format-italic"
-          >
-            <Italic className="w-4 h-4" />
-          </Button>
-          <div className="flex items-center gap-1">
+        <PinnedBar
+          pins={pins}
+          onSelect={showPinnedMessage}
+          onUnpin={room?.canModerate ? togglePin : undefined}
+        />
+
+        <div className="flex-1 overflow-y-auto p-4" ref={scrollRef} onScroll={handleScroll}>
+          {hasMore && (
+            <div className="flex justify-center pb-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={loadOlderMessages}
+                disabled={loadingMore}
+                data-testid="button-load-older"
+              >
+                {loadingMore ? "Loading..." : "Load older messages"}
+              </Button>
+            </div>
+          )}
+          <div className="space-y-4">
+            {messages.map((msg) => (
+              <ChatMessage
+                id={msg.id}
+                key={msg.id}
+                sender={msg.sender}
+                content={msg.content}
+                contentAst={msg.contentAst}
+                timestamp={msg.timestamp}
+                isOwn={msg.isOwn}
+                isAI={msg.isAI}
+                online={isOnline(msg.sender)}
+                edited={msg.edited}
+                deleted={msg.deleted}
+                hidden={msg.hidden}
+                replyCount={msg.replyCount}
+                lastReplyAt={msg.lastReplyAt}
+                reactions={msg.reactions}
+                formatting={msg.formatting}
+                imageUrl={msg.imageUrl}
+                caption={msg.caption}
+                onReact={handleReaction}
+                onUsernameClick={handleUsernameClick}
+                onOpenThread={() => openThread(msg.id)}
+                onDelete={() => deleteMessage(msg.id)}
+                pinned={pinnedIds.has(msg.id)}
+                onTogglePin={room?.canModerate ? () => togglePin(msg.id) : undefined}
+                onReport={!msg.isOwn && !msg.isAI ? () => setReportingMessageId(msg.id) : undefined}
+                legalHold={msg.legalHold}
+                onToggleLegalHold={isAdmin ? () => toggleLegalHold(msg.id, !msg.legalHold) : undefined}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="h-5 px-4 text-xs italic text-muted-foreground" data-testid="text-typing">
+          {typingLabel}
+        </div>
+
+        <div className="border-t p-4 bg-card space-y-2">
+          {postingNotice && (
+            <p className="text-xs text-muted-foreground" data-testid="text-posting-notice">{postingNotice}</p>
+          )}
+          {imagePreview && (
+            <div className="relative bg-muted rounded-lg p-2">
+              <button
+                onClick={() => {
+                  setSelectedImage(null);
+                  setImagePreview(null);
+                }}
+                className="absolute top-1 right-1 bg-background rounded-full p-1 hover:bg-destructive hover:text-destructive-foreground"
+              >
+                ✕
+              </button>
+              <img
+                src={imagePreview}
+                alt="Preview"
+                className="max-h-32 rounded"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                {selectedImage?.name} • Add a caption below (optional)
+              </p>
+            </div>
+          )}
+
+          <div className="flex gap-2 items-center">
+            <Button
+              variant={isBold ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setIsBold(!isBold)}
+              data-testid="button-format-bold"
+            >
+              <Bold className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={isItalic ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setIsItalic(!isItalic)}
+              data-testid="button-format-italic"
+            >
+              <Italic className="w-4 h-4" />
+            </Button>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => document.getElementById('color-picker')?.click()}
+                data-testid="button-format-color"
+              >
+                <Palette className="w-4 h-4" />
+              </Button>
+              <input
+                id="color-picker"
+                type="color"
+                value={textColor}
+                onChange={(e) => setTextColor(e.target.value)}
+                className="w-0 h-0 opacity-0"
+              />
+            </div>
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => document.getElementById('color-picker')?.click()}
-              data-testid="button-format-color"
+              onClick={() => fileInputRef.current?.click()}
+              data-testid="button-upload-image"
             >
-              <Palette className="w-4 h-4" />
+              <ImageIcon className="w-4 h-4" />
             </Button>
             <input
-              id="color-picker"
-              type="color"
-              value={textColor}
-              onChange={(e) => setTextColor(e.target.value)}
-              className="w-0 h-0 opacity-0"
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  console.log('Image selected:', file.name);
+                  setSelectedImage(file);
+                  const reader = new FileReader();
+                  reader.onloadend = () => {
+                    setImagePreview(reader.result as string);
+                  };
+                  reader.readAsDataURL(file);
+
+                  if (fileInputRef.current) {
+                    fileInputRef.current.value = '';
+                  }
+                }
+              }}
+              className="hidden"
             />
           </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => fileInputRef.current?.click()}
-            data-testid="button-upload-image"
-          >
-            <ImageIcon className="w-4 h-4" />
-          </Button>
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept="image/*"
-            onChange={(e) => {
-              const file = e.target.files?.[0];
-              if (file) {
-                console.log('Image selected:', file.name);
-                setSelectedImage(file);
-                const reader = new FileReader();
-                reader.onloadend = () => {
-                  setImagePreview(reader.result as string);
-                };
-                reader.readAsDataURL(file);
-
-                if (fileInputRef.current) {
-                  fileInputRef.current.value = '';
-                }
-              }
-            }}
-            className="hidden"
-          />
-        </div>
 
-        <div className="flex gap-2">
-          <Textarea
-            placeholder={selectedImage ? "Add a caption for your image (optional)..." : "Type a message... (use @ai for AI help, @username to mention)"}
-            value={message}
-            onChange={(e) => setMessage(e.target.value)}
-            onKeyPress={handleKeyPress}
-            className="min-h-[60px] resize-none"
-            data-testid="input-message"
-          />
-          <Button
-            onClick={handleSend}
-            disabled={!message.trim() && !selectedImage}
-            className="shrink-0"
-            data-testid="button-send"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+          <div className="flex gap-2">
+            <Textarea
+              placeholder={selectedImage ? "Add a caption for your image (optional)..." : "Type a message... (use @ai for AI help, @username to mention)"}
+              value={message}
+              maxLength={MAX_MESSAGE_LENGTH}
+              disabled={postingBlocked}
+              onChange={(e) => handleMessageChange(e.target.value)}
+              onKeyPress={handleKeyPress}
+              className="min-h-[60px] resize-none"
+              data-testid="input-message"
+            />
+            <Button
+              onClick={handleSend}
+              disabled={postingBlocked || (!message.trim() && !selectedImage)}
+              className="shrink-0"
+              data-testid="button-send"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <p className="text-[10px] text-muted-foreground">
+            Tip: Use @ai to ask questions, @username to mention someone. **bold**, *italic*, `code`, ``` code blocks, - lists and [links](https://…) work too
+          </p>
         </div>
 
-        <p className="text-[10px] text-muted-foreground">
-          Tip: Use @ai to ask questions, @username to mention someone
-        </p>
+        <UserProfileDialog
+          username={selectedUsername}
+          open={profileDialogOpen}
+          onOpenChange={setProfileDialogOpen}
+          onStartConversation={onOpenRoom && ((room) => {
+            setProfileDialogOpen(false);
+            onOpenRoom(room);
+          })}
+        />
+
+        {room?.canModerate && (
+          <RoomSettingsDialog room={room} open={settingsOpen} onOpenChange={setSettingsOpen} />
+        )}
+
+        <ReportDialog targetType="message" targetId={reportingMessageId} onClose={() => setReportingMessageId(null)} />
       </div>
 
-      <UserProfileDialog
-        username={selectedUsername}
-        open={profileDialogOpen}
-        onOpenChange={setProfileDialogOpen}
-      />
+      {threadRootId && (
+        <ThreadPanel
+          root={threadRoot}
+          replies={threadReplies}
+          loading={threadLoading}
+          onSend={sendThreadReply}
+          onClose={closeThread}
+          onDelete={deleteMessage}
+          onUsernameClick={handleUsernameClick}
+          isOnline={isOnline}
+          pinnedIds={pinnedIds}
+          onTogglePin={room?.canModerate ? togglePin : undefined}
+          onReport={setReportingMessageId}
+          onToggleLegalHold={isAdmin ? toggleLegalHold : undefined}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -2,18 +2,27 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Heart, Reply, Edit, Trash2, Bot } from "lucide-react";
+import { Heart, Reply, Edit, Trash2, Bot, MessageSquare, Pin, PinOff, Flag, Lock, LockOpen } from "lucide-react";
+import ReactionBar, { type ReactionSummary } from "./ReactionBar";
+import PresenceDot from "./PresenceDot";
+import MessageBody from "./MessageBody";
+import type { MessageAst } from "@shared/markdown";
 
 interface ChatMessageProps {
   id: string;
   sender: string;
   content: string;
+  contentAst?: MessageAst | null;
   timestamp: string;
   isOwn?: boolean;
   isAI?: boolean;
-  replyTo?: string;
+  online?: boolean;
   edited?: boolean;
-  reactions?: { heart: number };
+  deleted?: boolean;
+  hidden?: boolean;
+  replyCount?: number;
+  lastReplyAt?: string | null;
+  reactions?: ReactionSummary[];
   formatting?: {
     bold?: boolean;
     italic?: boolean;
@@ -23,6 +32,15 @@ interface ChatMessageProps {
   caption?: string;
   onReact?: (emoji: string) => void;
   onUsernameClick?: (username: string) => void;
+  onOpenThread?: () => void;
+  onDelete?: () => void;
+  pinned?: boolean;
+  // Only passed to room moderators
+  onTogglePin?: () => void;
+  onReport?: () => void;
+  legalHold?: boolean;
+  // Only passed to admins
+  onToggleLegalHold?: () => void;
 }
 
 const getUserRoleTag = (username: string): { text: string; icon: string } | null => {
@@ -39,33 +57,40 @@ export default function ChatMessage({
   id,
   sender,
   content,
+  contentAst,
   timestamp,
   isOwn = false,
   isAI = false,
-  replyTo,
+  online,
   edited = false,
-  reactions = { heart: 0 },
+  deleted = false,
+  hidden = false,
+  replyCount = 0,
+  lastReplyAt,
+  reactions = [],
   formatting,
   imageUrl,
   caption,
   onReact,
-  onUsernameClick
+  onUsernameClick,
+  onOpenThread,
+  onDelete,
+  pinned = false,
+  onTogglePin,
+  onReport,
+  legalHold = false,
+  onToggleLegalHold
 }: ChatMessageProps) {
   const [showActions, setShowActions] = useState(false);
-  const [localReactions, setLocalReactions] = useState(reactions);
-  const [hasReacted, setHasReacted] = useState(false);
+  const hasReactedHeart = reactions.some(reaction => reaction.emoji === "heart" && reaction.reactedByMe);
 
   const handleReact = (emoji: string) => {
     if (onReact) {
       onReact(emoji);
     }
 
-    setHasReacted(!hasReacted);
-    setLocalReactions(prev => ({
-      heart: prev.heart + (hasReacted ? -1 : 1)
-    }));
-
-    // Send reaction to server via WebSocket
+    // Send reaction to server via WebSocket; it toggles and the updated
+    // counts come back as message_reacted
     if ((window as any).ws && (window as any).ws.readyState === WebSocket.OPEN) {
       (window as any).ws.send(JSON.stringify({
         type: "react",
@@ -87,6 +112,7 @@ export default function ChatMessage({
 
   return (
     <div
+      id={`message-${id}`}
       className={`flex gap-3 group ${isOwn ? 'flex-row-reverse' : 'flex-row'}`}
       onMouseEnter={() => setShowActions(true)}
       onMouseLeave={() => setShowActions(false)}
@@ -99,6 +125,7 @@ export default function ChatMessage({
 
       <div className={`flex flex-col gap-1 max-w-[70%] ${isOwn ? 'items-end' : 'items-start'}`}>
         <div className="flex items-center gap-2">
+          {!isAI && online !== undefined && <PresenceDot online={online} />}
           <span
             className={`text-xs font-medium ${!isAI && onUsernameClick ? 'cursor-pointer hover:underline' : ''}`}
             onClick={() => !isAI && onUsernameClick && onUsernameClick(sender)}
@@ -113,60 +140,82 @@ export default function ChatMessage({
           )}
         </div>
 
-        {replyTo && (
-          <div className="text-[10px] text-muted-foreground italic px-3 py-1 bg-muted/50 rounded">
-            Replying to: {replyTo}
+        {deleted || hidden ? (
+          <div className="rounded-lg px-3 py-2 border border-dashed text-sm italic text-muted-foreground" data-testid={`message-deleted-${id}`}>
+            {deleted ? 'This message was deleted' : 'This message was hidden by a moderator'}
           </div>
-        )}
-
-        <div
-          className={`rounded-lg overflow-hidden ${
-            imageUrl ? 'p-2' : 'px-3 py-2'
-          } ${
-            isOwn
-              ? 'bg-primary text-primary-foreground'
-              : isAI
-              ? 'bg-accent/50'
-              : 'bg-card border'
-          }`}
-        >
-          {imageUrl ? (
-            <div className="space-y-2">
-              <div className="rounded-lg overflow-hidden border-2 border-background">
-                <img 
-                  src={imageUrl} 
-                  alt="Uploaded image" 
-                  className="max-w-full h-auto max-h-96 object-contain"
-                />
+        ) : (
+          <div
+            className={`rounded-lg overflow-hidden ${
+              imageUrl ? 'p-2' : 'px-3 py-2'
+            } ${
+              isOwn
+                ? 'bg-primary text-primary-foreground'
+                : isAI
+                ? 'bg-accent/50'
+                : 'bg-card border'
+            }`}
+          >
+            {imageUrl ? (
+              <div className="space-y-2">
+                <div className="rounded-lg overflow-hidden border-2 border-background">
+                  <img 
+                    src={`/api/files/${imageUrl}`} 
+                    alt="Uploaded image" 
+                    className="max-w-full h-auto max-h-96 object-contain"
+                  />
+                </div>
+                {caption && (contentAst ? (
+                  <div className="px-1">
+                    <MessageBody ast={contentAst} style={messageStyle} onMentionClick={onUsernameClick} />
+                  </div>
+                ) : (
+                  <p className="text-sm leading-relaxed break-words px-1" style={messageStyle}>
+                    {caption}
+                  </p>
+                ))}
               </div>
-              {caption && (
-                <p className="text-sm leading-relaxed break-words px-1" style={messageStyle}>
-                  {caption}
-                </p>
-              )}
-            </div>
-          ) : (
-            <p className="text-sm leading-relaxed break-words" style={messageStyle}>
-              {content}
-            </p>
-          )}
-        </div>
+            ) : contentAst ? (
+              <MessageBody ast={contentAst} style={messageStyle} onMentionClick={onUsernameClick} />
+            ) : (
+              // Sent before Markdown support: plain text styled by the formatting object
+              <p className="text-sm leading-relaxed break-words" style={messageStyle}>
+                {content}
+              </p>
+            )}
+          </div>
+        )}
 
         <div className="flex items-center gap-2">
           <span className="text-[10px] text-muted-foreground">
             {timestamp}
             {edited && <span className="ml-1">(edited)</span>}
           </span>
-
-          {localReactions.heart > 0 && (
-            <div className="flex items-center gap-1 text-[10px]">
-              <Heart className={`w-3 h-3 ${hasReacted ? 'fill-destructive text-destructive' : 'text-muted-foreground'}`} />
-              <span>{localReactions.heart}</span>
-            </div>
+          {pinned && <Pin className="w-3 h-3 text-muted-foreground" data-testid={`icon-pinned-${id}`} />}
+          {legalHold && onToggleLegalHold && (
+            <Lock className="w-3 h-3 text-muted-foreground" aria-label="Under legal hold" data-testid={`icon-legal-hold-${id}`} />
           )}
+
+          {!deleted && !hidden && <ReactionBar reactions={reactions} onToggle={handleReact} />}
         </div>
 
-        {showActions && (
+        {replyCount > 0 && onOpenThread && (
+          <button
+            className="flex items-center gap-1 text-[11px] font-medium text-primary hover:underline"
+            onClick={onOpenThread}
+            data-testid={`button-open-thread-${id}`}
+          >
+            <MessageSquare className="w-3 h-3" />
+            {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+            {lastReplyAt && (
+              <span className="font-normal text-muted-foreground">
+                · last reply {new Date(lastReplyAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </span>
+            )}
+          </button>
+        )}
+
+        {showActions && !deleted && !hidden && (
           <div className={`flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity`}>
             <Button
               variant="ghost"
@@ -175,17 +224,55 @@ export default function ChatMessage({
               className="h-6 px-2"
               data-testid="button-react"
             >
-              <Heart className="w-3 h-3" />
-            </Button>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => console.log('Reply to message')}
-              className="h-6 px-2"
-              data-testid="button-reply"
-            >
-              <Reply className="w-3 h-3" />
+              <Heart className={`w-3 h-3 ${hasReactedHeart ? 'fill-destructive text-destructive' : ''}`} />
             </Button>
+            {onOpenThread && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenThread}
+                className="h-6 px-2"
+                data-testid="button-reply"
+              >
+                <Reply className="w-3 h-3" />
+              </Button>
+            )}
+            {onTogglePin && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onTogglePin}
+                className="h-6 px-2"
+                title={pinned ? "Unpin" : "Pin to the top of the room"}
+                data-testid="button-pin"
+              >
+                {pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+              </Button>
+            )}
+            {onToggleLegalHold && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onToggleLegalHold}
+                className="h-6 px-2"
+                title={legalHold ? "Release legal hold" : "Place under legal hold"}
+                data-testid="button-legal-hold"
+              >
+                {legalHold ? <LockOpen className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+              </Button>
+            )}
+            {onReport && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onReport}
+                className="h-6 px-2"
+                title="Report"
+                data-testid="button-report"
+              >
+                <Flag className="w-3 h-3" />
+              </Button>
+            )}
             {isOwn && (
               <>
                 <Button
@@ -200,7 +287,7 @@ export default function ChatMessage({
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => console.log('Delete message')}
+                  onClick={() => onDelete ? onDelete() : console.log('Delete message')}
                   className="h-6 px-2"
                   data-testid="button-delete"
                 >
@@ -11,6 +11,7 @@ import DocumentUpload from "./DocumentUpload";
 import UserProfile from "./UserProfile";
 import AdminPanel from "./AdminPanel";
 import GovernorPostingPanel from "./GovernorPostingPanel";
+import { useNotifications } from "@/lib/notifications";
 
 interface Room {
   id: string;
@@ -27,11 +28,10 @@ export default function Dashboard({ user, onLogout }: DashboardProps) {
   const [activeView, setActiveView] = useState<'overview' | 'chat' | 'documents' | 'profile' | 'admin' | 'posting'>('overview');
   const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
   const [rooms, setRooms] = useState<Room[]>([]);
-  const [notifications, setNotifications] = useState<any[]>([]);
+  const { data: notifications = [] } = useNotifications();
 
   useEffect(() => {
     loadRooms();
-    loadNotifications();
 
     // Connect to WebSocket for real-time updates
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
@@ -67,18 +67,6 @@ export default function Dashboard({ user, onLogout }: DashboardProps) {
     }
   };
 
-  const loadNotifications = async () => {
-    try {
-      const response = await fetch('/api/notifications', { credentials: 'include' });
-      if (response.ok) {
-        const data = await response.json();
-        setNotifications(data);
-      }
-    } catch (error) {
-      console.error('Error loading notifications:', error);
-    }
-  };
-
   const handleRoomSelect = (room: Room) => {
     setSelectedRoom(room);
     setActiveView('chat');
@@ -166,7 +154,7 @@ export default function Dashboard({ user, onLogout }: DashboardProps) {
                       <NotificationCard
                         key={notif.id}
                         id={notif.id}
-                        type={notif.notificationType}
+                        type={notif.notificationType as any}
                         notificationType={notif.notificationType}
                         title={notif.title}
                         content={notif.content}
@@ -174,8 +162,7 @@ export default function Dashboard({ user, onLogout }: DashboardProps) {
                         createdAt={notif.createdAt}
                         targetDepartmentName={notif.targetDepartmentName}
                         reactions={notif.reactions}
-                        comments={notif.comments || []}
-                        commentCount={(notif.comments || []).length}
+                        commentCount={notif.commentCount}
                       />
                     ))}
                   </div>
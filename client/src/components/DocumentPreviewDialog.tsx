@@ -0,0 +1,89 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+
+type PreviewKind = "pdf" | "image" | "text";
+
+export interface PreviewedDocument {
+  id: string;
+  name: string;
+}
+
+interface DocumentPreviewDialogProps {
+  // The document being shown; the dialog is open while this is set
+  document: PreviewedDocument | null;
+  onClose: () => void;
+  onDownload: (document: PreviewedDocument) => void;
+}
+
+// What the preview endpoint will render inline; null means download only
+export function previewKind(name: string): PreviewKind | null {
+  const ext = name.slice(name.lastIndexOf('.')).toLowerCase();
+  if (ext === '.pdf') return "pdf";
+  if (ext === '.png' || ext === '.jpg' || ext === '.jpeg') return "image";
+  if (ext === '.txt') return "text";
+  return null;
+}
+
+export default function DocumentPreviewDialog({ document: doc, onClose, onDownload }: DocumentPreviewDialogProps) {
+  const [text, setText] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  const kind = doc ? previewKind(doc.name) : null;
+  const url = doc ? `/api/documents/${doc.id}/preview` : "";
+
+  useEffect(() => {
+    setText(null);
+    setFailed(false);
+    if (!doc || kind !== "text") return;
+    fetch(url, { credentials: 'include' })
+      .then(response => {
+        if (!response.ok) throw new Error(`Preview failed with ${response.status}`);
+        return response.text();
+      })
+      .then(setText)
+      .catch(error => {
+        console.error('Error loading preview:', error);
+        setFailed(true);
+      });
+  }, [doc?.id]);
+
+  return (
+    <Dialog open={!!doc} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{doc?.name}</DialogTitle>
+          <DialogDescription className="flex items-center justify-between gap-2">
+            <span>Preview</span>
+            {doc && (
+              <Button variant="outline" size="sm" onClick={() => onDownload(doc)} data-testid="button-preview-download">
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 rounded-lg border overflow-auto" data-testid="document-preview">
+          {failed ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              This document could not be shown. Download it instead.
+            </p>
+          ) : kind === "pdf" ? (
+            <iframe src={url} title={doc?.name} className="w-full h-full" />
+          ) : kind === "image" ? (
+            <img
+              src={url}
+              alt={doc?.name}
+              className="max-w-full max-h-full mx-auto object-contain"
+              onError={() => setFailed(true)}
+            />
+          ) : kind === "text" ? (
+            <pre className="p-4 text-sm whitespace-pre-wrap break-words">{text ?? "Loading..."}</pre>
+          ) : null}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
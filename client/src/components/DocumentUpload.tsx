@@ -4,31 +4,140 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Upload, FileText, Download, Trash2, Clock, Eye } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Breadcrumb,
+  BreadcrumbList,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { Upload, FileText, Download, Trash2, Clock, Eye, Flag, Folder, FolderPlus, History } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth";
+import ReportDialog from "./ReportDialog";
+import DocumentVersionsDialog, { formatSize } from "./DocumentVersionsDialog";
+import DocumentPreviewDialog, { previewKind, type PreviewedDocument } from "./DocumentPreviewDialog";
+
+type Visibility = "department" | "departments" | "faculty" | "governors";
 
 interface Document {
   id: string;
   name: string;
   owner: string;
-  department: string;
-  uploadedAt: string;
-  size: string;
-  expiration?: string;
+  departmentName: string;
+  folderId: string | null;
+  visibility: Visibility;
+  visibleDepartments: string[] | null;
+  createdAt: string;
+  size: number;
+  version: number;
+  expiration?: string | null;
   path?: string;
   fileType?: string;
+  hiddenAt?: string | null;
+}
+
+interface DocumentFolder {
+  id: string;
+  name: string;
+  departmentName: string;
+  parentId: string | null;
 }
 
-export default function DocumentUpload() {
+interface DocumentUploadProps {
+  highlightId?: string | null;
+}
+
+const visibilityLabels: Record<Visibility, string> = {
+  department: "My department",
+  departments: "Specific departments",
+  faculty: "Whole faculty",
+  governors: "Governors only",
+};
+
+// A department's document library: folders to browse into, and the documents
+// the server says this user may see
+export default function DocumentUpload({ highlightId }: DocumentUploadProps = {}) {
+  const { data: user } = useAuth();
+  const [departmentName, setDepartmentName] = useState(user?.departmentName ?? "");
+  const [folderId, setFolderId] = useState<string | null>(null);
+  const [folders, setFolders] = useState<DocumentFolder[]>([]);
   const [documents, setDocuments] = useState<Document[]>([]);
+  const [visibility, setVisibility] = useState<Visibility>("department");
+  const [sharedWith, setSharedWith] = useState<string[]>([]);
+  const [newFolderName, setNewFolderName] = useState("");
   const [isUploading, setIsUploading] = useState(false);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [historyDoc, setHistoryDoc] = useState<Document | null>(null);
+  const [previewDoc, setPreviewDoc] = useState<Document | null>(null);
+
+  const { data: departments = [] } = useQuery<Array<{ id: string; name: string }>>({
+    queryKey: ["departments"],
+    queryFn: async () => {
+      const response = await fetch("/api/departments");
+      if (!response.ok) throw new Error("Failed to fetch departments");
+      return response.json();
+    },
+  });
+
+  const isFacultyStaff = user?.role === "admin" || user?.role === "faculty-governor";
+  const canUploadHere = isFacultyStaff || user?.departmentName === departmentName;
+  const canManageFolders = isFacultyStaff || (user?.role === "department-governor" && user.departmentName === departmentName);
+
+  useEffect(() => {
+    if (!departmentName && user) setDepartmentName(user.departmentName);
+  }, [user]);
+
+  useEffect(() => {
+    if (!departmentName) return;
+    loadFolders();
+  }, [departmentName]);
 
   useEffect(() => {
+    if (!departmentName) return;
     loadDocuments();
-  }, []);
+  }, [departmentName, folderId]);
+
+  // Opening a document from a link jumps to the folder it lives in
+  useEffect(() => {
+    if (!highlightId) return;
+    fetch(`/api/documents/${highlightId}`, { credentials: 'include' })
+      .then(response => response.ok ? response.json() : null)
+      .then((doc: Document | null) => {
+        if (!doc) return;
+        setDepartmentName(doc.departmentName);
+        setFolderId(doc.folderId);
+      })
+      .catch(error => console.error('Error locating document:', error));
+  }, [highlightId]);
+
+  useEffect(() => {
+    if (highlightId) {
+      document.getElementById(`document-${highlightId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [highlightId, documents]);
+
+  const loadFolders = async () => {
+    try {
+      const response = await fetch(`/api/document-folders?departmentName=${encodeURIComponent(departmentName)}`, {
+        credentials: 'include',
+      });
+      // Other departments' folders are not listed; their shared documents still are
+      setFolders(response.ok ? await response.json() : []);
+    } catch (error) {
+      console.error('Error loading folders:', error);
+    }
+  };
 
   const loadDocuments = async () => {
+    const query = folderId
+      ? `folderId=${encodeURIComponent(folderId)}`
+      : `departmentName=${encodeURIComponent(departmentName)}`;
     try {
-      const response = await fetch('/api/documents', {
+      const response = await fetch(`/api/documents?${query}`, {
         credentials: 'include',
       });
       if (response.ok) {
@@ -40,44 +149,55 @@ export default function DocumentUpload() {
     }
   };
 
-  const handleDownload = (doc: Document) => {
-    if (!doc.path) return;
-    const parts = doc.path.split(/[/\\]/);
-    const filename = parts[parts.length - 1] || 'document';
+  // Root first, ending with the open folder
+  const breadcrumbs: DocumentFolder[] = [];
+  for (let current = folders.find(f => f.id === folderId); current; current = folders.find(f => f.id === current!.parentId)) {
+    breadcrumbs.unshift(current);
+  }
+  const subfolders = folders.filter(folder => folder.parentId === folderId);
+
+  const openDepartment = (name: string) => {
+    setDepartmentName(name);
+    setFolderId(null);
+  };
+
+  const handleDownload = (doc: PreviewedDocument) => {
     const link = document.createElement('a');
-    link.href = `/uploads/${filename}`;
+    link.href = `/api/documents/${doc.id}/download`;
     link.download = doc.name;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  // Types the browser can't show inline are downloaded instead
   const handlePreview = (doc: Document) => {
-    if (!doc.path) return;
-    const parts = doc.path.split(/[/\\]/);
-    const filename = parts[parts.length - 1] || 'document';
-    window.open(`/uploads/${filename}`, '_blank');
+    if (previewKind(doc.name)) {
+      setPreviewDoc(doc);
+    } else {
+      handleDownload(doc);
+    }
   };
 
   const handleDelete = async (docId: string, owner: string) => {
     try {
       const meResponse = await fetch('/api/auth/me', { credentials: 'include' });
       const { user } = await meResponse.json();
-      
+
       if (user.role !== 'admin' && user.username !== owner) {
         alert('You can only delete your own documents');
         return;
       }
-      
+
       if (!confirm('Are you sure you want to delete this document?')) {
         return;
       }
-      
+
       const response = await fetch(`/api/documents/${docId}`, {
         method: 'DELETE',
         credentials: 'include',
       });
-      
+
       if (response.ok) {
         alert('Document deleted successfully');
         loadDocuments();
@@ -91,30 +211,80 @@ export default function DocumentUpload() {
     }
   };
 
+  const handleCreateFolder = async () => {
+    if (!newFolderName.trim()) return;
+
+    try {
+      const response = await fetch('/api/document-folders', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newFolderName.trim(), departmentName, parentId: folderId }),
+      });
+
+      if (response.ok) {
+        setNewFolderName("");
+        loadFolders();
+      } else {
+        const error = await response.json();
+        alert(`Could not create folder: ${error.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error creating folder:', error);
+    }
+  };
+
+  const handleDeleteFolder = async (folder: DocumentFolder) => {
+    if (!confirm(`Delete the folder ${folder.name}?`)) return;
+
+    try {
+      const response = await fetch(`/api/document-folders/${folder.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        loadFolders();
+      } else {
+        const error = await response.json();
+        alert(`Could not delete folder: ${error.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+    }
+  };
+
   const handleUpload = async () => {
     const fileInput = document.getElementById('file-upload') as HTMLInputElement;
     const file = fileInput?.files?.[0];
-    
+
     if (!file) {
       alert('Please select a file first');
       return;
     }
-    
+    if (visibility === 'departments' && sharedWith.length === 0) {
+      alert('Choose at least one department to share with');
+      return;
+    }
+
     setIsUploading(true);
     const formData = new FormData();
     formData.append('document', file);
-    
+    formData.append('departmentName', departmentName);
+    if (folderId) formData.append('folderId', folderId);
+    formData.append('visibility', visibility);
+    if (visibility === 'departments') formData.append('visibleDepartments', JSON.stringify(sharedWith));
+
     try {
       const response = await fetch('/api/documents/upload', {
         method: 'POST',
         credentials: 'include',
         body: formData,
       });
-      
+
       if (response.ok) {
-        alert('Document uploaded successfully!');
         if (fileInput) fileInput.value = '';
-        window.location.reload();
+        loadDocuments();
       } else {
         const error = await response.json();
         alert(`Upload failed: ${error.error || 'Unknown error'}`);
@@ -127,82 +297,219 @@ export default function DocumentUpload() {
     }
   };
 
+  // Reload the list and the open history after a new version is uploaded
+  const handleVersionUploaded = async () => {
+    loadDocuments();
+    if (!historyDoc) return;
+    const response = await fetch(`/api/documents/${historyDoc.id}`, { credentials: 'include' });
+    if (response.ok) setHistoryDoc(await response.json());
+  };
+
+  const toggleSharedWith = (name: string, checked: boolean) => {
+    setSharedWith(prev => checked ? [...prev, name] : prev.filter(n => n !== name));
+  };
+
   return (
     <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Breadcrumb data-testid="breadcrumb-documents">
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              {breadcrumbs.length === 0 ? (
+                <BreadcrumbPage>{departmentName}</BreadcrumbPage>
+              ) : (
+                <BreadcrumbLink className="cursor-pointer" onClick={() => setFolderId(null)}>{departmentName}</BreadcrumbLink>
+              )}
+            </BreadcrumbItem>
+            {breadcrumbs.map((folder, index) => (
+              <span key={folder.id} className="contents">
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  {index === breadcrumbs.length - 1 ? (
+                    <BreadcrumbPage>{folder.name}</BreadcrumbPage>
+                  ) : (
+                    <BreadcrumbLink className="cursor-pointer" onClick={() => setFolderId(folder.id)}>{folder.name}</BreadcrumbLink>
+                  )}
+                </BreadcrumbItem>
+              </span>
+            ))}
+          </BreadcrumbList>
+        </Breadcrumb>
+
+        <Select value={departmentName} onValueChange={openDepartment}>
+          <SelectTrigger className="w-56" data-testid="select-library-department">
+            <SelectValue placeholder="Department" />
+          </SelectTrigger>
+          <SelectContent>
+            {departments.map((department) => (
+              <SelectItem key={department.id} value={department.name}>{department.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {canUploadHere && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Upload Document</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="file-upload">Select a PDF, Word, text or image file</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="file-upload"
+                  type="file"
+                  accept=".pdf,.doc,.docx,.txt,.png,.jpg,.jpeg"
+                  data-testid="input-file-upload"
+                />
+                <Button onClick={handleUpload} disabled={isUploading} data-testid="button-upload">
+                  <Upload className="w-4 h-4 mr-2" />
+                  {isUploading ? 'Uploading...' : 'Upload'}
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Who can see it</Label>
+              <Select value={visibility} onValueChange={(value) => setVisibility(value as Visibility)}>
+                <SelectTrigger data-testid="select-document-visibility">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(visibilityLabels) as Visibility[]).map((value) => (
+                    <SelectItem key={value} value={value}>{visibilityLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {visibility === 'departments' && (
+                <div className="grid grid-cols-2 gap-2 pt-1">
+                  {departments.filter(department => department.name !== departmentName).map((department) => (
+                    <label key={department.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={sharedWith.includes(department.name)}
+                        onCheckedChange={(checked) => toggleSharedWith(department.name, !!checked)}
+                        data-testid={`checkbox-share-${department.id}`}
+                      />
+                      {department.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Uploads go to {breadcrumbs.length > 0 ? breadcrumbs[breadcrumbs.length - 1].name : `the top of the ${departmentName} library`}.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
-          <CardTitle>Upload Document</CardTitle>
+          <CardTitle>Available Documents</CardTitle>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="file-upload">Select PDF or DOC file</Label>
-            <div className="flex gap-2">
+        <CardContent>
+          {canManageFolders && (
+            <div className="flex gap-2 mb-3">
               <Input
-                id="file-upload"
-                type="file"
-                accept=".pdf,.doc,.docx"
-                data-testid="input-file-upload"
+                placeholder="New folder name"
+                value={newFolderName}
+                onChange={(e) => setNewFolderName(e.target.value)}
+                data-testid="input-folder-name"
               />
-              <Button onClick={handleUpload} disabled={isUploading} data-testid="button-upload">
-                <Upload className="w-4 h-4 mr-2" />
-                {isUploading ? 'Uploading...' : 'Upload'}
+              <Button variant="outline" onClick={handleCreateFolder} disabled={!newFolderName.trim()} data-testid="button-create-folder">
+                <FolderPlus className="w-4 h-4 mr-2" />
+                New folder
               </Button>
             </div>
-          </div>
-        </CardContent>
-      </Card>
+          )}
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Available Documents</CardTitle>
-        </CardHeader>
-        <CardContent>
           <div className="space-y-3">
-            {documents.length === 0 ? (
+            {subfolders.map((folder) => (
+              <div
+                key={folder.id}
+                className="flex items-center gap-3 p-3 rounded-lg border cursor-pointer hover-elevate"
+                onClick={() => setFolderId(folder.id)}
+                data-testid={`folder-${folder.id}`}
+              >
+                <Folder className="w-8 h-8 text-muted-foreground shrink-0" />
+                <h4 className="flex-1 font-medium text-sm truncate">{folder.name}</h4>
+                {canManageFolders && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteFolder(folder);
+                    }}
+                    data-testid={`button-delete-folder-${folder.id}`}
+                    title="Delete folder"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {subfolders.length === 0 && documents.length === 0 ? (
               <p className="text-sm text-muted-foreground text-center py-8">
-                No documents uploaded yet. Upload a document to get started.
+                Nothing here yet.
               </p>
             ) : null}
             {documents.map((doc) => (
               <div
                 key={doc.id}
-                className="flex items-center gap-3 p-3 rounded-lg border hover-elevate"
+                id={`document-${doc.id}`}
+                className={`flex items-center gap-3 p-3 rounded-lg border hover-elevate ${highlightId === doc.id ? 'ring-2 ring-primary' : ''}`}
               >
                 <FileText className="w-8 h-8 text-muted-foreground shrink-0" />
-                
+
                 <div className="flex-1 min-w-0">
-                  <h4 className="font-medium text-sm truncate">{doc.name}</h4>
+                  <h4 className="font-medium text-sm truncate">
+                    {doc.name}
+                    {doc.version > 1 && <Badge variant="outline" className="ml-2 text-[10px] h-4 px-1">v{doc.version}</Badge>}
+                    {doc.hiddenAt && <Badge variant="outline" className="ml-2 text-[10px] h-4 px-1">Hidden</Badge>}
+                  </h4>
                   <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
                     <span>{doc.owner}</span>
                     <span>•</span>
-                    <span>{doc.size}</span>
+                    <span>{formatSize(doc.size)}</span>
                     <span>•</span>
-                    <span>{doc.uploadedAt}</span>
+                    <span>{new Date(doc.createdAt).toLocaleDateString()}</span>
                   </div>
                   {doc.expiration && (
                     <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
                       <Clock className="w-3 h-3" />
-                      <span>Expires: {doc.expiration}</span>
+                      <span>Expires: {new Date(doc.expiration).toLocaleString()}</span>
                     </div>
                   )}
                 </div>
-                
-                <Badge variant="secondary" className="shrink-0">
-                  {doc.department}
+
+                <Badge
+                  variant="secondary"
+                  className="shrink-0"
+                  title={doc.visibility === 'departments' ? [doc.departmentName, ...(doc.visibleDepartments ?? [])].join(', ') : undefined}
+                >
+                  {doc.visibility === 'department' ? doc.departmentName : visibilityLabels[doc.visibility]}
                 </Badge>
-                
+
                 <div className="flex gap-1 shrink-0">
-                  {doc.fileType?.toLowerCase() === '.pdf' && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handlePreview(doc)}
-                      data-testid={`button-preview-${doc.id}`}
-                      title="Preview PDF"
-                    >
-                      <Eye className="w-4 h-4" />
-                    </Button>
-                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handlePreview(doc)}
+                    data-testid={`button-preview-${doc.id}`}
+                    title={previewKind(doc.name) ? "Preview" : "No preview for this file type; download it"}
+                  >
+                    <Eye className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setHistoryDoc(doc)}
+                    data-testid={`button-versions-${doc.id}`}
+                    title="Version history"
+                  >
+                    <History className="w-4 h-4" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -212,6 +519,17 @@ export default function DocumentUpload() {
                   >
                     <Download className="w-4 h-4" />
                   </Button>
+                  {user && doc.owner !== user.username && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setReportingId(doc.id)}
+                      data-testid={`button-report-${doc.id}`}
+                      title="Report"
+                    >
+                      <Flag className="w-4 h-4" />
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="sm"
@@ -227,6 +545,15 @@ export default function DocumentUpload() {
           </div>
         </CardContent>
       </Card>
+
+      <ReportDialog targetType="document" targetId={reportingId} onClose={() => setReportingId(null)} />
+      <DocumentPreviewDialog document={previewDoc} onClose={() => setPreviewDoc(null)} onDownload={handleDownload} />
+      <DocumentVersionsDialog
+        document={historyDoc}
+        canUpload={!!historyDoc && (historyDoc.owner === user?.username || canManageFolders)}
+        onClose={() => setHistoryDoc(null)}
+        onUpdated={handleVersionUploaded}
+      />
     </div>
   );
 }
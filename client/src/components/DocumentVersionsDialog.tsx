@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Download, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface DocumentVersion {
+  id: string;
+  documentId: string;
+  version: number;
+  name: string;
+  fileType: string;
+  size: number;
+  uploadedBy: string;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface VersionedDocument {
+  id: string;
+  name: string;
+  version: number;
+}
+
+interface DocumentVersionsDialogProps {
+  // The document whose history is shown; the dialog is open while this is set
+  document: VersionedDocument | null;
+  canUpload: boolean;
+  onClose: () => void;
+  onUpdated: () => void;
+}
+
+export const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export default function DocumentVersionsDialog({ document: doc, canUpload, onClose, onUpdated }: DocumentVersionsDialogProps) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [note, setNote] = useState("");
+  const [uploading, setUploading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (doc) loadVersions(doc.id);
+  }, [doc?.id, doc?.version]);
+
+  const loadVersions = async (documentId: string) => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/versions`, { credentials: 'include' });
+      if (response.ok) {
+        setVersions(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading document versions:', error);
+    }
+  };
+
+  const close = () => {
+    setNote("");
+    setVersions([]);
+    onClose();
+  };
+
+  const uploadVersion = async () => {
+    if (!doc) return;
+    const fileInput = window.document.getElementById('version-upload') as HTMLInputElement;
+    const file = fileInput?.files?.[0];
+    if (!file) {
+      toast({ title: "Choose the file for the new version", variant: "destructive" });
+      return;
+    }
+
+    setUploading(true);
+    const formData = new FormData();
+    formData.append('document', file);
+    if (note.trim()) formData.append('note', note.trim());
+    try {
+      const response = await fetch(`/api/documents/${doc.id}/versions`, {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Upload failed');
+      toast({ title: `Uploaded version ${data.version}` });
+      fileInput.value = '';
+      setNote("");
+      onUpdated();
+    } catch (error: any) {
+      toast({ title: "Could not upload the new version", description: error.message, variant: "destructive" });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!doc} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>{doc?.name}</DialogDescription>
+        </DialogHeader>
+
+        {doc && canUpload && (
+          <div className="space-y-2 p-3 rounded-lg border">
+            <Label htmlFor="version-upload">Upload a new version</Label>
+            <Input id="version-upload" type="file" accept=".pdf,.doc,.docx,.txt,.png,.jpg,.jpeg" data-testid="input-version-upload" />
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              placeholder="What changed? Shown to everyone who downloaded an earlier version."
+              data-testid="input-version-note"
+            />
+            <Button size="sm" onClick={uploadVersion} disabled={uploading} data-testid="button-upload-version">
+              <Upload className="w-4 h-4 mr-2" />
+              {uploading ? 'Uploading...' : 'Upload version'}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2" data-testid="list-document-versions">
+          {versions.map((version) => (
+            <div key={version.id} className="flex items-start gap-3 p-3 rounded-lg border">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 text-sm">
+                  <Badge variant={version.version === doc?.version ? "default" : "secondary"} className="text-[10px] h-4 px-1">
+                    {version.version === doc?.version ? "Current" : `v${version.version}`}
+                  </Badge>
+                  <span className="font-medium truncate">{version.name}</span>
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">
+                  {version.uploadedBy} • {formatSize(version.size)} • {new Date(version.createdAt).toLocaleString()}
+                </div>
+                {version.note && <p className="text-sm mt-1 whitespace-pre-wrap break-words">{version.note}</p>}
+              </div>
+              <Button variant="ghost" size="sm" asChild data-testid={`button-download-version-${version.version}`}>
+                <a href={`/api/documents/${version.documentId}/download?version=${version.version}`} download={version.name} title="Download">
+                  <Download className="w-4 h-4" />
+                </a>
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
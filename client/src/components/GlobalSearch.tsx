@@ -0,0 +1,157 @@
+import { useState, useEffect, useRef } from "react";
+import { Input } from "@/components/ui/input";
+import { Search, MessageSquare, Bell, FileText } from "lucide-react";
+
+interface SearchResults {
+  messages: Array<{ id: string; roomId: string; roomName?: string; sender: string; content: string; createdAt: string }>;
+  notifications: Array<{ id: string; title: string; content: string; postedBy: string; createdAt: string }>;
+  documents: Array<{ id: string; name: string; owner: string; departmentName: string; createdAt: string }>;
+}
+
+interface GlobalSearchProps {
+  onOpenRoom: (roomId: string) => void;
+  onOpenNotification: (notificationId: string) => void;
+  onOpenDocument: (documentId: string) => void;
+}
+
+const emptyResults: SearchResults = { messages: [], notifications: [], documents: [] };
+
+export default function GlobalSearch({ onOpenRoom, onOpenNotification, onOpenDocument }: GlobalSearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResults>(emptyResults);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Debounce typing so we don't hit the server on every keystroke
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(emptyResults);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(query.trim())}`, {
+          credentials: 'include',
+        });
+        if (response.ok) {
+          setResults(await response.json());
+        }
+      } catch (error) {
+        console.error('Search error:', error);
+      } finally {
+        setLoading(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const select = (action: () => void) => {
+    action();
+    setOpen(false);
+    setQuery("");
+  };
+
+  const total = results.messages.length + results.notifications.length + results.documents.length;
+
+  return (
+    <div className="relative w-full max-w-md" ref={containerRef}>
+      <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+      <Input
+        placeholder="Search messages, notifications, documents..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        className="pl-8 h-9"
+        data-testid="input-global-search"
+      />
+
+      {open && query.trim() && (
+        <div className="absolute top-full mt-1 w-full max-h-96 overflow-y-auto rounded-md border bg-popover shadow-lg z-50 p-2 space-y-3">
+          {loading && total === 0 && (
+            <p className="text-xs text-muted-foreground p-2">Searching...</p>
+          )}
+          {!loading && total === 0 && (
+            <p className="text-xs text-muted-foreground p-2">No results</p>
+          )}
+
+          {results.messages.length > 0 && (
+            <div>
+              <p className="text-[10px] font-semibold uppercase text-muted-foreground px-2 mb-1">Messages</p>
+              {results.messages.map((msg) => (
+                <button
+                  key={msg.id}
+                  className="w-full text-left rounded px-2 py-1.5 hover-elevate"
+                  onClick={() => select(() => onOpenRoom(msg.roomId))}
+                  data-testid={`search-result-message-${msg.id}`}
+                >
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <MessageSquare className="w-3 h-3" />
+                    <span>{msg.roomName} · {msg.sender}</span>
+                  </div>
+                  <p className="text-sm truncate">{msg.content}</p>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {results.notifications.length > 0 && (
+            <div>
+              <p className="text-[10px] font-semibold uppercase text-muted-foreground px-2 mb-1">Notifications</p>
+              {results.notifications.map((notif) => (
+                <button
+                  key={notif.id}
+                  className="w-full text-left rounded px-2 py-1.5 hover-elevate"
+                  onClick={() => select(() => onOpenNotification(notif.id))}
+                  data-testid={`search-result-notification-${notif.id}`}
+                >
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Bell className="w-3 h-3" />
+                    <span>{notif.postedBy} · {new Date(notif.createdAt).toLocaleDateString()}</span>
+                  </div>
+                  <p className="text-sm truncate">{notif.title}: {notif.content}</p>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {results.documents.length > 0 && (
+            <div>
+              <p className="text-[10px] font-semibold uppercase text-muted-foreground px-2 mb-1">Documents</p>
+              {results.documents.map((doc) => (
+                <button
+                  key={doc.id}
+                  className="w-full text-left rounded px-2 py-1.5 hover-elevate"
+                  onClick={() => select(() => onOpenDocument(doc.id))}
+                  data-testid={`search-result-document-${doc.id}`}
+                >
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <FileText className="w-3 h-3" />
+                    <span>{doc.owner} · {doc.departmentName}</span>
+                  </div>
+                  <p className="text-sm truncate">{doc.name}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,8 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { AlertCircle, Info, Flame, Send } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, Info, Flame, Send, Clock } from "lucide-react";
 
 interface GovernorPostingPanelProps {
   role: "faculty" | "department";
@@ -19,6 +20,9 @@ export default function GovernorPostingPanel({ role, department }: GovernorPosti
   const [targetDepartment, setTargetDepartment] = useState("");
   const [postGenerally, setPostGenerally] = useState(false);
   const [departments, setDepartments] = useState<string[]>([]);
+  // datetime-local values in the governor's own timezone; empty means "now" / "never"
+  const [publishAt, setPublishAt] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
 
   useEffect(() => {
     const fetchDepartments = async () => {
@@ -68,6 +72,8 @@ export default function GovernorPostingPanel({ role, department }: GovernorPosti
           content,
           notificationType: postType,
           targetDepartmentName: finalTargetDepartment,
+          publishAt: publishAt ? new Date(publishAt).toISOString() : null,
+          expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
         }),
       });
 
@@ -76,6 +82,8 @@ export default function GovernorPostingPanel({ role, department }: GovernorPosti
         setPostType("regular");
         setTargetDepartment("");
         setPostGenerally(false);
+        setPublishAt("");
+        setExpiresAt("");
         window.location.reload();
       } else {
         const error = await response.json();
@@ -175,14 +183,37 @@ export default function GovernorPostingPanel({ role, department }: GovernorPosti
           </p>
         </div>
 
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="publish-at">Publish At (Optional)</Label>
+            <Input
+              id="publish-at"
+              type="datetime-local"
+              value={publishAt}
+              onChange={(e) => setPublishAt(e.target.value)}
+              data-testid="input-publish-at"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="expires-at">Archive After (Optional)</Label>
+            <Input
+              id="expires-at"
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              data-testid="input-expires-at"
+            />
+          </div>
+        </div>
+
         <Button
           onClick={handlePost}
           disabled={!content.trim()}
           className="w-full"
           data-testid="button-post-notification"
         >
-          <Send className="w-4 h-4 mr-2" />
-          Post Notification
+          {publishAt ? <Clock className="w-4 h-4 mr-2" /> : <Send className="w-4 h-4 mr-2" />}
+          {publishAt ? "Schedule Notification" : "Post Notification"}
         </Button>
       </CardContent>
     </Card>
@@ -0,0 +1,77 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AtSign, CheckCheck } from "lucide-react";
+import MessageBody from "./MessageBody";
+import { useMentions, markMentionsRead, type Mention } from "@/lib/mentions";
+
+interface MentionsInboxProps {
+  onOpenMessage: (roomId: string, messageId: string, threadRootId: string | null) => void;
+}
+
+const kindLabel: Record<Mention["kind"], string | null> = {
+  user: null,
+  room: "@room",
+  department: "@department",
+};
+
+export default function MentionsInbox({ onOpenMessage }: MentionsInboxProps) {
+  const { data, isLoading } = useMentions();
+  const mentions = data?.mentions ?? [];
+
+  const openMention = (mention: Mention) => {
+    if (!mention.readAt) {
+      markMentionsRead([mention.id]);
+    }
+    onOpenMessage(mention.roomId, mention.messageId, mention.message.replyTo ?? null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Mentions</h2>
+        {!!data?.unreadCount && (
+          <Button variant="outline" size="sm" onClick={() => markMentionsRead()} data-testid="button-mentions-read-all">
+            <CheckCheck className="w-4 h-4 mr-2" />
+            Mark all read
+          </Button>
+        )}
+      </div>
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+      {!isLoading && mentions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No mentions yet. When someone @mentions you in a chat room, it shows up here.
+        </p>
+      )}
+
+      <div className="space-y-2" data-testid="list-mentions">
+        {mentions.map((mention) => (
+          <Card
+            key={mention.id}
+            className={`p-3 cursor-pointer hover-elevate ${mention.readAt ? '' : 'border-primary'}`}
+            onClick={() => openMention(mention)}
+            data-testid={`mention-item-${mention.id}`}
+          >
+            <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+              <AtSign className="w-3 h-3" />
+              <span className="font-medium text-foreground">{mention.message.sender}</span>
+              <span>in {mention.roomType === 'dm' ? 'a direct message' : mention.roomName}</span>
+              {kindLabel[mention.kind] && (
+                <Badge variant="secondary" className="text-[10px] h-4 px-1">{kindLabel[mention.kind]}</Badge>
+              )}
+              <span className="ml-auto">{new Date(mention.createdAt).toLocaleString()}</span>
+            </div>
+            {mention.message.contentAst ? (
+              <div className="line-clamp-3">
+                <MessageBody ast={mention.message.contentAst} />
+              </div>
+            ) : (
+              <p className="text-sm line-clamp-3">{mention.message.content}</p>
+            )}
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
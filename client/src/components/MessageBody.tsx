@@ -0,0 +1,67 @@
+import type { CSSProperties, ReactNode } from "react";
+import type { InlineNode, MessageAst } from "@shared/markdown";
+
+interface MessageBodyProps {
+  ast: MessageAst;
+  style?: CSSProperties;
+  onMentionClick?: (username: string) => void;
+}
+
+// Renders the server-parsed Markdown tree. Every node maps to a fixed element,
+// so message text can never inject markup.
+export default function MessageBody({ ast, style, onMentionClick }: MessageBodyProps) {
+  const renderInline = (nodes: InlineNode[]): ReactNode[] => nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "bold":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "italic":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "code":
+        return <code key={index} className="font-mono text-[0.85em] bg-black/10 dark:bg-white/10 rounded px-1">{node.text}</code>;
+      case "link":
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="underline underline-offset-2 break-all">
+            {renderInline(node.children)}
+          </a>
+        );
+      case "mention":
+        return (
+          <span
+            key={index}
+            className={`font-semibold ${onMentionClick ? 'cursor-pointer hover:underline' : ''}`}
+            onClick={() => onMentionClick?.(node.username)}
+            data-testid={`mention-${node.username}`}
+          >
+            @{node.username}
+          </span>
+        );
+      case "break":
+        return <br key={index} />;
+      default:
+        return null;
+    }
+  });
+
+  return (
+    <div className="text-sm leading-relaxed break-words space-y-1" style={style}>
+      {ast.map((block, index) => {
+        if (block.type === "code_block") {
+          return (
+            <pre key={index} className="font-mono text-xs bg-black/10 dark:bg-white/10 rounded p-2 overflow-x-auto whitespace-pre">
+              <code>{block.text}</code>
+            </pre>
+          );
+        }
+        if (block.type === "list") {
+          const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+          return block.ordered
+            ? <ol key={index} className="list-decimal pl-5">{items}</ol>
+            : <ul key={index} className="list-disc pl-5">{items}</ul>;
+        }
+        return <p key={index}>{renderInline(block.children)}</p>;
+      })}
+    </div>
+  );
+}
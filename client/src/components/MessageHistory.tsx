@@ -0,0 +1,213 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, Pencil, Trash2, RefreshCw, EyeOff } from "lucide-react";
+import MessageBody from "./MessageBody";
+import type { MessageAst } from "@shared/markdown";
+
+interface MessageRevision {
+  id: string;
+  messageId: string;
+  roomId: string;
+  action: "edit" | "delete" | "hide";
+  actorId: string;
+  actorName: string;
+  sender: string | null;
+  roomName: string | null;
+  roomType: string | null;
+  content: string;
+  contentAst?: MessageAst | null;
+  imageUrl: string | null;
+  createdAt: string;
+}
+
+interface MessageHistoryDetail {
+  message: {
+    id: string;
+    sender: string;
+    content: string;
+    contentAst?: MessageAst | null;
+    edited: boolean;
+    deletedAt: string | null;
+    deletedByName: string | null;
+    hiddenAt: string | null;
+    hiddenByName: string | null;
+    createdAt: string;
+  };
+  revisions: MessageRevision[];
+}
+
+type ActionFilter = "all" | "edit" | "delete" | "hide";
+
+const actionLabels: Record<MessageRevision["action"], { past: string; title: string; filter: string }> = {
+  edit: { past: "edited", title: "Edited", filter: "Edited" },
+  delete: { past: "deleted", title: "Deleted", filter: "Deleted" },
+  hide: { past: "hid", title: "Hidden", filter: "Hidden" },
+};
+
+function RevisionContent({ content, contentAst, imageUrl }: { content: string; contentAst?: MessageAst | null; imageUrl?: string | null }) {
+  return (
+    <div className="space-y-1">
+      {contentAst ? (
+        <MessageBody ast={contentAst} />
+      ) : content ? (
+        <p className="text-sm whitespace-pre-wrap break-words">{content}</p>
+      ) : null}
+      {imageUrl && <p className="text-xs text-muted-foreground">Attached image</p>}
+      {!content && !imageUrl && <p className="text-sm italic text-muted-foreground">No text</p>}
+    </div>
+  );
+}
+
+// Admin view of edited and deleted chat messages, with the full revision
+// history of any one of them
+export default function MessageHistory() {
+  const [filter, setFilter] = useState<ActionFilter>("all");
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [detail, setDetail] = useState<MessageHistoryDetail | null>(null);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [filter]);
+
+  const loadRevisions = async () => {
+    setLoading(true);
+    try {
+      const query = filter === "all" ? "" : `?action=${filter}`;
+      const response = await fetch(`/api/admin/message-revisions${query}`, { credentials: 'include' });
+      if (response.ok) {
+        setRevisions(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading message history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openHistory = async (messageId: string) => {
+    try {
+      const response = await fetch(`/api/admin/messages/${messageId}/revisions`, { credentials: 'include' });
+      if (response.ok) {
+        setDetail(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading message revisions:', error);
+    }
+  };
+
+  const describeRoom = (revision: MessageRevision) =>
+    revision.roomType === 'dm' ? 'a direct message' : revision.roomName ?? 'a deleted room';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Message History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center gap-2 mb-3">
+          {(["all", "delete", "edit", "hide"] as ActionFilter[]).map((value) => (
+            <Button
+              key={value}
+              variant={filter === value ? "default" : "outline"}
+              size="sm"
+              onClick={() => setFilter(value)}
+              data-testid={`button-history-filter-${value}`}
+            >
+              {value === "all" ? "All" : actionLabels[value].filter}
+            </Button>
+          ))}
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={loadRevisions} data-testid="button-history-refresh">
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-2 max-h-96 overflow-y-auto" data-testid="list-message-history">
+          {!loading && revisions.length === 0 && (
+            <p className="text-sm text-muted-foreground">No edited, deleted or hidden messages.</p>
+          )}
+          {revisions.map((revision) => (
+            <div
+              key={revision.id}
+              className="p-3 rounded-lg border cursor-pointer hover-elevate"
+              onClick={() => openHistory(revision.messageId)}
+              data-testid={`history-item-${revision.id}`}
+            >
+              <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                {revision.action === "edit" ? <Pencil className="w-3 h-3" /> : revision.action === "hide" ? <EyeOff className="w-3 h-3" /> : <Trash2 className="w-3 h-3" />}
+                <span className="font-medium text-foreground">{revision.actorName}</span>
+                <span>
+                  {actionLabels[revision.action].past}
+                  {revision.sender && revision.sender !== revision.actorName ? ` ${revision.sender}'s message` : " a message"}
+                  {` in ${describeRoom(revision)}`}
+                </span>
+                <span className="ml-auto">{new Date(revision.createdAt).toLocaleString()}</span>
+              </div>
+              <div className="line-clamp-3">
+                <RevisionContent content={revision.content} contentAst={revision.contentAst} imageUrl={revision.imageUrl} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!detail} onOpenChange={(open) => !open && setDetail(null)}>
+        <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Message history</DialogTitle>
+            <DialogDescription>
+              {detail && `Posted by ${detail.message.sender} on ${new Date(detail.message.createdAt).toLocaleString()}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {detail && (
+            <div className="space-y-3" data-testid="dialog-message-history">
+              {detail.revisions.map((revision, index) => (
+                <div key={revision.id} className="p-3 rounded-lg border">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                    <Badge variant="secondary" className="text-[10px] h-4 px-1">
+                      {index === 0 ? "Original" : `Version ${index + 1}`}
+                    </Badge>
+                    <span>
+                      {actionLabels[revision.action].title} by {revision.actorName}
+                    </span>
+                    <span className="ml-auto">{new Date(revision.createdAt).toLocaleString()}</span>
+                  </div>
+                  <RevisionContent content={revision.content} contentAst={revision.contentAst} imageUrl={revision.imageUrl} />
+                </div>
+              ))}
+
+              <div className="p-3 rounded-lg border border-primary">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                  <Badge className="text-[10px] h-4 px-1">Current</Badge>
+                  {detail.message.deletedAt ? (
+                    <span>
+                      Deleted by {detail.message.deletedByName ?? 'Unknown'} on {new Date(detail.message.deletedAt).toLocaleString()}
+                    </span>
+                  ) : detail.message.hiddenAt && (
+                    <span>
+                      Hidden by {detail.message.hiddenByName ?? 'Unknown'} on {new Date(detail.message.hiddenAt).toLocaleString()}
+                    </span>
+                  )}
+                </div>
+                {detail.message.deletedAt || detail.message.hiddenAt ? (
+                  <p className="text-sm italic text-muted-foreground">
+                    {detail.message.deletedAt ? 'Message deleted' : 'Message hidden by a moderator'}
+                  </p>
+                ) : (
+                  <RevisionContent content={detail.message.content} contentAst={detail.message.contentAst} />
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
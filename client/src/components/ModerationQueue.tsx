@@ -0,0 +1,225 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Flag, Check, EyeOff, Trash2, AlertTriangle, VolumeX } from "lucide-react";
+import { useRealtime } from "@/lib/realtime";
+import { useToast } from "@/hooks/use-toast";
+
+type Resolution = "dismiss" | "hide" | "delete" | "warn" | "mute";
+
+interface QueueReport {
+  id: string;
+  reason: string;
+  details: string | null;
+  reporterName: string | null;
+  status: string;
+  resolution: Resolution | null;
+  resolvedByName: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+interface QueueItem {
+  targetType: "message" | "comment" | "document";
+  targetId: string;
+  departmentName: string | null;
+  exists: boolean;
+  authorName: string | null;
+  authorRole?: string | null;
+  authorMutedUntil?: string | null;
+  content: string;
+  context: string | null;
+  removed?: boolean;
+  hidden?: boolean;
+  reports: QueueReport[];
+}
+
+const reasonLabels: Record<string, string> = {
+  spam: "Spam",
+  harassment: "Harassment",
+  inappropriate: "Inappropriate",
+  other: "Other",
+};
+
+const resolutionLabels: Record<Resolution, string> = {
+  dismiss: "Dismissed",
+  hide: "Content hidden",
+  delete: "Content deleted",
+  warn: "Author warned",
+  mute: "Author muted",
+};
+
+const muteOptions = [
+  { minutes: "60", label: "1 hour" },
+  { minutes: "1440", label: "1 day" },
+  { minutes: "10080", label: "7 days" },
+];
+
+// Reported messages, comments and documents. Admins see every report; department
+// governors see those raised against content from their department.
+export default function ModerationQueue() {
+  const [status, setStatus] = useState<"open" | "closed">("open");
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [muteMinutes, setMuteMinutes] = useState("60");
+  const { toast } = useToast();
+
+  const loadQueue = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/reports?status=${status}`, { credentials: 'include' });
+      if (response.ok) {
+        setItems(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading reports:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, [status]);
+
+  useRealtime((event) => {
+    if (event.type === 'report_created' || event.type === 'report_resolved') {
+      loadQueue();
+    }
+  });
+
+  const resolve = async (item: QueueItem, action: Resolution) => {
+    if (action === 'delete' && !confirm('Delete this content for everyone?')) return;
+    try {
+      const response = await fetch(`/api/reports/${item.targetType}/${item.targetId}/resolve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(action === 'mute' ? { action, minutes: Number(muteMinutes) } : { action }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      toast({ title: resolutionLabels[action] });
+      setItems(prev => prev.filter(i => !(i.targetType === item.targetType && i.targetId === item.targetId)));
+    } catch (error: any) {
+      toast({ title: "Moderation error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flag className="w-5 h-5" />
+          Moderation Queue
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center gap-2 mb-3">
+          <Button variant={status === 'open' ? 'default' : 'outline'} size="sm" onClick={() => setStatus('open')} data-testid="button-reports-open">
+            Open
+          </Button>
+          <Button variant={status === 'closed' ? 'default' : 'outline'} size="sm" onClick={() => setStatus('closed')} data-testid="button-reports-closed">
+            Handled
+          </Button>
+          {status === 'open' && (
+            <div className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+              Mute for
+              <Select value={muteMinutes} onValueChange={setMuteMinutes}>
+                <SelectTrigger className="h-8 w-28" data-testid="select-mute-duration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {muteOptions.map(({ minutes, label }) => (
+                    <SelectItem key={minutes} value={minutes}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3 max-h-[32rem] overflow-y-auto" data-testid="list-reports">
+          {!loading && items.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              {status === 'open' ? 'Nothing to review.' : 'No handled reports yet.'}
+            </p>
+          )}
+          {items.map((item) => {
+            const [latest] = item.reports;
+            return (
+              <div key={`${item.targetType}-${item.targetId}`} className="p-3 rounded-lg border space-y-2" data-testid={`report-item-${item.targetId}`}>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <Badge variant="secondary" className="text-[10px] h-4 px-1">{item.targetType}</Badge>
+                  <span className="font-medium text-foreground">{item.authorName ?? 'Unknown author'}</span>
+                  {item.context && <span>in {item.context}</span>}
+                  {item.departmentName && <span>· {item.departmentName}</span>}
+                  {item.hidden && <Badge variant="outline" className="text-[10px] h-4 px-1">Hidden</Badge>}
+                  {(item.removed || !item.exists) && <Badge variant="outline" className="text-[10px] h-4 px-1">Deleted</Badge>}
+                  <span className="ml-auto">{item.reports.length} {item.reports.length === 1 ? 'report' : 'reports'}</span>
+                </div>
+
+                <p className="text-sm whitespace-pre-wrap break-words line-clamp-4">
+                  {item.content || <span className="italic text-muted-foreground">No content</span>}
+                </p>
+
+                <div className="space-y-1">
+                  {item.reports.map((report) => (
+                    <div key={report.id} className="text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">{reasonLabels[report.reason] ?? report.reason}</span>
+                      {' · '}{report.reporterName ?? 'Unknown'}
+                      {' · '}{new Date(report.createdAt).toLocaleString()}
+                      {report.details && <p className="italic">"{report.details}"</p>}
+                    </div>
+                  ))}
+                </div>
+
+                {status === 'closed' && latest.resolution ? (
+                  <p className="text-xs text-muted-foreground">
+                    {resolutionLabels[latest.resolution]} by {latest.resolvedByName ?? 'Unknown'}
+                    {latest.resolvedAt && ` on ${new Date(latest.resolvedAt).toLocaleString()}`}
+                  </p>
+                ) : (
+                  <div className="flex flex-wrap gap-1">
+                    <Button variant="outline" size="sm" className="h-7" onClick={() => resolve(item, 'dismiss')} data-testid={`button-report-dismiss-${item.targetId}`}>
+                      <Check className="w-3 h-3 mr-1" />
+                      Dismiss
+                    </Button>
+                    {item.exists && !item.removed && (
+                      <>
+                        {!item.hidden && (
+                          <Button variant="outline" size="sm" className="h-7" onClick={() => resolve(item, 'hide')} data-testid={`button-report-hide-${item.targetId}`}>
+                            <EyeOff className="w-3 h-3 mr-1" />
+                            Hide
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" className="h-7 text-destructive hover:text-destructive" onClick={() => resolve(item, 'delete')} data-testid={`button-report-delete-${item.targetId}`}>
+                          <Trash2 className="w-3 h-3 mr-1" />
+                          Delete
+                        </Button>
+                      </>
+                    )}
+                    {item.exists && item.authorName && item.authorRole !== 'admin' && (
+                      <>
+                        <Button variant="outline" size="sm" className="h-7" onClick={() => resolve(item, 'warn')} data-testid={`button-report-warn-${item.targetId}`}>
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Warn
+                        </Button>
+                        <Button variant="outline" size="sm" className="h-7" onClick={() => resolve(item, 'mute')} data-testid={`button-report-mute-${item.targetId}`}>
+                          <VolumeX className="w-3 h-3 mr-1" />
+                          Mute
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,13 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Textarea } from "@/components/ui/textarea";
-import { Heart, MessageCircle, AlertCircle, Info, Flame, Trash2 } from "lucide-react";
+import { MessageCircle, AlertCircle, Info, Flame, Trash2, CheckCircle2, BarChart3 } from "lucide-react";
+import ReactionBar, { type ReactionSummary } from "./ReactionBar";
+import AckReportDialog from "./AckReportDialog";
+import NotificationComments from "./NotificationComments";
 import { useAuth } from "@/lib/auth";
+import { updateNotification, updateNotifications } from "@/lib/notifications";
 
 interface NotificationCardProps {
   id: string;
@@ -18,9 +21,11 @@ interface NotificationCardProps {
   createdAt?: string;
   targetDepartmentName?: string;
   department?: string;
-  reactions?: { heart: number; like: number } | any;
-  comments?: any[];
+  reactions?: ReactionSummary[];
   commentCount?: number;
+  isRead?: boolean;
+  onRead?: () => void;
+  acknowledged?: boolean;
 }
 
 export default function NotificationCard({
@@ -36,20 +41,19 @@ export default function NotificationCard({
   targetDepartmentName,
   department,
   reactions,
-  comments,
-  commentCount
+  commentCount,
+  isRead,
+  onRead,
+  acknowledged = false
 }: NotificationCardProps) {
   const displayType = type || (notificationType === 'urgent' ? 'urgent' : notificationType === 'cruise' ? 'cruise' : 'regular');
   const displayAuthor = author || postedBy || 'System';
   const displayTimestamp = timestamp || (createdAt ? new Date(createdAt).toLocaleString() : 'Recently');
   const displayDepartment = department || targetDepartmentName;
-  const displayReactions = reactions || { heart: 0, like: 0 };
-  const displayCommentCount = commentCount || (comments ? comments.length : 0);
   const [showComments, setShowComments] = useState(false);
-  const [comment, setComment] = useState("");
-  const [localReactions, setLocalReactions] = useState(displayReactions);
-  const [reacted, setReacted] = useState({ heart: false, like: false });
-  const { user } = useAuth();
+  const [localReactions, setLocalReactions] = useState<ReactionSummary[]>(reactions || []);
+  const [showAckReport, setShowAckReport] = useState(false);
+  const { data: user } = useAuth();
 
   const canDelete = user && (
     user.role === 'admin' || 
@@ -57,7 +61,12 @@ export default function NotificationCard({
     (user.role === 'department-governor' && (user.username === displayAuthor || user.departmentName === displayDepartment))
   );
 
-  const handleReaction = async (reactionType: 'heart' | 'like') => {
+  // Live updates from other users arrive through the reactions prop
+  useEffect(() => {
+    setLocalReactions(reactions || []);
+  }, [reactions]);
+
+  const handleReaction = async (emoji: string) => {
     try {
       const response = await fetch(`/api/notifications/${id}/react`, {
         method: 'POST',
@@ -65,39 +74,33 @@ export default function NotificationCard({
           'Content-Type': 'application/json',
         },
         credentials: 'include',
-        body: JSON.stringify({ reactionType }),
+        body: JSON.stringify({ emoji }),
       });
 
       if (response.ok) {
         const updated = await response.json();
-        setLocalReactions(updated.reactions || {});
-        setReacted(prev => ({ ...prev, [reactionType]: !prev[reactionType] }));
+        setLocalReactions(updated.reactions || []);
       }
     } catch (error) {
       console.error('Reaction error:', error);
     }
   };
 
-  const handleComment = async () => {
-    if (!comment.trim()) return;
-    
+  const handleAcknowledge = async () => {
     try {
-      const response = await fetch(`/api/notifications/${id}/comment`, {
+      const response = await fetch(`/api/notifications/${id}/acknowledge`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
         credentials: 'include',
-        body: JSON.stringify({ content: comment }),
       });
 
       if (response.ok) {
-        setComment("");
-        // Reload the page to show the new comment
-        window.location.reload();
+        updateNotification(id, { acknowledged: true });
+      } else {
+        const error = await response.json();
+        alert(error.error || 'Failed to acknowledge notification');
       }
     } catch (error) {
-      console.error('Comment error:', error);
+      console.error('Acknowledge error:', error);
     }
   };
 
@@ -111,8 +114,7 @@ export default function NotificationCard({
       });
 
       if (response.ok) {
-        // Reload the page to remove the deleted notification
-        window.location.reload();
+        updateNotifications(notifications => notifications.filter(notif => notif.id !== id));
       } else {
         const error = await response.json();
         alert(error.error || 'Failed to delete notification');
@@ -133,7 +135,12 @@ export default function NotificationCard({
   const TypeIcon = config.icon;
 
   return (
-    <Card className="hover-elevate">
+    <Card
+      className={`hover-elevate ${isRead === false ? 'border-primary' : ''}`}
+      onClick={() => {
+        if (isRead === false && onRead) onRead();
+      }}
+    >
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between gap-2">
           <div className="flex items-center gap-2 flex-1">
@@ -149,6 +156,9 @@ export default function NotificationCard({
             </div>
           </div>
           <div className="flex items-center gap-2 shrink-0">
+            {isRead === false && (
+              <Badge variant="default" data-testid="badge-notification-new">New</Badge>
+            )}
             {displayDepartment && (
               <Badge variant="secondary">
                 {displayDepartment}
@@ -173,16 +183,12 @@ export default function NotificationCard({
         <p className="text-sm leading-relaxed">{content}</p>
 
         <div className="flex items-center gap-4 pt-2">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => handleReaction('heart')}
-            className={`gap-1.5 ${reacted.heart ? 'text-destructive' : ''}`}
-            data-testid="button-react-heart"
-          >
-            <Heart className={`w-4 h-4 ${reacted.heart ? 'fill-current' : ''}`} />
-            <span className="text-xs">{localReactions.heart}</span>
-          </Button>
+          <ReactionBar
+            reactions={localReactions}
+            onToggle={handleReaction}
+            quickReactions={['heart', 'like']}
+            size="md"
+          />
 
           <Button
             variant="ghost"
@@ -192,47 +198,55 @@ export default function NotificationCard({
             data-testid="button-toggle-comments"
           >
             <MessageCircle className="w-4 h-4" />
-            <span className="text-xs">{displayCommentCount}</span>
+            <span className="text-xs">{commentCount ?? 0}</span>
           </Button>
+
+          {displayType === 'urgent' && (
+            <div className="ml-auto flex items-center gap-2">
+              {canDelete && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowAckReport(true)}
+                  className="gap-1.5"
+                  data-testid="button-ack-report"
+                >
+                  <BarChart3 className="w-4 h-4" />
+                  <span className="text-xs">Report</span>
+                </Button>
+              )}
+              {user?.role === 'student' && (
+                acknowledged ? (
+                  <Badge variant="outline" className="gap-1" data-testid="badge-acknowledged">
+                    <CheckCircle2 className="w-3 h-3" />
+                    Acknowledged
+                  </Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={handleAcknowledge}
+                    data-testid="button-acknowledge"
+                  >
+                    <CheckCircle2 className="w-4 h-4 mr-1" />
+                    Acknowledge
+                  </Button>
+                )
+              )}
+            </div>
+          )}
         </div>
 
+        {canDelete && displayType === 'urgent' && (
+          <AckReportDialog
+            notificationId={id}
+            open={showAckReport}
+            onOpenChange={setShowAckReport}
+          />
+        )}
+
         {showComments && (
-          <div className="space-y-3 pt-2 border-t">
-            {/* Display existing comments */}
-            {comments && comments.length > 0 && (
-              <div className="space-y-3 mb-4">
-                {comments.map((comment: any) => (
-                  <div key={comment.id} className="bg-muted/50 p-3 rounded-lg">
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="font-semibold text-sm">{comment.author}</span>
-                      <span className="text-xs text-muted-foreground">
-                        {new Date(comment.timestamp).toLocaleString()}
-                      </span>
-                    </div>
-                    <p className="text-sm">{comment.content}</p>
-                  </div>
-                ))}
-              </div>
-            )}
-            
-            {/* Add new comment */}
-            <div className="flex gap-2">
-              <Textarea
-                placeholder="Add a comment..."
-                value={comment}
-                onChange={(e) => setComment(e.target.value)}
-                className="min-h-[60px]"
-                data-testid="input-comment"
-              />
-            </div>
-            <Button
-              size="sm"
-              onClick={handleComment}
-              data-testid="button-post-comment"
-            >
-              Post Comment
-            </Button>
-          </div>
+          <NotificationComments notificationId={id} />
         )}
       </CardContent>
     </Card>
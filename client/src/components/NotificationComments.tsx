@@ -0,0 +1,253 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Reply, Edit, Trash2, EyeOff, Eye, Flag } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { sendRealtime, useRealtime } from "@/lib/realtime";
+import ReportDialog from "./ReportDialog";
+
+interface NotificationComment {
+  id: string;
+  notificationId: string;
+  parentId: string | null;
+  authorId: string | null;
+  authorName: string;
+  content: string;
+  edited: boolean;
+  hidden: boolean;
+  deleted: boolean;
+  createdAt: string;
+}
+
+interface NotificationCommentsProps {
+  notificationId: string;
+}
+
+export default function NotificationComments({ notificationId }: NotificationCommentsProps) {
+  const [comments, setComments] = useState<NotificationComment[]>([]);
+  const [canModerate, setCanModerate] = useState(false);
+  const [comment, setComment] = useState("");
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const { data: user } = useAuth();
+
+  useEffect(() => {
+    const fetchComments = async () => {
+      try {
+        const response = await fetch(`/api/notifications/${notificationId}/comments`, {
+          credentials: 'include',
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setComments(data.comments);
+          setCanModerate(data.canModerate);
+        }
+      } catch (error) {
+        console.error('Error fetching comments:', error);
+      }
+    };
+    fetchComments();
+
+    // Watch for live changes while the comments are open
+    sendRealtime({ type: 'watch_notification', notificationId });
+    return () => sendRealtime({ type: 'unwatch_notification', notificationId });
+  }, [notificationId]);
+
+  useRealtime((event) => {
+    if (event.type === 'connected') {
+      sendRealtime({ type: 'watch_notification', notificationId });
+    } else if (event.type === 'notification_comment' && event.notificationId === notificationId) {
+      setComments(prev => prev.some(c => c.id === event.comment.id)
+        ? prev.map(c => c.id === event.comment.id ? event.comment : c)
+        : [...prev, event.comment]
+      );
+    }
+  });
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        credentials: 'include',
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        alert(error.error || 'Request failed');
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Comment error:', error);
+      return false;
+    }
+  };
+
+  const base = `/api/notifications/${notificationId}`;
+
+  const handlePost = async (content: string, parentId?: string) => {
+    if (!content.trim()) return;
+    const ok = await request(`${base}/comment`, 'POST', { content, parentId });
+    if (ok) {
+      if (parentId) {
+        setReplyingTo(null);
+        setReplyText("");
+      } else {
+        setComment("");
+      }
+    }
+  };
+
+  const handleEdit = async (commentId: string) => {
+    if (!editText.trim()) return;
+    if (await request(`${base}/comments/${commentId}`, 'PATCH', { content: editText })) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm('Delete this comment?')) return;
+    await request(`${base}/comments/${commentId}`, 'DELETE');
+  };
+
+  const handleHide = async (commentId: string, hidden: boolean) => {
+    await request(`${base}/comments/${commentId}/hide`, 'POST', { hidden });
+  };
+
+  const renderComment = (c: NotificationComment) => {
+    const isAuthor = !!user && c.authorId === user.id;
+
+    if (c.deleted || (c.hidden && !canModerate)) {
+      return (
+        <div key={c.id} className="bg-muted/30 p-3 rounded-lg text-xs italic text-muted-foreground">
+          {c.deleted ? 'Comment deleted' : 'Comment hidden by a moderator'}
+        </div>
+      );
+    }
+
+    return (
+      <div key={c.id} className={`bg-muted/50 p-3 rounded-lg ${c.hidden ? 'opacity-60' : ''}`} data-testid={`comment-${c.id}`}>
+        <div className="flex items-center gap-2 mb-1">
+          <span className="font-semibold text-sm">{c.authorName}</span>
+          <span className="text-xs text-muted-foreground">
+            {new Date(c.createdAt).toLocaleString()}
+            {c.edited && <span className="ml-1">(edited)</span>}
+          </span>
+          {c.hidden && <Badge variant="outline" className="text-[10px] h-4 px-1">Hidden</Badge>}
+        </div>
+
+        {editingId === c.id ? (
+          <div className="space-y-2">
+            <Textarea
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              className="min-h-[60px]"
+            />
+            <div className="flex gap-2 justify-end">
+              <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>Cancel</Button>
+              <Button size="sm" onClick={() => handleEdit(c.id)} disabled={!editText.trim()}>Save</Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm">{c.content}</p>
+        )}
+
+        <div className="flex gap-1 mt-1">
+          {!c.parentId && (
+            <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => setReplyingTo(c.id)} data-testid={`button-reply-comment-${c.id}`}>
+              <Reply className="w-3 h-3" />
+            </Button>
+          )}
+          {isAuthor && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2"
+              onClick={() => {
+                setEditingId(c.id);
+                setEditText(c.content);
+              }}
+              data-testid={`button-edit-comment-${c.id}`}
+            >
+              <Edit className="w-3 h-3" />
+            </Button>
+          )}
+          {!isAuthor && !c.hidden && (
+            <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => setReportingId(c.id)} title="Report" data-testid={`button-report-comment-${c.id}`}>
+              <Flag className="w-3 h-3" />
+            </Button>
+          )}
+          {canModerate && (
+            <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => handleHide(c.id, !c.hidden)} data-testid={`button-hide-comment-${c.id}`}>
+              {c.hidden ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+            </Button>
+          )}
+          {(isAuthor || canModerate) && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-destructive hover:text-destructive" onClick={() => handleDelete(c.id)} data-testid={`button-delete-comment-${c.id}`}>
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const topLevel = comments.filter(c => !c.parentId);
+
+  return (
+    <div className="space-y-3 pt-2 border-t">
+      {topLevel.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {topLevel.map((c) => (
+            <div key={c.id} className="space-y-2">
+              {renderComment(c)}
+              <div className="ml-6 space-y-2">
+                {comments.filter(r => r.parentId === c.id).map(renderComment)}
+                {replyingTo === c.id && (
+                  <div className="space-y-2">
+                    <Textarea
+                      placeholder={`Reply to ${c.authorName}...`}
+                      value={replyText}
+                      onChange={(e) => setReplyText(e.target.value)}
+                      className="min-h-[50px]"
+                      data-testid="input-comment-reply"
+                    />
+                    <div className="flex gap-2 justify-end">
+                      <Button variant="ghost" size="sm" onClick={() => setReplyingTo(null)}>Cancel</Button>
+                      <Button size="sm" onClick={() => handlePost(replyText, c.id)} disabled={!replyText.trim()}>Reply</Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Textarea
+          placeholder="Add a comment..."
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          className="min-h-[60px]"
+          data-testid="input-comment"
+        />
+      </div>
+      <Button
+        size="sm"
+        onClick={() => handlePost(comment)}
+        disabled={!comment.trim()}
+        data-testid="button-post-comment"
+      >
+        Post Comment
+      </Button>
+
+      <ReportDialog targetType="comment" targetId={reportingId} onClose={() => setReportingId(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Pin, PinOff, ChevronDown, ChevronUp } from "lucide-react";
+
+export interface PinnedMessage {
+  id: string;
+  roomId: string;
+  messageId: string;
+  pinnedByName: string;
+  pinnedAt: string;
+  message: {
+    id: string;
+    sender: string;
+    content: string;
+    imageUrl?: string | null;
+    replyTo?: string | null;
+  };
+}
+
+interface PinnedBarProps {
+  pins: PinnedMessage[];
+  onSelect: (pin: PinnedMessage) => void;
+  // Only passed to room moderators
+  onUnpin?: (messageId: string) => void;
+}
+
+const pinPreview = (pin: PinnedMessage) =>
+  pin.message.content || (pin.message.imageUrl ? "[Image]" : "");
+
+// Newest pin shown collapsed; expanding lists them all
+export default function PinnedBar({ pins, onSelect, onUnpin }: PinnedBarProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (pins.length === 0) return null;
+
+  const shown = expanded ? pins : pins.slice(0, 1);
+
+  return (
+    <div className="border-b bg-muted/40 px-4 py-2 space-y-1" data-testid="bar-pinned">
+      {shown.map((pin) => (
+        <div key={pin.id} className="flex items-center gap-2 text-sm" data-testid={`pinned-${pin.messageId}`}>
+          <Pin className="w-3 h-3 shrink-0 text-primary" />
+          <button className="flex-1 min-w-0 text-left truncate hover:underline" onClick={() => onSelect(pin)}>
+            <span className="font-medium">{pin.message.sender}:</span> {pinPreview(pin)}
+          </button>
+          <span className="text-[10px] text-muted-foreground shrink-0">pinned by {pin.pinnedByName}</span>
+          {onUnpin && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-1"
+              title="Unpin"
+              onClick={() => onUnpin(pin.messageId)}
+              data-testid={`button-unpin-${pin.messageId}`}
+            >
+              <PinOff className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      ))}
+      {pins.length > 1 && (
+        <button
+          className="flex items-center gap-1 text-[11px] text-muted-foreground hover:underline"
+          onClick={() => setExpanded(!expanded)}
+          data-testid="button-toggle-pins"
+        >
+          {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          {expanded ? "Show less" : `${pins.length} pinned messages`}
+        </button>
+      )}
+    </div>
+  );
+}
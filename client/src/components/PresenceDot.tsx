@@ -0,0 +1,14 @@
+interface PresenceDotProps {
+  online: boolean;
+  className?: string;
+}
+
+export default function PresenceDot({ online, className = "" }: PresenceDotProps) {
+  return (
+    <span
+      className={`inline-block w-2 h-2 rounded-full shrink-0 ${online ? "bg-green-500" : "bg-muted-foreground/40"} ${className}`}
+      title={online ? "Online" : "Offline"}
+      data-testid={online ? "status-online" : "status-offline"}
+    />
+  );
+}
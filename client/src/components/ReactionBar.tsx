@@ -0,0 +1,65 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  users: string[];
+  reactedByMe: boolean;
+}
+
+interface ReactionBarProps {
+  reactions: ReactionSummary[];
+  onToggle: (emoji: string) => void;
+  // Shown even when nobody has used them yet, so there is something to click
+  quickReactions?: string[];
+  size?: "sm" | "md";
+}
+
+// Older clients stored named reactions; show them as the matching emoji
+const reactionLabels: Record<string, string> = {
+  heart: "❤️",
+  like: "👍",
+};
+
+export const reactionLabel = (emoji: string) => reactionLabels[emoji] || emoji;
+
+export default function ReactionBar({ reactions, onToggle, quickReactions = [], size = "sm" }: ReactionBarProps) {
+  const shown = [...reactions];
+  for (const emoji of quickReactions) {
+    if (!shown.some(reaction => reaction.emoji === emoji)) {
+      shown.push({ emoji, count: 0, users: [], reactedByMe: false });
+    }
+  }
+
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {shown.map((reaction) => (
+        <Tooltip key={reaction.emoji}>
+          <TooltipTrigger asChild>
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggle(reaction.emoji);
+              }}
+              className={`flex items-center gap-1 rounded-full border hover-elevate ${
+                size === "sm" ? "px-1.5 h-5 text-[10px]" : "px-2 h-7 text-xs"
+              } ${reaction.reactedByMe ? "border-primary bg-primary/10" : "bg-background"}`}
+              data-testid={`button-reaction-${reaction.emoji}`}
+            >
+              <span>{reactionLabel(reaction.emoji)}</span>
+              <span>{reaction.count}</span>
+            </button>
+          </TooltipTrigger>
+          <TooltipContent>
+            {reaction.users.length > 0
+              ? reaction.users.join(", ")
+              : "Be the first to react"}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+export type ReportTargetType = "message" | "comment" | "document";
+
+interface ReportDialogProps {
+  targetType: ReportTargetType;
+  // The item being reported; the dialog is open while this is set
+  targetId: string | null;
+  onClose: () => void;
+}
+
+const reasons = [
+  { value: "spam", label: "Spam" },
+  { value: "harassment", label: "Harassment or bullying" },
+  { value: "inappropriate", label: "Inappropriate content" },
+  { value: "other", label: "Something else" },
+];
+
+export default function ReportDialog({ targetType, targetId, onClose }: ReportDialogProps) {
+  const [reason, setReason] = useState("spam");
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const close = () => {
+    setReason("spam");
+    setDetails("");
+    onClose();
+  };
+
+  const submit = async () => {
+    if (!targetId) return;
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ targetType, targetId, reason, details: details.trim() || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Could not send the report');
+      toast({ title: "Report sent", description: "A moderator will review it." });
+      close();
+    } catch (error: any) {
+      toast({ title: "Report failed", description: error.message, variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!targetId} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report {targetType}</DialogTitle>
+          <DialogDescription>
+            Reports go to the moderators for this department. The author is not told who reported them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger data-testid="select-report-reason">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {reasons.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Details (optional)</Label>
+            <Textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={1000}
+              placeholder="Anything the moderators should know"
+              data-testid="input-report-details"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={close}>Cancel</Button>
+          <Button onClick={submit} disabled={submitting} data-testid="button-submit-report">
+            Send report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
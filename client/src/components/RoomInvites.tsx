@@ -0,0 +1,83 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Check, X } from "lucide-react";
+import { useRealtime } from "@/lib/realtime";
+import { useToast } from "@/hooks/use-toast";
+
+interface RoomInvite {
+  id: string;
+  roomId: string;
+  roomName: string;
+  invitedBy: string | null;
+}
+
+// Pending room invitations for the signed-in user. Accepting one makes the
+// server send new_room, which adds the room to the list.
+export default function RoomInvites() {
+  const [invites, setInvites] = useState<RoomInvite[]>([]);
+  const { toast } = useToast();
+
+  const loadInvites = async () => {
+    try {
+      const response = await fetch('/api/rooms/invites', { credentials: 'include' });
+      if (response.ok) {
+        setInvites(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading invites:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadInvites();
+  }, []);
+
+  useRealtime((event) => {
+    if (event.type === 'room_invite') {
+      setInvites(prev => prev.some(invite => invite.id === event.invite.id) ? prev : [...prev, event.invite]);
+    } else if (event.type === 'room_request_decided') {
+      loadInvites();
+    }
+  });
+
+  const decide = async (invite: RoomInvite, decision: "accept" | "decline") => {
+    try {
+      const response = await fetch(`/api/rooms/requests/${invite.id}/${decision}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        toast({ title: "Invitation error", description: error.error, variant: "destructive" });
+      }
+      setInvites(prev => prev.filter(i => i.id !== invite.id));
+    } catch (error) {
+      console.error('Error answering invite:', error);
+    }
+  };
+
+  if (invites.length === 0) return null;
+
+  return (
+    <div className="space-y-1" data-testid="list-room-invites">
+      <p className="text-xs font-medium text-muted-foreground">Invitations</p>
+      {invites.map((invite) => (
+        <div key={invite.id} className="flex items-center justify-between gap-2 border rounded-md px-3 py-2 text-sm">
+          <span>
+            <span className="font-medium">{invite.roomName}</span>
+            {invite.invitedBy && <span className="text-muted-foreground"> · invited by {invite.invitedBy}</span>}
+          </span>
+          <div className="flex gap-1">
+            <Button size="sm" className="h-7" onClick={() => decide(invite, "accept")} data-testid={`button-accept-invite-${invite.id}`}>
+              <Check className="w-4 h-4 mr-1" />
+              Join
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7" onClick={() => decide(invite, "decline")} data-testid={`button-decline-invite-${invite.id}`}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
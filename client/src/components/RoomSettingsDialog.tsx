@@ -0,0 +1,342 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, X, UserMinus, VolumeX, Volume2, ShieldPlus, ShieldMinus } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { useRealtime } from "@/lib/realtime";
+import { useToast } from "@/hooks/use-toast";
+
+export interface RoomSettings {
+  id: string;
+  name: string;
+  type: string;
+  joinPolicy?: string;
+  readOnly?: boolean;
+  slowModeSeconds?: number;
+  retentionPolicy?: string;
+  retentionDays?: number | null;
+  myRole?: string | null;
+  canModerate?: boolean;
+  mutedUntil?: string | null;
+}
+
+interface RoomMember {
+  userId: string;
+  username: string;
+  userRole: string;
+  departmentName: string;
+  role: string;
+  mutedUntil: string | null;
+}
+
+interface RoomRequest {
+  id: string;
+  userId: string;
+  username: string | null;
+  kind: "invite" | "join";
+  createdAt: string;
+}
+
+interface RoomSettingsDialogProps {
+  room: RoomSettings;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MUTE_MINUTES = 10;
+
+const isMuted = (member: RoomMember) => !!member.mutedUntil && new Date(member.mutedUntil) > new Date();
+
+export default function RoomSettingsDialog({ room, open, onOpenChange }: RoomSettingsDialogProps) {
+  const [name, setName] = useState(room.name);
+  const [joinPolicy, setJoinPolicy] = useState(room.joinPolicy || "open");
+  const [readOnly, setReadOnly] = useState(!!room.readOnly);
+  const [slowModeSeconds, setSlowModeSeconds] = useState(String(room.slowModeSeconds || 0));
+  const [retentionPolicy, setRetentionPolicy] = useState(room.retentionPolicy || "forever");
+  const [retentionDays, setRetentionDays] = useState(String(room.retentionDays || 30));
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [requests, setRequests] = useState<RoomRequest[]>([]);
+  const [inviteName, setInviteName] = useState("");
+  const { data: user } = useAuth();
+  const { toast } = useToast();
+
+  const hasMembers = room.type === "custom" || room.type === "group";
+  const canRename = room.type === "custom" || room.type === "group";
+  const canChangeRoles = user?.role === "admin" || room.myRole === "owner";
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        credentials: 'include',
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      return data;
+    } catch (error: any) {
+      toast({ title: "Room error", description: error.message, variant: "destructive" });
+      return null;
+    }
+  };
+
+  const loadRequests = async () => {
+    const data = await request(`/api/rooms/${room.id}/requests`, 'GET');
+    if (data) setRequests(data);
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setName(room.name);
+    setJoinPolicy(room.joinPolicy || "open");
+    setReadOnly(!!room.readOnly);
+    setSlowModeSeconds(String(room.slowModeSeconds || 0));
+    setRetentionPolicy(room.retentionPolicy || "forever");
+    setRetentionDays(String(room.retentionDays || 30));
+
+    if (hasMembers) {
+      request(`/api/rooms/${room.id}/members`, 'GET').then((data) => data && setMembers(data));
+      loadRequests();
+    }
+  }, [open, room.id]);
+
+  useRealtime((event) => {
+    if (event.type === 'room_members_changed' && event.roomId === room.id) {
+      setMembers(event.members);
+    } else if (event.type === 'room_join_requested' && event.roomId === room.id) {
+      loadRequests();
+    }
+  }, open && hasMembers);
+
+  const saveSettings = async () => {
+    const updated = await request(`/api/rooms/${room.id}`, 'PATCH', {
+      ...(canRename ? { name } : {}),
+      ...(room.type === "custom" ? { joinPolicy } : {}),
+      readOnly,
+      slowModeSeconds: Number(slowModeSeconds) || 0,
+      retentionPolicy,
+      ...(retentionPolicy === "days" ? { retentionDays: Number(retentionDays) } : {}),
+    });
+    if (updated) {
+      toast({ title: "Room settings saved" });
+    }
+  };
+
+  const sendInvite = async () => {
+    if (!inviteName.trim()) return;
+    const result = await request(`/api/rooms/${room.id}/invites`, 'POST', { username: inviteName.trim() });
+    if (result) {
+      toast({ title: result.status === "joined" ? `${inviteName} joined the room` : `Invited ${inviteName}` });
+      setInviteName("");
+      loadRequests();
+    }
+  };
+
+  const decide = async (requestId: string, decision: "accept" | "decline") => {
+    if (await request(`/api/rooms/requests/${requestId}/${decision}`, 'POST')) {
+      setRequests(prev => prev.filter(r => r.id !== requestId));
+    }
+  };
+
+  const memberBase = (member: RoomMember) => `/api/rooms/${room.id}/members/${member.userId}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Room settings</DialogTitle>
+          <DialogDescription>
+            Manage who can join {room.name} and how people post in it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {canRename && (
+            <div className="space-y-1">
+              <Label htmlFor="room-name">Name</Label>
+              <Input id="room-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-room-name" />
+            </div>
+          )}
+
+          {room.type === "custom" && (
+            <div className="space-y-1">
+              <Label>Who can join</Label>
+              <Select value={joinPolicy} onValueChange={setJoinPolicy}>
+                <SelectTrigger data-testid="select-join-policy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">Anyone in the department</SelectItem>
+                  <SelectItem value="request">Anyone can ask, moderators approve</SelectItem>
+                  <SelectItem value="invite">Invited people only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="room-read-only">Only moderators can post</Label>
+            <Switch id="room-read-only" checked={readOnly} onCheckedChange={setReadOnly} data-testid="switch-read-only" />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="room-slow-mode">Slow mode (seconds between messages, 0 for off)</Label>
+            <Input
+              id="room-slow-mode"
+              type="number"
+              min={0}
+              max={3600}
+              value={slowModeSeconds}
+              onChange={(e) => setSlowModeSeconds(e.target.value)}
+              data-testid="input-slow-mode"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Keep messages</Label>
+            <div className="flex gap-2">
+              <Select value={retentionPolicy} onValueChange={setRetentionPolicy}>
+                <SelectTrigger data-testid="select-retention-policy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="forever">Forever</SelectItem>
+                  <SelectItem value="days">For a number of days</SelectItem>
+                  <SelectItem value="semester">Until the end of the semester</SelectItem>
+                </SelectContent>
+              </Select>
+              {retentionPolicy === "days" && (
+                <Input
+                  type="number"
+                  min={1}
+                  max={3650}
+                  className="w-24"
+                  value={retentionDays}
+                  onChange={(e) => setRetentionDays(e.target.value)}
+                  data-testid="input-retention-days"
+                />
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Older messages are deleted for everyone. Pinned messages are kept.
+            </p>
+          </div>
+
+          <Button className="w-full" onClick={saveSettings} data-testid="button-save-room-settings">
+            Save settings
+          </Button>
+
+          {hasMembers && (
+            <>
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Invite someone</p>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Username"
+                    value={inviteName}
+                    onChange={(e) => setInviteName(e.target.value)}
+                    data-testid="input-invite-username"
+                  />
+                  <Button onClick={sendInvite} disabled={!inviteName.trim()} data-testid="button-send-invite">
+                    Invite
+                  </Button>
+                </div>
+              </div>
+
+              {requests.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Pending ({requests.length})</p>
+                  <div className="border rounded-md divide-y">
+                    {requests.map((r) => (
+                      <div key={r.id} className="flex items-center justify-between p-2 text-sm" data-testid={`request-${r.id}`}>
+                        <span>
+                          {r.username}
+                          <span className="text-xs text-muted-foreground ml-2">
+                            {r.kind === "join" ? "asked to join" : "invited"}
+                          </span>
+                        </span>
+                        <div className="flex gap-1">
+                          {r.kind === "join" && (
+                            <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => decide(r.id, "accept")} data-testid={`button-approve-${r.id}`}>
+                              <Check className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => decide(r.id, "decline")} data-testid={`button-decline-${r.id}`}>
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Members ({members.length})</p>
+                <div className="max-h-64 overflow-y-auto border rounded-md divide-y">
+                  {members.map((member) => (
+                    <div key={member.userId} className="flex items-center justify-between p-2 text-sm" data-testid={`member-${member.userId}`}>
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="truncate">{member.username}</span>
+                        {member.role !== "member" && (
+                          <Badge variant="secondary" className="text-[10px] h-4 px-1">{member.role}</Badge>
+                        )}
+                        {isMuted(member) && (
+                          <Badge variant="outline" className="text-[10px] h-4 px-1">muted</Badge>
+                        )}
+                      </div>
+                      {member.userId !== user?.id && member.role !== "owner" && (
+                        <div className="flex gap-1 shrink-0">
+                          {canChangeRoles && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 px-2"
+                              title={member.role === "moderator" ? "Make member" : "Make moderator"}
+                              onClick={() => request(memberBase(member), 'PATCH', { role: member.role === "moderator" ? "member" : "moderator" })}
+                              data-testid={`button-role-${member.userId}`}
+                            >
+                              {member.role === "moderator" ? <ShieldMinus className="w-4 h-4" /> : <ShieldPlus className="w-4 h-4" />}
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2"
+                            title={isMuted(member) ? "Unmute" : `Mute for ${MUTE_MINUTES} minutes`}
+                            onClick={() => request(`${memberBase(member)}/mute`, 'POST', { minutes: isMuted(member) ? 0 : MUTE_MINUTES })}
+                            data-testid={`button-mute-${member.userId}`}
+                          >
+                            {isMuted(member) ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-destructive hover:text-destructive"
+                            title="Remove from room"
+                            onClick={() => confirm(`Remove ${member.username} from ${room.name}?`) && request(`${memberBase(member)}/kick`, 'POST')}
+                            data-testid={`button-kick-${member.userId}`}
+                          >
+                            <UserMinus className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
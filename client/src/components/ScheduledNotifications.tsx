@@ -0,0 +1,221 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Clock, Edit, X, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface ScheduledNotification {
+  id: string;
+  notificationType: string;
+  title: string;
+  content: string;
+  postedBy: string;
+  targetDepartmentName?: string | null;
+  publishAt: string;
+  expiresAt?: string | null;
+}
+
+// datetime-local inputs want "YYYY-MM-DDTHH:mm" in local time
+const toLocalInput = (iso?: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export default function ScheduledNotifications() {
+  const [scheduled, setScheduled] = useState<ScheduledNotification[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState("");
+  const [editPublishAt, setEditPublishAt] = useState("");
+  const [editExpiresAt, setEditExpiresAt] = useState("");
+  const { toast } = useToast();
+
+  const loadScheduled = async () => {
+    try {
+      const response = await fetch('/api/notifications/scheduled', {
+        credentials: 'include',
+      });
+      if (response.ok) {
+        setScheduled(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching scheduled notifications:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadScheduled();
+  }, []);
+
+  const startEditing = (notif: ScheduledNotification) => {
+    setEditingId(notif.id);
+    setEditContent(notif.content);
+    setEditPublishAt(toLocalInput(notif.publishAt));
+    setEditExpiresAt(toLocalInput(notif.expiresAt));
+  };
+
+  const handleSave = async (id: string) => {
+    try {
+      const response = await fetch(`/api/notifications/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          content: editContent,
+          publishAt: editPublishAt ? new Date(editPublishAt).toISOString() : null,
+          expiresAt: editExpiresAt ? new Date(editExpiresAt).toISOString() : null,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update notification');
+      }
+
+      setEditingId(null);
+      await loadScheduled();
+    } catch (error: any) {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    if (!confirm('Cancel this scheduled notification? It will not be sent.')) return;
+
+    try {
+      const response = await fetch(`/api/notifications/${id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to cancel notification');
+      }
+
+      setScheduled(prev => prev.filter(notif => notif.id !== id));
+    } catch (error: any) {
+      toast({
+        title: "Cancel failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Scheduled</CardTitle>
+          <Badge variant="secondary">{scheduled.length} pending</Badge>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {scheduled.length === 0 && (
+          <p className="text-sm text-muted-foreground">No scheduled notifications.</p>
+        )}
+
+        {scheduled.map((notif) => (
+          <div key={notif.id} className="border rounded-lg p-3 space-y-2" data-testid={`scheduled-notification-${notif.id}`}>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Clock className="w-3 h-3" />
+                <span>{new Date(notif.publishAt).toLocaleString()}</span>
+                {notif.expiresAt && (
+                  <span>· archived {new Date(notif.expiresAt).toLocaleString()}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <Badge variant="outline">{notif.notificationType}</Badge>
+                {notif.targetDepartmentName && (
+                  <Badge variant="secondary">{notif.targetDepartmentName}</Badge>
+                )}
+              </div>
+            </div>
+
+            {editingId === notif.id ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  className="min-h-[80px]"
+                  data-testid="input-edit-scheduled-content"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Publish At</Label>
+                    <Input
+                      type="datetime-local"
+                      value={editPublishAt}
+                      onChange={(e) => setEditPublishAt(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Archive After</Label>
+                    <Input
+                      type="datetime-local"
+                      value={editExpiresAt}
+                      onChange={(e) => setEditExpiresAt(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                    Discard
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleSave(notif.id)}
+                    disabled={!editContent.trim() || !editPublishAt}
+                    data-testid="button-save-scheduled"
+                  >
+                    <Save className="w-3 h-3 mr-1" />
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm whitespace-pre-wrap">{notif.content}</p>
+                <div className="flex gap-2 justify-end">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startEditing(notif)}
+                    data-testid={`button-edit-scheduled-${notif.id}`}
+                  >
+                    <Edit className="w-3 h-3 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCancel(notif.id)}
+                    className="text-destructive hover:text-destructive"
+                    data-testid={`button-cancel-scheduled-${notif.id}`}
+                  >
+                    <X className="w-3 h-3 mr-1" />
+                    Cancel
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Send, X } from "lucide-react";
+import ChatMessage from "./ChatMessage";
+import type { Message } from "./ChatInterface";
+import { MAX_MESSAGE_LENGTH } from "@shared/markdown";
+
+interface ThreadPanelProps {
+  root: Message | null;
+  replies: Message[];
+  loading?: boolean;
+  onSend: (content: string) => void;
+  onClose: () => void;
+  onDelete?: (messageId: string) => void;
+  onUsernameClick?: (username: string) => void;
+  isOnline?: (username: string) => boolean;
+  pinnedIds?: Set<string>;
+  onTogglePin?: (messageId: string) => void;
+  onReport?: (messageId: string) => void;
+  onToggleLegalHold?: (messageId: string, hold: boolean) => void;
+}
+
+export default function ThreadPanel({
+  root,
+  replies,
+  loading = false,
+  onSend,
+  onClose,
+  onDelete,
+  onUsernameClick,
+  isOnline,
+  pinnedIds,
+  onTogglePin,
+  onReport,
+  onToggleLegalHold
+}: ThreadPanelProps) {
+  const [reply, setReply] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [replies]);
+
+  const handleSend = () => {
+    if (!reply.trim()) return;
+    onSend(reply);
+    setReply("");
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const renderMessage = (msg: Message) => (
+    <ChatMessage
+      id={msg.id}
+      key={msg.id}
+      sender={msg.sender}
+      content={msg.content}
+      contentAst={msg.contentAst}
+      timestamp={msg.timestamp}
+      isOwn={msg.isOwn}
+      isAI={msg.isAI}
+      online={isOnline?.(msg.sender)}
+      edited={msg.edited}
+      deleted={msg.deleted}
+      hidden={msg.hidden}
+      reactions={msg.reactions}
+      formatting={msg.formatting}
+      imageUrl={msg.imageUrl}
+      caption={msg.caption}
+      onUsernameClick={onUsernameClick}
+      onDelete={onDelete ? () => onDelete(msg.id) : undefined}
+      pinned={pinnedIds?.has(msg.id)}
+      onTogglePin={onTogglePin ? () => onTogglePin(msg.id) : undefined}
+      onReport={onReport && !msg.isOwn && !msg.isAI ? () => onReport(msg.id) : undefined}
+      legalHold={msg.legalHold}
+      onToggleLegalHold={onToggleLegalHold ? () => onToggleLegalHold(msg.id, !msg.legalHold) : undefined}
+    />
+  );
+
+  return (
+    <div className="flex flex-col h-full w-80 shrink-0 border-l bg-background" data-testid="panel-thread">
+      <div className="border-b px-4 py-3 bg-card flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Thread</h3>
+          <p className="text-xs text-muted-foreground">
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-close-thread">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4" ref={scrollRef}>
+        {loading && (
+          <p className="text-xs text-muted-foreground">Loading thread...</p>
+        )}
+        {root && (
+          <div className="pb-4 border-b">
+            {renderMessage(root)}
+          </div>
+        )}
+        {replies.map(renderMessage)}
+      </div>
+
+      <div className="border-t p-3 bg-card flex gap-2">
+        <Textarea
+          placeholder="Reply in thread..."
+          value={reply}
+          maxLength={MAX_MESSAGE_LENGTH}
+          onChange={(e) => setReply(e.target.value)}
+          onKeyPress={handleKeyPress}
+          className="min-h-[48px] resize-none"
+          disabled={!root}
+          data-testid="input-thread-reply"
+        />
+        <Button
+          onClick={handleSend}
+          disabled={!root || !reply.trim()}
+          className="shrink-0"
+          data-testid="button-send-thread-reply"
+        >
+          <Send className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,15 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Phone, Hash, Building2, User, MessageSquare } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Phone, Hash, Building2, User, MessageSquare, HardDrive } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { formatSize } from "./DocumentVersionsDialog";
+
+interface StorageUsage {
+  user: { used: number; quota: number | null };
+  department: { name: string; used: number; quota: number | null };
+}
 
 interface UserProfileProps {
   username: string;
@@ -11,6 +19,43 @@ interface UserProfileProps {
   role: "student" | "department-governor" | "faculty-governor" | "admin";
   department: string;
   canMessage?: boolean;
+  // Only for the signed-in user's own profile
+  showStorageUsage?: boolean;
+}
+
+function UsageBar({ label, used, quota, testId }: { label: string; used: number; quota: number | null; testId: string }) {
+  return (
+    <div className="space-y-1" data-testid={testId}>
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">{label}</span>
+        <span>{formatSize(used)}{quota ? ` of ${formatSize(quota)}` : " (no limit)"}</span>
+      </div>
+      {quota && <Progress value={Math.min(100, (used / quota) * 100)} className="h-2" />}
+    </div>
+  );
+}
+
+function StorageUsagePanel() {
+  const { data: usage } = useQuery<StorageUsage>({
+    queryKey: ["storageUsage"],
+    queryFn: async () => {
+      const response = await fetch("/api/storage/usage", { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch storage usage");
+      return response.json();
+    },
+  });
+
+  if (!usage) return null;
+  return (
+    <div className="space-y-3 pt-2 border-t">
+      <div className="flex items-center gap-3 text-sm pt-2">
+        <HardDrive className="w-4 h-4 text-muted-foreground" />
+        <span className="font-medium">Document storage</span>
+      </div>
+      <UsageBar label="Your uploads" used={usage.user.used} quota={usage.user.quota} testId="usage-user" />
+      <UsageBar label={usage.department.name} used={usage.department.used} quota={usage.department.quota} testId="usage-department" />
+    </div>
+  );
 }
 
 export default function UserProfile({
@@ -19,7 +64,8 @@ export default function UserProfile({
   regNumber,
   role,
   department,
-  canMessage = true
+  canMessage = true,
+  showStorageUsage = false
 }: UserProfileProps) {
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
@@ -80,6 +126,8 @@ export default function UserProfile({
           </div>
         </div>
         
+        {showStorageUsage && <StorageUsagePanel />}
+
         {canMessage && (
           <Button className="w-full mt-4" data-testid="button-send-message">
             <MessageSquare className="w-4 h-4 mr-2" />
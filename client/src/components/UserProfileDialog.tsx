@@ -7,21 +7,33 @@ import {
 } from "@/components/ui/dialog";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Phone, Hash, Building2, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Phone, Hash, Building2, User, MessageSquare } from "lucide-react";
+import PresenceDot from "./PresenceDot";
+import { usePresence } from "@/lib/presence";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
 
 interface UserProfileDialogProps {
   username: string;
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  // Called with the DM room once it has been opened
+  onStartConversation?: (room: any) => void;
 }
 
 export default function UserProfileDialog({
   username,
   open,
   onOpenChange,
+  onStartConversation,
 }: UserProfileDialogProps) {
   const [userData, setUserData] = useState<any>(null);
   const [loading, setLoading] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const { isOnline } = usePresence();
+  const { data: currentUser } = useAuth();
+  const { toast } = useToast();
 
   useEffect(() => {
     if (open && username) {
@@ -46,6 +58,33 @@ export default function UserProfileDialog({
     }
   };
 
+  const startConversation = async () => {
+    setStarting(true);
+    try {
+      const response = await fetch("/api/rooms/dm", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ username }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Could not start a conversation");
+      }
+      onStartConversation?.(data);
+    } catch (error: any) {
+      toast({
+        title: "Message failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setStarting(false);
+    }
+  };
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -86,6 +125,10 @@ export default function UserProfileDialog({
 
               <div className="space-y-2">
                 <h2 className="text-2xl font-bold">{userData.username}</h2>
+                <div className="flex items-center justify-center gap-1.5 text-xs text-muted-foreground">
+                  <PresenceDot online={isOnline(userData.username)} />
+                  <span>{isOnline(userData.username) ? "Online" : "Offline"}</span>
+                </div>
                 <Badge
                   variant={userData.role === "admin" ? "default" : "secondary"}
                 >
@@ -121,6 +164,18 @@ export default function UserProfileDialog({
                 <span className="font-mono">{userData.username}</span>
               </div>
             </div>
+
+            {onStartConversation && currentUser && currentUser.username !== userData.username && (
+              <Button
+                className="w-full"
+                onClick={startConversation}
+                disabled={starting}
+                data-testid="button-start-dm"
+              >
+                <MessageSquare className="w-4 h-4 mr-2" />
+                Send Message
+              </Button>
+            )}
           </div>
         ) : null}
       </DialogContent>
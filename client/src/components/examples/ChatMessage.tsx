@@ -8,7 +8,7 @@ export default function ChatMessageExample() {
         sender="Ahmed Hassan"
         content="Has anyone finished the database assignment yet?"
         timestamp="10:30 AM"
-        reactions={{ heart: 2 }}
+        reactions={[{ emoji: "heart", count: 2, users: ["Sara Mohamed", "Omar Ali"], reactedByMe: false }]}
       />
       
       <ChatMessage
@@ -33,8 +33,10 @@ export default function ChatMessageExample() {
         sender="Sara Mohamed"
         content="Thanks for the info! I'll work on it tonight."
         timestamp="10:35 AM"
-        replyTo="Ahmed's message"
-        reactions={{ heart: 1 }}
+        replyCount={2}
+        lastReplyAt={new Date().toISOString()}
+        onOpenThread={() => console.log('Open thread')}
+        reactions={[{ emoji: "heart", count: 1, users: ["Ahmed Hassan"], reactedByMe: true }]}
       />
     </div>
   );
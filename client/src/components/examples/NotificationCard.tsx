@@ -10,7 +10,7 @@ export default function NotificationCardExample() {
         content="The final examination schedule for the current semester has been published. Please check your student portal for detailed timings and locations."
         author="Faculty Governor"
         timestamp="2 hours ago"
-        reactions={{ heart: 24, like: 45 }}
+        reactions={[{ emoji: "heart", count: 2, users: ["sara", "omar"], reactedByMe: false }]}
         commentCount={8}
       />
       
@@ -22,7 +22,7 @@ export default function NotificationCardExample() {
         author="Dr. Ahmed Hassan"
         timestamp="1 day ago"
         department="Computer Engineering"
-        reactions={{ heart: 156, like: 203 }}
+        reactions={[{ emoji: "like", count: 1, users: ["ahmed"], reactedByMe: true }]}
         commentCount={42}
       />
     </div>
@@ -10,6 +10,20 @@ export interface User {
   tutorialSeen: boolean;
 }
 
+// Sent by the server when a suspended or banned account signs in, or is
+// signed out while using the app
+export interface AccountLock {
+  accountStatus: "suspended" | "banned";
+  until: string | null;
+  reason: string | null;
+}
+
+export class AccountLockedError extends Error {
+  constructor(message: string, public lock: AccountLock) {
+    super(message);
+  }
+}
+
 interface LoginCredentials {
   username: string;
   password: string;
@@ -35,6 +49,9 @@ async function fetchWithCredentials(url: string, options?: RequestInit) {
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: "Request failed" }));
+    if (error.code === "ACCOUNT_SUSPENDED") {
+      throw new AccountLockedError(error.error, error);
+    }
     throw new Error(error.error || `HTTP ${response.status}`);
   }
 
@@ -42,13 +59,18 @@ async function fetchWithCredentials(url: string, options?: RequestInit) {
 }
 
 export function useAuth() {
+  const queryClient = useQueryClient();
+
   return useQuery<User | null>({
     queryKey: ["auth"],
     queryFn: async () => {
       try {
         const data = await fetchWithCredentials("/api/auth/me");
         return data.user;
-      } catch {
+      } catch (error) {
+        if (error instanceof AccountLockedError) {
+          queryClient.setQueryData(["accountLock"], error.lock);
+        }
         return null;
       }
     },
@@ -57,6 +79,26 @@ export function useAuth() {
   });
 }
 
+// Why the last sign-in attempt or session was refused, shown on the login page
+export function useAccountLock() {
+  return useQuery<AccountLock | null>({
+    queryKey: ["accountLock"],
+    queryFn: () => null,
+    staleTime: Infinity,
+  });
+}
+
+// Drops the current user after the server suspended their account mid-session
+export function useAccountLocked() {
+  const queryClient = useQueryClient();
+
+  return (lock: AccountLock) => {
+    queryClient.setQueryData(["auth"], null);
+    queryClient.clear();
+    queryClient.setQueryData(["accountLock"], lock);
+  };
+}
+
 export function useLogin() {
   const queryClient = useQueryClient();
 
@@ -69,8 +111,14 @@ export function useLogin() {
       return data.user as User;
     },
     onSuccess: (user) => {
+      queryClient.setQueryData(["accountLock"], null);
       queryClient.setQueryData(["auth"], user);
     },
+    onError: (error) => {
+      if (error instanceof AccountLockedError) {
+        queryClient.setQueryData(["accountLock"], error.lock);
+      }
+    },
   });
 }
 
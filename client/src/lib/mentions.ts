@@ -0,0 +1,88 @@
+import { useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "./queryClient";
+import { useRealtime } from "./realtime";
+import type { MessageAst } from "@shared/markdown";
+
+export interface Mention {
+  id: string;
+  messageId: string;
+  roomId: string;
+  kind: "user" | "room" | "department";
+  readAt: string | null;
+  createdAt: string;
+  roomName: string;
+  roomType: string;
+  message: {
+    id: string;
+    sender: string;
+    content: string;
+    contentAst?: MessageAst | null;
+    replyTo?: string | null;
+    createdAt: string;
+  };
+}
+
+interface MentionsInbox {
+  mentions: Mention[];
+  unreadCount: number;
+}
+
+const mentionsQueryKey = ["/api/mentions"];
+
+function updateInbox(updater: (inbox: MentionsInbox) => MentionsInbox) {
+  queryClient.setQueryData<MentionsInbox>(mentionsQueryKey, (prev) => prev && updater(prev));
+}
+
+// Marks the given mentions read locally; null means all of them
+function applyRead(mentionIds: string[] | null) {
+  updateInbox(({ mentions, unreadCount }) => {
+    const ids = mentionIds && new Set(mentionIds);
+    const changed = mentions.filter(m => !m.readAt && (!ids || ids.has(m.id))).length;
+    return {
+      mentions: mentions.map(m => !m.readAt && (!ids || ids.has(m.id)) ? { ...m, readAt: new Date().toISOString() } : m),
+      unreadCount: ids ? Math.max(0, unreadCount - changed) : 0,
+    };
+  });
+}
+
+export async function markMentionsRead(mentionIds?: string[]) {
+  applyRead(mentionIds ?? null);
+  try {
+    await fetch('/api/mentions/read', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(mentionIds ? { mentionIds } : {}),
+    });
+  } catch (error) {
+    console.error('Error marking mentions read:', error);
+  }
+}
+
+// The mentions inbox, kept current by mention_created and mentions_read events
+export function useMentions(enabled: boolean = true) {
+  const connectedBefore = useRef(false);
+
+  useRealtime((event) => {
+    if (event.type === 'mention_created') {
+      updateInbox(({ mentions, unreadCount }) =>
+        mentions.some(m => m.id === event.mention.id)
+          ? { mentions, unreadCount }
+          : { mentions: [event.mention, ...mentions], unreadCount: unreadCount + 1 }
+      );
+    } else if (event.type === 'mentions_read') {
+      applyRead(event.mentionIds);
+    } else if (event.type === 'connected') {
+      if (connectedBefore.current) {
+        queryClient.invalidateQueries({ queryKey: mentionsQueryKey });
+      }
+      connectedBefore.current = true;
+    }
+  }, enabled);
+
+  return useQuery<MentionsInbox>({
+    queryKey: mentionsQueryKey,
+    enabled,
+  });
+}
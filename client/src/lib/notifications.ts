@@ -0,0 +1,74 @@
+import { useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "./queryClient";
+import { useRealtime } from "./realtime";
+import type { ReactionSummary } from "@/components/ReactionBar";
+
+export interface Notification {
+  id: string;
+  type: string;
+  notificationType: string;
+  title: string;
+  content: string;
+  postedBy: string;
+  targetDepartmentName?: string;
+  reactions: ReactionSummary[];
+  commentCount: number;
+  publishAt?: string | null;
+  expiresAt?: string | null;
+  createdAt: string;
+  isRead?: boolean;
+  acknowledged?: boolean;
+}
+
+export const notificationsQueryKey = ["/api/notifications"];
+
+export function updateNotifications(updater: (notifications: Notification[]) => Notification[]) {
+  queryClient.setQueryData<Notification[]>(notificationsQueryKey, (prev) => prev && updater(prev));
+}
+
+export function updateNotification(id: string, changes: Partial<Notification>) {
+  updateNotifications((notifications) => notifications.map((notif) =>
+    notif.id === id ? { ...notif, ...changes } : notif
+  ));
+}
+
+// The feed lives in the query cache; server events patch it in place so every
+// open tab stays current without refetching
+export function useNotifications(enabled: boolean = true) {
+  const connectedBefore = useRef(false);
+
+  useRealtime((event) => {
+    if (event.type === 'notification_created') {
+      updateNotifications((notifications) =>
+        notifications.some(notif => notif.id === event.notification.id)
+          ? notifications
+          : [event.notification, ...notifications]
+      );
+    } else if (event.type === 'notification_updated') {
+      updateNotification(event.notification.id, event.notification);
+    } else if (event.type === 'notification_deleted') {
+      updateNotifications((notifications) => notifications.filter(notif => notif.id !== event.notificationId));
+    } else if (event.type === 'notification_commented') {
+      updateNotification(event.notificationId, { commentCount: event.commentCount });
+    } else if (event.type === 'notification_reacted') {
+      updateNotification(event.notificationId, { reactions: event.reactions });
+    } else if (event.type === 'notification_read') {
+      const readIds = new Set<string>(event.notificationIds);
+      updateNotifications((notifications) => notifications.map(notif =>
+        readIds.has(notif.id) ? { ...notif, isRead: true } : notif
+      ));
+    } else if (event.type === 'connected') {
+      // Anything broadcast while the socket was down is missed, so reload after a reconnect
+      if (connectedBefore.current) {
+        queryClient.invalidateQueries({ queryKey: notificationsQueryKey });
+      }
+      connectedBefore.current = true;
+    }
+  }, enabled);
+
+  return useQuery<Notification[]>({
+    queryKey: notificationsQueryKey,
+    enabled,
+  });
+}
@@ -0,0 +1,43 @@
+import { useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "./queryClient";
+import { useRealtime } from "./realtime";
+
+export interface PresenceEntry {
+  userId: string;
+  username: string;
+  onlineSince: string;
+}
+
+const presenceQueryKey = ["/api/presence"];
+
+// Online users, kept current by presence_changed events on the app-wide socket
+export function usePresence() {
+  const connectedBefore = useRef(false);
+
+  useRealtime((event) => {
+    if (event.type === 'presence_changed') {
+      queryClient.setQueryData<PresenceEntry[]>(presenceQueryKey, (prev) => {
+        if (!prev) return prev;
+        const others = prev.filter(entry => entry.userId !== event.userId);
+        return event.online
+          ? [...others, { userId: event.userId, username: event.username, onlineSince: new Date().toISOString() }]
+          : others;
+      });
+    } else if (event.type === 'connected') {
+      // Changes made while the socket was down were missed
+      if (connectedBefore.current) {
+        queryClient.invalidateQueries({ queryKey: presenceQueryKey });
+      }
+      connectedBefore.current = true;
+    }
+  });
+
+  const { data: online = [] } = useQuery<PresenceEntry[]>({ queryKey: presenceQueryKey });
+  const onlineUsernames = new Set(online.map(entry => entry.username));
+
+  return {
+    online,
+    isOnline: (username: string) => onlineUsernames.has(username),
+  };
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef } from "react";
+
+type RealtimeListener = (event: any) => void;
+
+// One app-wide WebSocket shared by every subscriber in this tab. Chat rooms
+// keep their own socket (see ChatInterface) because joining is per connection.
+let socket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<RealtimeListener>();
+const pendingFrames: string[] = [];
+
+function connect() {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+  socket = ws;
+
+  ws.onopen = () => {
+    while (pendingFrames.length > 0) {
+      ws.send(pendingFrames.shift()!);
+    }
+    // Lets subscribers re-send per-connection state (e.g. watches) after a reconnect
+    listeners.forEach((listener) => listener({ type: 'connected' }));
+  };
+
+  ws.onmessage = (event) => {
+    const data = JSON.parse(event.data);
+    listeners.forEach((listener) => listener(data));
+  };
+
+  ws.onclose = () => {
+    if (socket === ws) {
+      socket = null;
+    }
+    // Reconnect while anyone is still listening
+    if (listeners.size > 0 && !reconnectTimer) {
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        if (listeners.size > 0 && !socket) connect();
+      }, 3000);
+    }
+  };
+}
+
+export function subscribeRealtime(listener: RealtimeListener): () => void {
+  listeners.add(listener);
+  if (!socket) connect();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && socket) {
+      socket.close();
+      socket = null;
+    }
+  };
+}
+
+export function sendRealtime(frame: unknown) {
+  const data = JSON.stringify(frame);
+  if (socket && socket.readyState === WebSocket.OPEN) {
+    socket.send(data);
+  } else {
+    pendingFrames.push(data);
+  }
+}
+
+export function useRealtime(listener: RealtimeListener, enabled: boolean = true) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeRealtime((event) => listenerRef.current(event));
+  }, [enabled]);
+}
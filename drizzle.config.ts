@@ -4,6 +4,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "sqlite",
+  // Full-text search tables are created by server/init.ts, not managed by drizzle-kit
+  tablesFilter: ["!*_fts*"],
   dbCredentials: {
     url: process.env.DATABASE_PATH || "file:./data/cie_portal.db",
   },
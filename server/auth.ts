@@ -1,6 +1,6 @@
 import bcrypt from "bcryptjs";
 import { storage } from "./storage";
-import type { InsertUser, User } from "@shared/schema";
+import type { InsertUser, User, AccountStatus, Room, RoomMember, Message, Notification, Document } from "@shared/schema";
 
 export async function hashPassword(password: string): Promise<string> {
   return await bcrypt.hash(password, 10);
@@ -44,6 +44,39 @@ export async function registerStudent(userData: {
   return user;
 }
 
+export interface AccountLock {
+  status: Exclude<AccountStatus, "active">;
+  until: Date | null;
+  reason: string | null;
+  message: string;
+}
+
+// Thrown by loginUser when the password is right but the account can't be used
+export class AccountLockedError extends Error {
+  constructor(public lock: AccountLock) {
+    super(lock.message);
+  }
+}
+
+// Why this account can't sign in right now, or null when it can. A suspension
+// that has run out counts as active again.
+export function getAccountLock(user: User, now: Date = new Date()): AccountLock | null {
+  if (user.accountStatus === "banned") {
+    return { status: "banned", until: null, reason: user.statusReason, message: "This account has been banned" };
+  }
+  if (user.accountStatus === "suspended" && (!user.suspendedUntil || user.suspendedUntil > now)) {
+    return {
+      status: "suspended",
+      until: user.suspendedUntil,
+      reason: user.statusReason,
+      message: user.suspendedUntil
+        ? `This account is suspended until ${user.suspendedUntil.toLocaleString()}`
+        : "This account is suspended",
+    };
+  }
+  return null;
+}
+
 export async function loginUser(username: string, password: string): Promise<User> {
   const user = await storage.getUserByUsername(username);
   if (!user) {
@@ -55,6 +88,16 @@ export async function loginUser(username: string, password: string): Promise<Use
     throw new Error("Invalid username or password");
   }
 
+  const lock = getAccountLock(user);
+  if (lock) {
+    await storage.createActivityLog({
+      userId: user.id,
+      action: "LOGIN_BLOCKED",
+      details: { username: user.username, status: lock.status }
+    });
+    throw new AccountLockedError(lock);
+  }
+
   await storage.createActivityLog({
     userId: user.id,
     action: "USER_LOGIN",
@@ -74,3 +117,165 @@ export function canAccessDepartment(user: User | undefined, departmentName: stri
   if (user.role === "admin" || user.role === "faculty-governor") return true;
   return user.departmentName === departmentName;
 }
+
+// dm and group rooms are open only to their members, admins included
+export function isPrivateRoom(room: Room): boolean {
+  return room.type === "dm" || room.type === "group";
+}
+
+// Rooms whose access comes from room_members rather than departments
+export function isMembershipRoom(room: Room): boolean {
+  return isPrivateRoom(room) || room.type === "custom";
+}
+
+// memberIds is only consulted for membership rooms; without it they are treated as closed
+export function canAccessRoom(user: User | undefined, room: Room, memberIds?: string[]): boolean {
+  if (!user) return false;
+  const isMember = !!memberIds && memberIds.includes(user.id);
+  if (isPrivateRoom(room)) return isMember;
+  if (user.role === "admin") return true;
+  if (room.type === "custom") return isMember;
+  if (user.role === "faculty-governor") return true;
+  return room.type === "general" ||
+    room.departmentName === user.departmentName ||
+    room.departmentName === null;
+}
+
+// Whether a custom room's department restriction lets this user in at all
+export function canJoinRoom(user: User, room: Room): boolean {
+  if (room.type !== "custom") return false;
+  if (user.role === "admin" || user.role === "faculty-governor") return true;
+  return room.departmentName === null || room.departmentName === user.departmentName;
+}
+
+// Custom rooms a non-member is shown so they can join or ask to
+export function canDiscoverRoom(user: User, room: Room): boolean {
+  return room.joinPolicy !== "invite" && canJoinRoom(user, room);
+}
+
+// Settings, kicks, mutes and pins. Admins moderate every room; general and
+// department rooms are run by governors, the rest by their owner and moderators.
+export function canModerateRoom(user: User | undefined, room: Room, member?: RoomMember): boolean {
+  if (!user) return false;
+  if (user.role === "admin") return true;
+  if (isMembershipRoom(room)) return member?.role === "owner" || member?.role === "moderator";
+  if (user.role === "faculty-governor") return true;
+  return user.role === "department-governor" && room.departmentName === user.departmentName;
+}
+
+// Why the user can't post in the room right now, or null if they can.
+// lastPostedAt is their previous message there, for slow mode.
+export function getPostingRestriction(
+  user: User,
+  room: Room,
+  member: RoomMember | undefined,
+  lastPostedAt: Date | undefined,
+  now: Date = new Date()
+): string | null {
+  const accountMute = getAccountMuteRestriction(user, now);
+  if (accountMute) return accountMute;
+  if (canModerateRoom(user, room, member)) return null;
+  if (room.readOnly) return "Only moderators can post in this room";
+  if (member?.mutedUntil && member.mutedUntil > now) {
+    return `You are muted in this room until ${member.mutedUntil.toLocaleString()}`;
+  }
+  if (room.slowModeSeconds > 0 && lastPostedAt) {
+    const wait = Math.ceil((lastPostedAt.getTime() + room.slowModeSeconds * 1000 - now.getTime()) / 1000);
+    if (wait > 0) return `Slow mode is on, you can post again in ${wait}s`;
+  }
+  return null;
+}
+
+// An account mute, from an admin or the report queue, covers chat and comments everywhere
+export function getAccountMuteRestriction(user: User, now: Date = new Date()): string | null {
+  if (user.mutedUntil && user.mutedUntil > now) {
+    return `You are muted until ${user.mutedUntil.toLocaleString()}`;
+  }
+  return null;
+}
+
+// @room and @department reach many people at once, so only staff can use them
+export function canMentionGroups(user: User): boolean {
+  return user.role === "admin" || user.role === "faculty-governor" || user.role === "department-governor";
+}
+
+// Conversations with staff are always allowed; student-to-student ones can be
+// switched off with chat.allow_student_dms in config.json
+export function canDirectMessage(user: User, target: User, allowStudentDms: boolean): boolean {
+  if (user.id === target.id) return false;
+  if (user.role === "student" && target.role === "student") return allowStudentDms;
+  return true;
+}
+
+export function canViewNotification(user: User | undefined, notification: Notification): boolean {
+  if (!user) return false;
+  // Scheduled and archived posts are only reachable through the scheduling endpoints
+  if (notification.status !== "published") return false;
+  if (notification.targetDepartmentName === null) return true;
+  if (user.role === "admin" || user.role === "faculty-governor") return true;
+  return notification.targetDepartmentName === user.departmentName;
+}
+
+// Editing, cancelling and deleting a notification. `author` is the account that
+// posted it; an admin's posts are left to admins and their author.
+export function canManageNotification(
+  user: User | undefined,
+  notification: Notification,
+  author: Pick<User, "role"> | undefined
+): boolean {
+  if (!user) return false;
+  if (user.role === "admin" || notification.postedBy === user.username) return true;
+  if (author?.role === "admin") return false;
+  if (user.role === "faculty-governor") return true;
+  return user.role === "department-governor" && notification.targetDepartmentName === user.departmentName;
+}
+
+// Hiding and deleting other people's comments: the governor who posted it, and admins
+export function canModerateNotificationComments(user: User | undefined, notification: Notification): boolean {
+  if (!user) return false;
+  return user.role === "admin" || notification.postedBy === user.username;
+}
+
+// The uploader picks who a document is shared with; its owner, admins and
+// faculty governors always see it. "governors" means staff of any department.
+export function canAccessDocument(user: User | undefined, document: Document): boolean {
+  if (!user) return false;
+  // Hidden from the report queue: only the owner and whoever handles reports for it
+  if (document.hiddenAt && document.owner !== user.username && !canModerateReports(user, document.departmentName)) {
+    return false;
+  }
+  if (document.owner === user.username) return true;
+  if (user.role === "admin" || user.role === "faculty-governor") return true;
+  switch (document.visibility) {
+    case "faculty":
+      return true;
+    case "governors":
+      return user.role === "department-governor";
+    case "departments":
+      return document.departmentName === user.departmentName
+        || (document.visibleDepartments ?? []).includes(user.departmentName);
+    default:
+      return document.departmentName === user.departmentName;
+  }
+}
+
+// Folders in a department's library are kept by its governor, faculty governors and admins
+export function canManageDocumentFolders(user: User | undefined, departmentName: string): boolean {
+  if (!user) return false;
+  if (user.role === "admin" || user.role === "faculty-governor") return true;
+  return user.role === "department-governor" && user.departmentName === departmentName;
+}
+
+// Working the report queue: admins handle every report, department governors
+// the ones against content from their own department
+export function canModerateReports(user: User | undefined, departmentName: string | null): boolean {
+  if (!user) return false;
+  if (user.role === "admin") return true;
+  return user.role === "department-governor" && !!departmentName && departmentName === user.departmentName;
+}
+
+export function canModerateMessage(user: User | undefined, room: Room, message: Message, member?: RoomMember): boolean {
+  if (!user) return false;
+  if (message.sender === user.username) return true;
+  return canModerateRoom(user, room, member);
+}
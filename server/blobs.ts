@@ -0,0 +1,270 @@
+import fs from "fs/promises";
+import { createReadStream } from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Readable } from "stream";
+import type { ReadableStream } from "stream/web";
+
+// Uploaded files are stored under keys like documents/<uuid>.pdf, which stay the
+// same whichever driver holds them. The database keeps keys, never disk paths.
+export type BlobNamespace = "documents" | "chat-images";
+
+export const BLOB_NAMESPACES: BlobNamespace[] = ["documents", "chat-images"];
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface BlobDriver {
+  readonly name: string;
+  // Takes over the file at sourcePath: it is moved or uploaded, then gone from there
+  put(key: string, sourcePath: string, contentType: string): Promise<void>;
+  open(key: string, range?: ByteRange): Promise<Readable>;
+  // Null when there is no such object
+  stat(key: string): Promise<{ size: number } | null>;
+  delete(key: string): Promise<void>;
+}
+
+const contentTypes: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.txt': 'text/plain; charset=utf-8',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+export function contentTypeFor(name: string): string {
+  return contentTypes[path.extname(name).toLowerCase()] || "application/octet-stream";
+}
+
+export function newBlobKey(namespace: BlobNamespace, originalName: string): string {
+  const ext = path.extname(originalName).toLowerCase().replace(/[^.a-z0-9]/g, "");
+  return `${namespace}/${crypto.randomUUID()}${ext}`;
+}
+
+export function isBlobKey(value: string): boolean {
+  const [namespace, name, ...rest] = value.split("/");
+  return BLOB_NAMESPACES.includes(namespace as BlobNamespace)
+    && !!name && rest.length === 0 && name !== "." && name !== "..";
+}
+
+// A single range from a Range header. Null means send the whole file; several
+// ranges are answered with the whole file too.
+export function parseByteRange(header: string | undefined, size: number): ByteRange | "unsatisfiable" | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // bytes=-500 is the last 500 bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
+
+export class LocalBlobDriver implements BlobDriver {
+  readonly name = "local";
+
+  constructor(private root: string) {}
+
+  resolve(key: string): string {
+    if (!isBlobKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.resolve(process.cwd(), this.root, key);
+  }
+
+  async put(key: string, sourcePath: string): Promise<void> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    try {
+      await fs.rename(sourcePath, target);
+    } catch (err: any) {
+      // rename can't cross filesystems
+      if (err.code !== "EXDEV") throw err;
+      await fs.copyFile(sourcePath, target);
+      await fs.unlink(sourcePath);
+    }
+  }
+
+  async open(key: string, range?: ByteRange): Promise<Readable> {
+    return createReadStream(this.resolve(key), range ? { start: range.start, end: range.end } : {});
+  }
+
+  async stat(key: string): Promise<{ size: number } | null> {
+    try {
+      const stats = await fs.stat(this.resolve(key));
+      return { size: stats.size };
+    } catch (err: any) {
+      if (err.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.unlink(this.resolve(key)).catch((err) => {
+      if (err.code !== "ENOENT") throw err;
+    });
+  }
+}
+
+export interface S3Settings {
+  // e.g. https://s3.eu-central-1.amazonaws.com, or http://127.0.0.1:9000 for MinIO
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // bucket in the path rather than the host name; MinIO and most stand-ins need it
+  forcePathStyle: boolean;
+}
+
+const sha256 = (data: string | Buffer) => crypto.createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac("sha256", key).update(data).digest();
+
+// RFC 3986 encoding, as Signature Version 4 expects
+const encodeSegment = (segment: string) =>
+  encodeURIComponent(segment).replace(/[!'()*]/g, (ch) => `%${ch.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// Talks to any S3-compatible service over its REST API, signing each request
+// with AWS Signature Version 4
+export class S3BlobDriver implements BlobDriver {
+  readonly name = "s3";
+
+  constructor(private settings: S3Settings) {}
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.settings.endpoint);
+    const objectPath = key.split("/").map(encodeSegment).join("/");
+    if (this.settings.forcePathStyle) {
+      return new URL(`${endpoint.origin}/${encodeSegment(this.settings.bucket)}/${objectPath}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.settings.bucket}.${endpoint.host}/${objectPath}`);
+  }
+
+  private async request(method: string, key: string, options: { body?: Buffer; headers?: Record<string, string> } = {}) {
+    const url = this.objectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256(options.body ?? "");
+
+    const headers: Record<string, string> = {
+      ...options.headers,
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    const names = Object.keys(headers).map((name) => name.toLowerCase()).sort();
+    const lowered = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()]));
+    const signedHeaders = names.join(";");
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      names.map((name) => `${name}:${lowered[name]}\n`).join(""),
+      signedHeaders,
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${date}/${this.settings.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+    const signingKey = ["s3", "aws4_request"].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.settings.secretAccessKey}`, date), this.settings.region)
+    );
+    const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    delete headers.host;
+    headers.authorization =
+      `AWS4-HMAC-SHA256 Credential=${this.settings.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+    return fetch(url, { method, headers, body: options.body });
+  }
+
+  private async fail(response: Response, action: string): Promise<never> {
+    const detail = (await response.text().catch(() => "")).slice(0, 300);
+    throw new Error(`S3 ${action} failed with ${response.status}${detail ? `: ${detail}` : ""}`);
+  }
+
+  async put(key: string, sourcePath: string, contentType: string): Promise<void> {
+    const body = await fs.readFile(sourcePath);
+    const response = await this.request("PUT", key, { body, headers: { "content-type": contentType } });
+    if (!response.ok) await this.fail(response, `upload of ${key}`);
+    await fs.unlink(sourcePath);
+  }
+
+  async open(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.request("GET", key, {
+      headers: range ? { range: `bytes=${range.start}-${range.end}` } : {},
+    });
+    if (!response.ok || !response.body) await this.fail(response, `download of ${key}`);
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
+  async stat(key: string): Promise<{ size: number } | null> {
+    const response = await this.request("HEAD", key);
+    if (response.status === 404) return null;
+    if (!response.ok) await this.fail(response, `lookup of ${key}`);
+    return { size: Number(response.headers.get("content-length") ?? 0) };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request("DELETE", key);
+    if (!response.ok && response.status !== 404) await this.fail(response, `delete of ${key}`);
+  }
+}
+
+// Where the local driver keeps files, whichever driver is in use
+export function createLocalBlobDriver(config: any): LocalBlobDriver {
+  return new LocalBlobDriver(process.env.STORAGE_LOCAL_ROOT || config?.storage?.local_root || "uploads");
+}
+
+// storage in config.json picks the driver; S3 credentials only come from the
+// environment, and STORAGE_DRIVER / S3_* variables override the file
+export function createBlobDriver(config: any): BlobDriver {
+  const settings = config?.storage ?? {};
+  const driver = process.env.STORAGE_DRIVER || settings.driver || "local";
+  if (driver === "local") {
+    return createLocalBlobDriver(config);
+  }
+  if (driver !== "s3") {
+    throw new Error(`Unknown storage driver: ${driver}`);
+  }
+
+  const s3 = settings.s3 ?? {};
+  const s3Settings: S3Settings = {
+    endpoint: process.env.S3_ENDPOINT || s3.endpoint || "",
+    region: process.env.S3_REGION || s3.region || "us-east-1",
+    bucket: process.env.S3_BUCKET || s3.bucket || "",
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+    forcePathStyle: s3.force_path_style !== false,
+  };
+  if (!s3Settings.endpoint || !s3Settings.bucket || !s3Settings.accessKeyId || !s3Settings.secretAccessKey) {
+    throw new Error("The s3 storage driver needs an endpoint, a bucket, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+  }
+  return new S3BlobDriver(s3Settings);
+}
+
+let blobDriver: BlobDriver = new LocalBlobDriver("uploads");
+
+export function initializeBlobStorage(config: any): BlobDriver {
+  blobDriver = createBlobDriver(config);
+  console.log(`✓ File storage: ${blobDriver.name}`);
+  return blobDriver;
+}
+
+export function getBlobStorage(): BlobDriver {
+  return blobDriver;
+}
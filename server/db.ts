@@ -11,7 +11,7 @@ if (!fs.existsSync(dataDir)) {
 }
 
 const dbPath = path.join(dataDir, "cie_portal.db");
-const sqlite = new Database(dbPath);
+export const sqlite = new Database(dbPath);
 
 // Enable WAL mode for better concurrency
 sqlite.pragma("journal_mode = WAL");
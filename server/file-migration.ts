@@ -0,0 +1,89 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { storage } from "./storage";
+import { LocalBlobDriver, isBlobKey, contentTypeFor, type BlobDriver } from "./blobs";
+import { detectFileType } from "./uploads";
+
+export interface FileMigrationOptions {
+  // Only list what would move
+  dryRun?: boolean;
+  // Only re-key files saved before storage keys existed (raw uploads/ paths)
+  legacyOnly?: boolean;
+  log?: (line: string) => void;
+}
+
+export interface FileMigrationResult {
+  moved: number;
+  inPlace: number;
+  missing: number;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return fs.stat(filePath).then((stats) => stats.isFile(), () => false);
+}
+
+// Named after the old path rather than at random, so a run that stopped part
+// way picks the same key when it is repeated
+function legacyBlobKey(value: string, kind: "document" | "chat-image", type: string | null): string {
+  const id = crypto.createHash("sha256").update(value).digest("hex").slice(0, 32);
+  return `${kind === "document" ? "documents" : "chat-images"}/${id}${type ? `.${type}` : ""}`;
+}
+
+// Drivers take over the file they are given, so they get a copy and the
+// original stays until the database no longer points at it
+async function putCopy(target: BlobDriver, key: string, sourcePath: string) {
+  const copyPath = path.join(path.dirname(sourcePath), `.${path.basename(sourcePath)}.copy`);
+  await fs.copyFile(sourcePath, copyPath);
+  try {
+    await target.put(key, copyPath, contentTypeFor(key));
+  } finally {
+    await fs.unlink(copyPath).catch(() => {});
+  }
+}
+
+// Moves uploaded files into the target driver and points the database at their
+// storage keys. Files saved before storage keys existed get a key; files already
+// under a key are copied from the local root when the target is another driver.
+// Each file is copied, then referenced, then removed from its old place, so an
+// interrupted run leaves nothing unreadable and can simply be run again.
+export async function migrateStoredFiles(
+  target: BlobDriver,
+  local: LocalBlobDriver,
+  options: FileMigrationOptions = {}
+): Promise<FileMigrationResult> {
+  const log = options.log ?? (() => {});
+  const result: FileMigrationResult = { moved: 0, inPlace: 0, missing: 0 };
+
+  for (const { value, kind } of await storage.getStoredFileReferences()) {
+    const legacy = !isBlobKey(value);
+    if (!legacy) {
+      if (options.legacyOnly) continue;
+      if (target.name === "local" || await target.stat(value)) {
+        // Already uploaded by a run that stopped before removing the local copy
+        if (target.name !== "local" && !options.dryRun) await local.delete(value);
+        result.inPlace++;
+        continue;
+      }
+    }
+
+    const sourcePath = legacy ? path.resolve(process.cwd(), value) : local.resolve(value);
+    if (!(await fileExists(sourcePath))) {
+      log(`  ! ${value} is missing from disk`);
+      result.missing++;
+      continue;
+    }
+
+    // Old uploads were saved without an extension; name them after their contents
+    const key = legacy ? legacyBlobKey(value, kind, await detectFileType(sourcePath)) : value;
+    log(legacy ? `  ${value} -> ${key}` : `  ${key}`);
+    if (!options.dryRun) {
+      await putCopy(target, key, sourcePath);
+      if (legacy) await storage.replaceStoredFileReference(value, key);
+      await fs.unlink(sourcePath);
+    }
+    result.moved++;
+  }
+
+  return result;
+}
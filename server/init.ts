@@ -1,5 +1,5 @@
 import { storage } from "./storage";
-import { db } from "./db";
+import { db, sqlite } from "./db";
 import * as schema from "@shared/schema";
 import bcrypt from "bcryptjs";
 import fs from "fs/promises";
@@ -70,6 +70,9 @@ interface BackupData {
     targetDepartmentName?: string | null;
     reactions: any;
     comments: any[];
+    status?: string;
+    publishAt?: string | null;
+    expiresAt?: string | null;
     createdAt: string;
   }>;
 }
@@ -84,13 +87,14 @@ async function runMigrations() {
   try {
     logger.info("Checking database schema...");
 
-    // Try to query existing tables to see if schema exists
-    try {
-      await db.select().from(schema.users).limit(1);
+    // Look the table up directly: selecting through drizzle would fail on
+    // databases that predate some of the users columns
+    const usersTable = sqlite.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'users'").get();
+    if (usersTable) {
       logger.info("Database schema already exists, skipping migrations");
       console.log("✅ Database schema already exists, skipping migrations");
       return;
-    } catch (queryError) {
+    } else {
       // Tables don't exist, need to run migrations
       logger.info("Running database migrations...");
       console.log("📝 Running database migrations...");
@@ -125,6 +129,8 @@ export async function initializeSystem() {
   try {
     // Run migrations first to ensure all tables exist
     await runMigrations();
+    migrateSchema();
+    initializeSearchIndex();
 
     const configPath = path.join(process.cwd(), "config.json");
     const configData = await fs.readFile(configPath, "utf-8");
@@ -135,6 +141,8 @@ export async function initializeSystem() {
     await restoreUsersFromBackup();
     await restoreNotificationsFromBackup();
     await initializeGovernors(config);
+    await migrateNotificationComments();
+    await migrateRoomMembership();
     await syncConfigUsersToBackup(config);
 
     logger.info("System initialization complete");
@@ -145,6 +153,405 @@ export async function initializeSystem() {
   }
 }
 
+// A schema change made since the first release. Databases created before it
+// skip db:push, so migrateSchema applies it; every statement is a no-op once
+// applied.
+interface SchemaMigration {
+  tables?: string[];
+  columns?: Array<{ table: string; column: string; definition: string }>;
+  indexes?: string[];
+}
+
+// In the order the changes were made
+const schemaMigrations: SchemaMigration[] = [
+  {
+    // Message history pages
+    indexes: [
+      "CREATE INDEX IF NOT EXISTS messages_room_created_idx ON messages (room_id,created_at)",
+    ],
+  },
+  {
+    // Read receipts and unread counters
+    tables: [
+      `CREATE TABLE IF NOT EXISTS room_reads (
+        id text PRIMARY KEY NOT NULL,
+        user_id text NOT NULL,
+        room_id text NOT NULL,
+        last_read_at integer NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS notification_reads (
+        id text PRIMARY KEY NOT NULL,
+        user_id text NOT NULL,
+        notification_id text NOT NULL,
+        read_at integer NOT NULL
+      )`,
+    ],
+    indexes: [
+      "CREATE UNIQUE INDEX IF NOT EXISTS room_reads_user_room_idx ON room_reads (user_id,room_id)",
+      "CREATE UNIQUE INDEX IF NOT EXISTS notification_reads_user_notification_idx ON notification_reads (user_id,notification_id)",
+    ],
+  },
+  {
+    // Threaded replies
+    columns: [
+      { table: "messages", column: "reply_count", definition: "integer DEFAULT 0 NOT NULL" },
+      { table: "messages", column: "last_reply_at", definition: "integer" },
+      { table: "messages", column: "deleted_at", definition: "integer" },
+    ],
+    indexes: [
+      "CREATE INDEX IF NOT EXISTS messages_reply_to_idx ON messages (reply_to)",
+    ],
+  },
+  {
+    // Per-user reactions
+    tables: [
+      `CREATE TABLE IF NOT EXISTS reactions (
+        id text PRIMARY KEY NOT NULL,
+        target_type text NOT NULL,
+        target_id text NOT NULL,
+        user_id text NOT NULL,
+        emoji text NOT NULL,
+        created_at integer NOT NULL
+      )`,
+    ],
+    indexes: [
+      "CREATE UNIQUE INDEX IF NOT EXISTS reactions_target_user_emoji_idx ON reactions (target_type,target_id,user_id,emoji)",
+    ],
+  },
+  {
+    // Scheduled and expiring notifications
+    columns: [
+      { table: "notifications", column: "status", definition: "text DEFAULT 'published' NOT NULL" },
+      { table: "notifications", column: "publish_at", definition: "integer" },
+      { table: "notifications", column: "expires_at", definition: "integer" },
+    ],
+    indexes: [
+      "CREATE INDEX IF NOT EXISTS notifications_status_publish_idx ON notifications (status,publish_at)",
+    ],
+  },
+  {
+    // Acknowledgements for urgent notifications
+    tables: [
+      `CREATE TABLE IF NOT EXISTS notification_acks (
+        id text PRIMARY KEY NOT NULL,
+        notification_id text NOT NULL,
+        user_id text NOT NULL,
+        acknowledged_at integer NOT NULL
+      )`,
+    ],
+    columns: [
+      { table: "notifications", column: "ack_reminder_sent_at", definition: "integer" },
+    ],
+    indexes: [
+      "CREATE UNIQUE INDEX IF NOT EXISTS notification_acks_notification_user_idx ON notification_acks (notification_id,user_id)",
+    ],
+  },
+  {
+    // Notification comments in their own table
+    tables: [
+      `CREATE TABLE IF NOT EXISTS notification_comments (
+        id text PRIMARY KEY NOT NULL,
+        notification_id text NOT NULL,
+        parent_id text,
+        author_id text,
+        author_name text NOT NULL,
+        content text NOT NULL,
+        edited integer DEFAULT false NOT NULL,
+        hidden_at integer,
+        hidden_by text,
+        deleted_at integer,
+        deleted_by text,
+        created_at integer NOT NULL,
+        updated_at integer
+      )`,
+    ],
+    indexes: [
+      "CREATE INDEX IF NOT EXISTS notification_comments_notification_idx ON notification_comments (notification_id,created_at)",
+    ],
+  },
+  {
+    // Direct messages and group conversations
+    tables: [
+      `CREATE TABLE IF NOT EXISTS room_members (
+        id text PRIMARY KEY NOT NULL,
+        room_id text NOT NULL,
+        user_id text NOT NULL,
+        added_by text,
+        joined_at integer NOT NULL
+      )`,
+    ],
+    columns: [
+      { table: "rooms", column: "dm_key", definition: "text" },
+    ],
+    indexes: [
+      "CREATE UNIQUE INDEX IF NOT EXISTS rooms_dm_key_idx ON rooms (dm_key)",
+      "CREATE UNIQUE INDEX IF NOT EXISTS room_members_room_user_idx ON room_members (room_id,user_id)",
+      "CREATE INDEX IF NOT EXISTS room_members_user_idx ON room_members (user_id)",
+    ],
+  },
+  {
+    // Room roles, invites, join requests and moderation settings
+    tables: [
+      `CREATE TABLE IF NOT EXISTS room_requests (
+        id text PRIMARY KEY NOT NULL,
+        room_id text NOT NULL,
+        user_id text NOT NULL,
+        kind text NOT NULL,
+        requested_by text NOT NULL,
+        status text DEFAULT 'pending' NOT NULL,
+        decided_by text,
+        created_at integer NOT NULL,
+        decided_at integer
+      )`,
+    ],
+    columns: [
+      { table: "rooms", column: "join_policy", definition: "text DEFAULT 'open' NOT NULL" },
+      { table: "rooms", column: "read_only", definition: "integer DEFAULT false NOT NULL" },
+      { table: "rooms", column: "slow_mode_seconds", definition: "integer DEFAULT 0 NOT NULL" },
+      { table: "room_members", column: "role", definition: "text DEFAULT 'member' NOT NULL" },
+      { table: "room_members", column: "muted_until", definition: "integer" },
+    ],
+    indexes: [
+      "CREATE INDEX IF NOT EXISTS room_requests_room_status_idx ON room_requests (room_id,status)",
+      "CREATE INDEX IF NOT EXISTS room_requests_user_status_idx ON room_requests (user_id,status)",
+    ],
+  },
+  {
+    // Pinned messages
+    tables: [
+      `CREATE TABLE IF NOT EXISTS pinned_messages (
+        id text PRIMARY KEY NOT NULL,
+        room_id text NOT NULL,
+        message_id text NOT NULL,
+        pinned_by text NOT NULL,
+        pinned_at integer NOT NULL
+      )`,
+    ],
+    indexes: [
+      "CREATE UNIQUE INDEX IF NOT EXISTS pinned_messages_message_idx ON pinned_messages (message_id)",
+      "CREATE INDEX IF NOT EXISTS pinned_messages_room_idx ON pinned_messages (room_id)",
+    ],
+  },
+  {
+    // Messages parsed as Markdown
+    columns: [
+      { table: "messages", column: "content_ast", definition: "text" },
+    ],
+  },
+  {
+    // Mentions
+    tables: [
+      `CREATE TABLE IF NOT EXISTS mentions (
+        id text PRIMARY KEY NOT NULL,
+        message_id text NOT NULL,
+        room_id text NOT NULL,
+        user_id text NOT NULL,
+        mentioned_by text NOT NULL,
+        kind text DEFAULT 'user' NOT NULL,
+        read_at integer,
+        created_at integer NOT NULL
+      )`,
+    ],
+    indexes: [
+      "CREATE UNIQUE INDEX IF NOT EXISTS mentions_message_user_idx ON mentions (message_id,user_id)",
+      "CREATE INDEX IF NOT EXISTS mentions_user_created_idx ON mentions (user_id,created_at)",
+    ],
+  },
+  {
+    // Message revisions and soft deletes
+    tables: [
+      `CREATE TABLE IF NOT EXISTS message_revisions (
+        id text PRIMARY KEY NOT NULL,
+        message_id text NOT NULL,
+        room_id text NOT NULL,
+        action text NOT NULL,
+        actor_id text NOT NULL,
+        content text NOT NULL,
+        content_ast text,
+        formatting text,
+        image_url text,
+        created_at integer NOT NULL
+      )`,
+    ],
+    columns: [
+      { table: "messages", column: "deleted_by", definition: "text" },
+    ],
+    indexes: [
+      "CREATE INDEX IF NOT EXISTS message_revisions_message_idx ON message_revisions (message_id,created_at)",
+      "CREATE INDEX IF NOT EXISTS message_revisions_created_idx ON message_revisions (created_at)",
+    ],
+  },
+  {
+    // Content reports and the moderation queue
+    tables: [
+      `CREATE TABLE IF NOT EXISTS reports (
+        id text PRIMARY KEY NOT NULL,
+        target_type text NOT NULL,
+        target_id text NOT NULL,
+        reporter_id text NOT NULL,
+        reason text NOT NULL,
+        details text,
+        author_id text,
+        department_name text,
+        status text DEFAULT 'open' NOT NULL,
+        resolution text,
+        resolved_by text,
+        resolved_at integer,
+        created_at integer NOT NULL
+      )`,
+    ],
+    columns: [
+      { table: "users", column: "muted_until", definition: "integer" },
+      { table: "messages", column: "hidden_at", definition: "integer" },
+      { table: "messages", column: "hidden_by", definition: "text" },
+      { table: "documents", column: "hidden_at", definition: "integer" },
+      { table: "documents", column: "hidden_by", definition: "text" },
+    ],
+    indexes: [
+      "CREATE UNIQUE INDEX IF NOT EXISTS reports_target_reporter_idx ON reports (target_type,target_id,reporter_id)",
+      "CREATE INDEX IF NOT EXISTS reports_status_created_idx ON reports (status,created_at)",
+    ],
+  },
+  {
+    // Account mutes, suspensions and bans
+    columns: [
+      { table: "users", column: "mute_reason", definition: "text" },
+      { table: "users", column: "account_status", definition: "text DEFAULT 'active' NOT NULL" },
+      { table: "users", column: "suspended_until", definition: "integer" },
+      { table: "users", column: "status_reason", definition: "text" },
+    ],
+  },
+  {
+    // Room retention policies and legal holds
+    columns: [
+      { table: "rooms", column: "retention_policy", definition: "text DEFAULT 'forever' NOT NULL" },
+      { table: "rooms", column: "retention_days", definition: "integer" },
+      { table: "messages", column: "legal_hold", definition: "integer DEFAULT false NOT NULL" },
+    ],
+  },
+  {
+    // Document library folders and visibility
+    tables: [
+      `CREATE TABLE IF NOT EXISTS document_folders (
+        id text PRIMARY KEY NOT NULL,
+        name text NOT NULL,
+        department_name text NOT NULL,
+        parent_id text,
+        created_by text NOT NULL,
+        created_at integer NOT NULL
+      )`,
+    ],
+    columns: [
+      { table: "documents", column: "folder_id", definition: "text" },
+      { table: "documents", column: "visibility", definition: "text DEFAULT 'department' NOT NULL" },
+      { table: "documents", column: "visible_departments", definition: "text" },
+    ],
+    indexes: [
+      "CREATE INDEX IF NOT EXISTS document_folders_department_idx ON document_folders (department_name,parent_id)",
+    ],
+  },
+  {
+    // Document versions and downloads
+    tables: [
+      `CREATE TABLE IF NOT EXISTS document_versions (
+        id text PRIMARY KEY NOT NULL,
+        document_id text NOT NULL,
+        version integer NOT NULL,
+        name text NOT NULL,
+        path text NOT NULL,
+        file_type text NOT NULL,
+        size integer NOT NULL,
+        uploaded_by text NOT NULL,
+        note text,
+        created_at integer NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS document_downloads (
+        id text PRIMARY KEY NOT NULL,
+        document_id text NOT NULL,
+        user_id text NOT NULL,
+        version integer NOT NULL,
+        downloaded_at integer NOT NULL
+      )`,
+    ],
+    columns: [
+      { table: "documents", column: "version", definition: "integer DEFAULT 1 NOT NULL" },
+    ],
+    indexes: [
+      "CREATE UNIQUE INDEX IF NOT EXISTS document_versions_document_version_idx ON document_versions (document_id,version)",
+      "CREATE UNIQUE INDEX IF NOT EXISTS document_downloads_document_user_idx ON document_downloads (document_id,user_id)",
+    ],
+  },
+  {
+    // Looking up chat images by storage key
+    indexes: [
+      "CREATE INDEX IF NOT EXISTS messages_image_url_idx ON messages (image_url)",
+    ],
+  },
+];
+
+function migrateSchema() {
+  let added = 0;
+  for (const { tables = [], columns = [], indexes = [] } of schemaMigrations) {
+    for (const statement of tables) {
+      sqlite.exec(statement);
+    }
+    for (const { table, column, definition } of columns) {
+      const existing = sqlite.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      if (existing.some((c) => c.name === column)) continue;
+      sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      added++;
+    }
+    for (const statement of indexes) {
+      sqlite.exec(statement);
+    }
+  }
+
+  if (added > 0) {
+    console.log(`  ✓ Added ${added} columns to existing tables`);
+  }
+}
+
+// FTS5 indexes that mirror searchable columns. They use the source tables as
+// external content and are kept in sync by triggers.
+const searchIndexes = [
+  { table: "messages", columns: ["content"] },
+  { table: "notifications", columns: ["title", "content"] },
+  { table: "documents", columns: ["name"] },
+];
+
+function initializeSearchIndex() {
+  console.log("🔎 Initializing search index...");
+
+  for (const { table, columns } of searchIndexes) {
+    const fts = `${table}_fts`;
+    const cols = columns.join(", ");
+    const newValues = columns.map((c) => `new.${c}`).join(", ");
+    const oldValues = columns.map((c) => `old.${c}`).join(", ");
+
+    sqlite.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS ${fts} USING fts5(${cols}, content='${table}', content_rowid='rowid');
+
+      CREATE TRIGGER IF NOT EXISTS ${fts}_ai AFTER INSERT ON ${table} BEGIN
+        INSERT INTO ${fts}(rowid, ${cols}) VALUES (new.rowid, ${newValues});
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS ${fts}_ad AFTER DELETE ON ${table} BEGIN
+        INSERT INTO ${fts}(${fts}, rowid, ${cols}) VALUES ('delete', old.rowid, ${oldValues});
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS ${fts}_au AFTER UPDATE OF ${cols} ON ${table} BEGIN
+        INSERT INTO ${fts}(${fts}, rowid, ${cols}) VALUES ('delete', old.rowid, ${oldValues});
+        INSERT INTO ${fts}(rowid, ${cols}) VALUES (new.rowid, ${newValues});
+      END;
+    `);
+
+    // Schema pushes can recreate the source tables, so rebuild from scratch on startup
+    sqlite.exec(`INSERT INTO ${fts}(${fts}) VALUES ('rebuild')`);
+  }
+
+  console.log("  ✓ Search index ready");
+}
+
 async function initializeDepartments(departments: string[]) {
   logger.info("Initializing departments...", { count: departments.length });
   console.log("📚 Initializing departments...");
@@ -296,6 +703,9 @@ async function restoreNotificationsFromBackup() {
             targetDepartmentName: notifData.targetDepartmentName || null,
             reactions: notifData.reactions || {},
             comments: notifData.comments || [],
+            status: notifData.status || "published",
+            publishAt: notifData.publishAt ? new Date(notifData.publishAt) : null,
+            expiresAt: notifData.expiresAt ? new Date(notifData.expiresAt) : null,
             createdAt: new Date(notifData.createdAt),
           });
           restoredCount++;
@@ -316,6 +726,86 @@ async function restoreNotificationsFromBackup() {
   }
 }
 
+interface LegacyComment {
+  id?: string;
+  parentId?: string | null;
+  author?: string;
+  content?: string;
+  edited?: boolean;
+  hidden?: boolean;
+  timestamp?: string;
+}
+
+// Comments used to be a JSON array on the notification row. Move any still
+// there (including ones restored from a backup) into notification_comments.
+async function migrateNotificationComments() {
+  const notifications = await storage.getAllNotifications();
+  const userIds = new Map((await storage.getAllUsers()).map((user) => [user.username, user.id]));
+  let migrated = 0;
+
+  for (const notification of notifications) {
+    const legacy = Array.isArray(notification.comments) ? (notification.comments as LegacyComment[]) : [];
+    if (legacy.length === 0) continue;
+
+    // Old ids were Date.now() strings; new rows get fresh ids, replies follow their parent
+    const newIds = new Map<string, string>();
+    for (const comment of legacy) {
+      const id = crypto.randomUUID();
+      if (comment.id) newIds.set(String(comment.id), id);
+
+      await db.insert(schema.notificationComments).values({
+        id,
+        notificationId: notification.id,
+        parentId: comment.parentId ? newIds.get(String(comment.parentId)) ?? null : null,
+        authorId: (comment.author && userIds.get(comment.author)) || null,
+        authorName: comment.author || "Unknown",
+        content: String(comment.content ?? ""),
+        edited: !!comment.edited,
+        hiddenAt: comment.hidden ? new Date() : null,
+        createdAt: comment.timestamp ? new Date(comment.timestamp) : notification.createdAt,
+      });
+      migrated++;
+    }
+
+    await storage.updateNotification(notification.id, { comments: [] });
+  }
+
+  if (migrated > 0) {
+    console.log(`  ✓ Migrated ${migrated} notification comments`);
+  }
+}
+
+// Custom rooms used to be open to their whole department. Give rooms from before
+// room_members existed an owner and keep everyone who could already see them.
+async function migrateRoomMembership() {
+  const rooms = (await storage.getAllRooms()).filter((room) => room.type === "custom");
+  const users = await storage.getAllUsers();
+  let migrated = 0;
+
+  for (const room of rooms) {
+    if ((await storage.getRoomMemberIds(room.id)).length > 0) continue;
+
+    const creator = users.find((user) => user.id === room.createdBy);
+    if (creator) {
+      await storage.addRoomMember({ roomId: room.id, userId: creator.id, role: "owner", addedBy: creator.id });
+    }
+    for (const user of users) {
+      if (user.id === creator?.id || user.role === "admin") continue;
+      const couldSee = user.role === "faculty-governor" ||
+        room.departmentName === null ||
+        room.departmentName === user.departmentName;
+      if (couldSee) {
+        await storage.addRoomMember({ roomId: room.id, userId: user.id, role: "member", addedBy: room.createdBy });
+      }
+    }
+    migrated++;
+  }
+
+  if (migrated > 0) {
+    console.log(`  ✓ Gave ${migrated} custom rooms their members`);
+  }
+}
+
 async function initializeGovernors(config: Config) {
   console.log("👥 Initializing governors and admin...");
 
@@ -0,0 +1,257 @@
+import type { BlockNode, InlineNode, MessageAst } from "@shared/markdown";
+
+// Emphasis nested deeper than this is kept as plain text
+const MAX_INLINE_DEPTH = 4;
+const MAX_HREF_LENGTH = 2048;
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+interface InlineContext {
+  depth: number;
+  // Link labels can't contain links or mentions
+  inLink: boolean;
+}
+
+const isWordChar = (ch: string | undefined) => !!ch && /[A-Za-z0-9]/.test(ch);
+const isSpace = (ch: string | undefined) => !ch || /\s/.test(ch);
+
+// Only absolute http(s) and mailto links survive; anything else (javascript:,
+// data:, relative paths) is shown as text
+export function safeHref(raw: string): string | null {
+  const href = raw.trim();
+  if (!href || href.length > MAX_HREF_LENGTH) return null;
+  try {
+    const url = new URL(href);
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// Closing * or _ for single-marker italics: not after a space, and for _ not
+// inside a word, so snake_case names stay intact
+function findItalicEnd(src: string, marker: string, from: number): number {
+  for (let j = from + 1; j < src.length; j++) {
+    if (src[j] !== marker) continue;
+    if (src[j + 1] === marker) {
+      j++;
+      continue;
+    }
+    if (isSpace(src[j - 1])) continue;
+    if (marker === "_" && isWordChar(src[j + 1])) continue;
+    return j;
+  }
+  return -1;
+}
+
+// [label](href) starting at index. When there is none, every [ before
+// failedBefore would fail the same way, so callers can skip them.
+function matchLink(src: string, index: number):
+    { label: string; href: string; end: number } | { failedBefore: number } {
+  const close = src.indexOf("]", index + 1);
+  if (close < 0) return { failedBefore: src.length };
+  if (close === index + 1 || src[close + 1] !== "(") return { failedBefore: close };
+  let end = close + 2;
+  while (end < src.length && src[end] !== ")" && !isSpace(src[end])) end++;
+  if (end === close + 2 || src[end] !== ")") return { failedBefore: src.lastIndexOf("]", end) };
+  return { label: src.slice(index + 1, close), href: src.slice(close + 2, end), end: end + 1 };
+}
+
+function parseInline(src: string, ctx: InlineContext): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let text = "";
+  // A failed search for a closing marker fails for every later opener too, so
+  // it is remembered instead of rescanning the line once per opener
+  const noItalicEnd: Record<string, boolean> = {};
+  let noLinkBefore = -1;
+  const flush = () => {
+    if (text) {
+      nodes.push({ type: "text", text });
+      text = "";
+    }
+  };
+  const nested = (inner: string, inLink = ctx.inLink) => parseInline(inner, { depth: ctx.depth + 1, inLink });
+
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (ch === "\\" && /[\\`*_[\]()@]/.test(src[i + 1] ?? "")) {
+      text += src[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "`") {
+      const end = src.indexOf("`", i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: "code", text: src.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (ctx.depth < MAX_INLINE_DEPTH && (src.startsWith("**", i) || src.startsWith("__", i))) {
+      const marker = src.slice(i, i + 2);
+      const end = src.indexOf(marker, i + 2);
+      if (end > i + 2 && !isSpace(src[i + 2])) {
+        flush();
+        nodes.push({ type: "bold", children: nested(src.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if (ctx.depth < MAX_INLINE_DEPTH && (ch === "*" || ch === "_") && !noItalicEnd[ch] && !isSpace(src[i + 1])
+        && !(ch === "_" && isWordChar(src[i - 1]))) {
+      const end = findItalicEnd(src, ch, i);
+      if (end < 0) noItalicEnd[ch] = true;
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: "italic", children: nested(src.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (!ctx.inLink && ch === "[" && i > noLinkBefore) {
+      const link = matchLink(src, i);
+      if ("failedBefore" in link) {
+        noLinkBefore = link.failedBefore;
+      } else {
+        const href = safeHref(link.href);
+        if (href && ctx.depth < MAX_INLINE_DEPTH) {
+          flush();
+          nodes.push({ type: "link", href, children: nested(link.label, true) });
+        } else {
+          text += link.label;
+        }
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (!ctx.inLink && ch === "h" && !isWordChar(src[i - 1])
+        && (src.startsWith("http://", i) || src.startsWith("https://", i))) {
+      let end = i;
+      while (end < src.length && !/[\s<>"]/.test(src[end])) end++;
+      // Trailing punctuation belongs to the sentence, not the URL
+      while (/[.,!?;:)\]'"]/.test(src[end - 1])) end--;
+      const url = src.slice(i, end);
+      const href = safeHref(url);
+      if (href) {
+        flush();
+        nodes.push({ type: "link", href, children: [{ type: "text", text: url }] });
+      } else {
+        // Unsafe or malformed URLs stay text as a whole, rather than being
+        // rescanned from every "http" inside them
+        text += url;
+      }
+      i = end;
+      continue;
+    }
+
+    if (!ctx.inLink && ch === "@" && (i === 0 || /[\s(]/.test(src[i - 1]))) {
+      const match = /^@([A-Za-z0-9_.-]{1,64})/.exec(src.slice(i, i + 65));
+      const username = match?.[1].replace(/[.-]+$/, "");
+      if (username) {
+        flush();
+        nodes.push({ type: "mention", username });
+        i += 1 + username.length;
+        continue;
+      }
+    }
+
+    text += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+const inline = (line: string) => parseInline(line, { depth: 0, inLink: false });
+
+// Parses a message's source into the block/inline tree stored alongside it.
+// Supports **bold**, *italic*, `code`, ``` fenced blocks, - and 1. lists,
+// [links](https://...), bare URLs and @mentions; everything else is text.
+export function parseMarkdown(source: string): MessageAst {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    const children: InlineNode[] = [];
+    paragraph.forEach((line, index) => {
+      if (index > 0) children.push({ type: "break" });
+      children.push(...inline(line));
+    });
+    blocks.push({ type: "paragraph", children });
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (!list) return;
+    blocks.push({ type: "list", ordered: list.ordered, items: list.items.map(inline) });
+    list = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = /^\s*```\s*([\w+#-]*)\s*$/.exec(line);
+    if (fence) {
+      flushParagraph();
+      flushList();
+      // An unclosed fence runs to the end of the message
+      const code: string[] = [];
+      for (i++; i < lines.length && !/^\s*```\s*$/.test(lines[i]); i++) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: "code_block", language: fence[1] || null, text: code.join("\n") });
+      continue;
+    }
+
+    const item = /^\s*(?:([-*+])|\d{1,9}[.)])\s+(.*)$/.exec(line);
+    if (item) {
+      const ordered = !item[1];
+      if (!list || list.ordered !== ordered) {
+        flushParagraph();
+        flushList();
+        list = { ordered, items: [] };
+      }
+      list.items.push(item[2]);
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flushParagraph();
+      flushList();
+      continue;
+    }
+
+    flushList();
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  flushList();
+  return blocks;
+}
+
+// Usernames @mentioned anywhere in the message, lowercased and without duplicates
+export function collectMentions(ast: MessageAst): string[] {
+  const usernames = new Set<string>();
+  const visit = (nodes: InlineNode[]) => {
+    for (const node of nodes) {
+      if (node.type === "mention") usernames.add(node.username.toLowerCase());
+      else if (node.type === "bold" || node.type === "italic") visit(node.children);
+    }
+  };
+  for (const block of ast) {
+    if (block.type === "paragraph") visit(block.children);
+    else if (block.type === "list") block.items.forEach(visit);
+  }
+  return Array.from(usernames);
+}
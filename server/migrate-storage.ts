@@ -0,0 +1,31 @@
+// Moves uploaded files into the storage driver configured in config.json and
+// points the database at their storage keys; see migrateStoredFiles. Safe to
+// run again, including after an interrupted run.
+//
+//   npm run storage:migrate
+//   npm run storage:migrate -- --dry-run    only list what would move
+import fs from "fs/promises";
+import path from "path";
+import { createBlobDriver, createLocalBlobDriver } from "./blobs";
+import { migrateStoredFiles } from "./file-migration";
+
+async function migrateStorage() {
+  const dryRun = process.argv.includes("--dry-run");
+  const config = JSON.parse(await fs.readFile(path.join(process.cwd(), "config.json"), "utf-8"));
+  const target = createBlobDriver(config);
+  console.log(`Moving uploaded files into ${target.name} storage${dryRun ? " (dry run)" : ""}`);
+
+  const { moved, inPlace, missing } = await migrateStoredFiles(target, createLocalBlobDriver(config), {
+    dryRun,
+    log: (line) => console.log(line),
+  });
+  console.log(`${dryRun ? "Would move" : "Moved"} ${moved} file(s); ${inPlace} already in place, ${missing} missing`);
+}
+
+migrateStorage().then(
+  () => process.exit(0),
+  (error) => {
+    console.error("Storage migration failed:", error);
+    process.exit(1);
+  }
+);
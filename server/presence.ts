@@ -0,0 +1,94 @@
+import type { User } from "@shared/schema";
+import { broadcast, broadcastToRoom, type WebSocketClient } from "./realtime";
+
+// A typing indicator clears itself if the client stops refreshing it
+// (closed tab, lost connection) without sending typing_stop
+export const TYPING_TIMEOUT_MS = 6000;
+
+export interface PresenceEntry {
+  userId: string;
+  username: string;
+  onlineSince: Date;
+}
+
+// Open connections per user. A user stays online while any of their tabs is connected.
+const connections = new Map<string, Set<WebSocketClient>>();
+const onlineUsers = new Map<string, PresenceEntry>();
+
+// Pending typing timeouts keyed by room and user
+const typingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const typingKey = (roomId: string, userId: string) => `${roomId}:${userId}`;
+
+export function addConnection(client: WebSocketClient) {
+  if (!client.user) return;
+  const user = client.user;
+
+  if (!connections.has(user.id)) {
+    connections.set(user.id, new Set());
+  }
+  const userConnections = connections.get(user.id)!;
+  userConnections.add(client);
+
+  if (userConnections.size === 1) {
+    onlineUsers.set(user.id, { userId: user.id, username: user.username, onlineSince: new Date() });
+    broadcast({ type: "presence_changed", userId: user.id, username: user.username, online: true });
+  }
+}
+
+export function removeConnection(client: WebSocketClient) {
+  if (!client.user) return;
+  const user = client.user;
+
+  if (client.roomId) {
+    stopTyping(user, client.roomId);
+  }
+
+  const userConnections = connections.get(user.id);
+  if (!userConnections) return;
+  userConnections.delete(client);
+
+  if (userConnections.size === 0) {
+    connections.delete(user.id);
+    onlineUsers.delete(user.id);
+    broadcast({
+      type: "presence_changed",
+      userId: user.id,
+      username: user.username,
+      online: false,
+      lastSeenAt: new Date(),
+    });
+  }
+}
+
+export function isOnline(userId: string): boolean {
+  return onlineUsers.has(userId);
+}
+
+export function getOnlineUsers(): PresenceEntry[] {
+  return Array.from(onlineUsers.values());
+}
+
+// Announces typing_start once and then just pushes the timeout back on each refresh
+export function startTyping(user: User, roomId: string) {
+  const key = typingKey(roomId, user.id);
+  const existing = typingTimers.get(key);
+  if (existing) {
+    clearTimeout(existing);
+  }
+  typingTimers.set(key, setTimeout(() => stopTyping(user, roomId), TYPING_TIMEOUT_MS));
+
+  if (!existing) {
+    broadcastToRoom(roomId, { type: "typing_start", roomId, userId: user.id, username: user.username });
+  }
+}
+
+export function stopTyping(user: User, roomId: string) {
+  const key = typingKey(roomId, user.id);
+  const timer = typingTimers.get(key);
+  if (!timer) return;
+
+  clearTimeout(timer);
+  typingTimers.delete(key);
+  broadcastToRoom(roomId, { type: "typing_stop", roomId, userId: user.id, username: user.username });
+}
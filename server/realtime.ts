@@ -0,0 +1,129 @@
+import { WebSocket } from "ws";
+import type { User } from "@shared/schema";
+
+export interface WebSocketClient extends WebSocket {
+  userId?: string;
+  user?: User;
+  roomId?: string;
+  watchedNotifications?: Set<string>;
+}
+
+export type WsErrorCode = "UNAUTHENTICATED" | "FORBIDDEN" | "NOT_FOUND" | "BAD_REQUEST" | "INTERNAL";
+
+// Store all connected WebSocket clients for broadcasting
+export const allClients = new Set<WebSocketClient>();
+
+// Clients currently joined to each chat room
+export const roomClients = new Map<string, Set<WebSocketClient>>();
+
+export function sendToClient(client: WebSocketClient, payload: unknown) {
+  if (client.readyState === WebSocket.OPEN) {
+    client.send(JSON.stringify(payload));
+  }
+}
+
+export function sendError(client: WebSocketClient, code: WsErrorCode, message: string, requestType?: string) {
+  sendToClient(client, { type: "error", code, message, requestType });
+}
+
+export function joinRoom(client: WebSocketClient, roomId: string) {
+  leaveRoom(client);
+  client.roomId = roomId;
+  if (!roomClients.has(roomId)) {
+    roomClients.set(roomId, new Set());
+  }
+  roomClients.get(roomId)!.add(client);
+}
+
+export function leaveRoom(client: WebSocketClient) {
+  if (!client.roomId) return;
+  const clients = roomClients.get(client.roomId);
+  if (clients) {
+    clients.delete(client);
+    if (clients.size === 0) {
+      roomClients.delete(client.roomId);
+    }
+  }
+  client.roomId = undefined;
+}
+
+// Clients with a notification's comments open
+export const notificationWatchers = new Map<string, Set<WebSocketClient>>();
+
+export function watchNotification(client: WebSocketClient, notificationId: string) {
+  if (!notificationWatchers.has(notificationId)) {
+    notificationWatchers.set(notificationId, new Set());
+  }
+  notificationWatchers.get(notificationId)!.add(client);
+  (client.watchedNotifications ??= new Set()).add(notificationId);
+}
+
+export function unwatchNotification(client: WebSocketClient, notificationId?: string) {
+  const ids = notificationId ? [notificationId] : Array.from(client.watchedNotifications ?? []);
+  for (const id of ids) {
+    const watchers = notificationWatchers.get(id);
+    if (watchers) {
+      watchers.delete(client);
+      if (watchers.size === 0) {
+        notificationWatchers.delete(id);
+      }
+    }
+    client.watchedNotifications?.delete(id);
+  }
+}
+
+export function broadcastToRoom(roomId: string, payload: unknown) {
+  roomClients.get(roomId)?.forEach((client) => sendToClient(client, payload));
+}
+
+// Send to every connected client whose user passes the filter
+export function broadcast(payload: unknown, filter?: (user: User) => boolean) {
+  allClients.forEach((client) => {
+    if (!client.user) return;
+    if (filter && !filter(client.user)) return;
+    sendToClient(client, payload);
+  });
+}
+
+// Builds the payload per recipient, for data that differs by viewer; returning
+// undefined skips that client
+export function broadcastEach(
+  build: (user: User) => unknown,
+  clients: Iterable<WebSocketClient> = allClients
+) {
+  for (const client of Array.from(clients)) {
+    if (!client.user) continue;
+    const payload = build(client.user);
+    if (payload !== undefined) {
+      sendToClient(client, payload);
+    }
+  }
+}
+
+// Send to every open connection (all tabs) of one user
+export function sendToUser(userId: string, payload: unknown) {
+  allClients.forEach((client) => {
+    if (client.userId === userId) {
+      sendToClient(client, payload);
+    }
+  });
+}
+
+// Swaps a user's latest record into all their open connections, so broadcast
+// filters see role, department and mute changes without a reconnect
+export function refreshUser(user: User) {
+  allClients.forEach((client) => {
+    if (client.userId === user.id) {
+      client.user = user;
+    }
+  });
+}
+
+// Closes every open connection (all tabs) of one user
+export function disconnectUser(userId: string, code: number, reason: string) {
+  allClients.forEach((client) => {
+    if (client.userId === userId) {
+      client.close(code, reason);
+    }
+  });
+}
@@ -1,29 +1,100 @@
-import type { Express, Request, Response } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, type WebSocket as WSWebSocket, WebSocket } from "ws";
+import { WebSocketServer } from "ws";
 import session from "express-session";
 import memorystore from "memorystore";
 import connectPgSimple from "connect-pg-simple";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { db } from "./db";
-import { users, notifications, rooms, messages, pushSubscriptions } from "../shared/schema";
+import { users, notifications, rooms, messages, pushSubscriptions, messageFormattingSchema } from "../shared/schema";
 import { eq, desc, and, or, inArray, sql, not } from "drizzle-orm";
 import { hashPassword, verifyPassword } from "./auth";
 import multer from "multer";
 import { sendBackupToTelegram } from "./telegram";
-import { sendPushNotification } from './webpush';
+import { sendPushNotification, subscribeToPush } from './webpush';
 import path from 'path';
 import pg from 'pg';
 
-import { storage } from "./storage";
-import { registerStudent, loginUser, isAuthorized, canAccessDepartment } from "./auth";
+import { storage, type MessageCursor } from "./storage";
+import {
+  registerStudent,
+  loginUser,
+  isAuthorized,
+  canAccessDepartment,
+  canAccessRoom,
+  canDirectMessage,
+  canDiscoverRoom,
+  canJoinRoom,
+  canModerateRoom,
+  canMentionGroups,
+  getPostingRestriction,
+  isMembershipRoom,
+  isPrivateRoom,
+  canViewNotification,
+  canManageNotification,
+  canModerateNotificationComments,
+  canAccessDocument,
+  canManageDocumentFolders,
+  canModerateMessage,
+  canModerateReports,
+  getAccountMuteRestriction,
+  getAccountLock,
+  AccountLockedError,
+  type AccountLock,
+} from "./auth";
 import { initializeSystem } from "./init";
 import { logger } from "./logger";
+import { collectMentions, parseMarkdown } from "./markdown";
 import fs from "fs/promises";
 import cron from "node-cron";
-import type { User } from "@shared/schema";
-import { registerAIRoutes } from "./ai";
+import type {
+  User,
+  Message,
+  Room,
+  RoomMember,
+  Notification,
+  InsertNotification,
+  InsertRoom,
+  MentionKind,
+  MessageRevision,
+  InsertMessageRevision,
+  MessageRevisionAction,
+  Document,
+  DocumentVersion,
+  DocumentVisibility,
+  Report,
+  ReportTargetType,
+  ReportReason,
+  ReportResolution,
+  NotificationComment,
+  ReactionSummary,
+  ReactionTargetType,
+} from "@shared/schema";
+import { MAX_MESSAGE_LENGTH, type MessageAst } from "@shared/markdown";
+import { registerAIRoutes, sendToCustomAI } from "./ai";
+import {
+  allClients,
+  roomClients,
+  broadcast,
+  broadcastEach,
+  broadcastToRoom,
+  joinRoom,
+  leaveRoom,
+  notificationWatchers,
+  watchNotification,
+  unwatchNotification,
+  sendError,
+  sendToClient,
+  sendToUser,
+  disconnectUser,
+  refreshUser,
+  type WebSocketClient,
+} from "./realtime";
+import { addConnection, removeConnection, getOnlineUsers, startTyping, stopTyping } from "./presence";
+import { parseUploadSettings, validateUpload, getUserQuota, largestUploadBytes, formatMegabytes } from "./uploads";
+import { initializeBlobStorage, getBlobStorage, createLocalBlobDriver, newBlobKey, isBlobKey, parseByteRange, contentTypeFor } from "./blobs";
+import { migrateStoredFiles } from "./file-migration";
 
 declare module "express-session" {
   interface SessionData {
@@ -32,23 +103,14 @@ declare module "express-session" {
   }
 }
 
-const upload = multer({
-  dest: "uploads/",
-  limits: { fileSize: 10 * 1024 * 1024 },
-});
-
-interface WebSocketClient extends WSWebSocket {
-  userId?: string;
-  roomId?: string;
-}
-
-// Store all connected WebSocket clients for broadcasting
-const allClients = new Set<WebSocketClient>();
-
 // Shared helper function to generate admin backup
 async function generateAdminBackup(): Promise<{ backupPath: string; backupData: any }> {
   const users = await storage.getAllUsers();
   const notifications = await storage.getAllNotifications();
+  // Comments are exported in the old inline shape so any backup can be restored
+  const commentsByNotification = new Map(await Promise.all(notifications.map(async (n) =>
+    [n.id, await storage.getNotificationComments(n.id)] as const
+  )));
 
   const backupData = {
     backupCreated: true,
@@ -70,7 +132,20 @@ async function generateAdminBackup(): Promise<{ backupPath: string; backupData:
       postedBy: n.postedBy,
       targetDepartmentName: n.targetDepartmentName,
       reactions: n.reactions,
-      comments: n.comments,
+      comments: (commentsByNotification.get(n.id) ?? [])
+        .filter(c => !c.deletedAt)
+        .map(c => ({
+          id: c.id,
+          parentId: c.parentId,
+          author: c.authorName,
+          content: c.content,
+          edited: c.edited,
+          hidden: !!c.hiddenAt,
+          timestamp: c.createdAt.toISOString(),
+        })),
+      status: n.status,
+      publishAt: n.publishAt,
+      expiresAt: n.expiresAt,
       createdAt: n.createdAt,
     })),
   };
@@ -81,875 +156,3768 @@ async function generateAdminBackup(): Promise<{ backupPath: string; backupData:
   return { backupPath, backupData };
 }
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  await initializeSystem();
+const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+const MAX_MESSAGE_PAGE_SIZE = 100;
 
-  const configPath = path.join(process.cwd(), "config.json");
-  const configData = await fs.readFile(configPath, "utf-8");
-  const config = JSON.parse(configData);
-  const sessionTimeoutMinutes = config.app?.session_timeout_minutes || 480;
-  const sessionTimeout = sessionTimeoutMinutes * 60 * 1000;
+// Cursors are "<createdAt ms>_<message id>"; clients treat them as opaque strings
+function encodeMessageCursor(message: Message): string {
+  return `${message.createdAt.getTime()}_${message.id}`;
+}
 
-  const MemoryStore = memorystore(session);
-  const PgSession = connectPgSimple(session);
+function decodeMessageCursor(cursor: string): MessageCursor | null {
+  const separator = cursor.indexOf("_");
+  const createdAt = Number(cursor.slice(0, separator));
+  const id = cursor.slice(separator + 1);
+  if (separator <= 0 || !Number.isFinite(createdAt) || !id) {
+    return null;
+  }
+  return { createdAt: new Date(createdAt), id };
+}
 
-  // Use PostgreSQL session store in production if DATABASE_URL is available, otherwise use MemoryStore
-  const sessionStore = process.env.DATABASE_URL
-    ? new PgSession({
-        pool: new pg.Pool({
-          connectionString: process.env.DATABASE_URL,
-        }),
-        tableName: 'session',
-        createTableIfMissing: true,
-      })
-    : new MemoryStore({
-        checkPeriod: 86400000, // prune expired entries every 24h
-      });
+function parsePageSize(value: unknown): number {
+  const size = parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(size) || size <= 0) return DEFAULT_MESSAGE_PAGE_SIZE;
+  return Math.min(size, MAX_MESSAGE_PAGE_SIZE);
+}
+
+const MAX_REACTION_LENGTH = 16;
+
+// Accepts a short emoji/reaction key such as "heart" or "👍"
+function parseReactionEmoji(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const emoji = value.trim();
+  if (!emoji || emoji.length > MAX_REACTION_LENGTH) return null;
+  return emoji;
+}
 
-  app.use(
-    session({
-      secret: process.env.SESSION_SECRET || "ciesa-faculty-portal-secret-key-change-in-production",
-      resave: false,
-      saveUninitialized: false,
-      cookie: {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
-        maxAge: sessionTimeout,
+// Swaps the legacy reaction counters for per-user summaries as seen by the viewer
+async function withReactions<T extends { id: string }>(
+  targetType: ReactionTargetType,
+  items: T[],
+  viewerId: string
+): Promise<Array<Omit<T, "reactions"> & { reactions: ReactionSummary[] }>> {
+  const summaries = await storage.getReactionSummaries(targetType, items.map((item) => item.id), viewerId);
+  return items.map((item) => ({ ...item, reactions: summaries[item.id] ?? [] }));
+}
+
+// reactedByMe depends on who receives the summary
+function reactionsFor(summaries: ReactionSummary[], user: User): ReactionSummary[] {
+  return summaries.map((summary) => ({ ...summary, reactedByMe: summary.users.includes(user.username) }));
+}
+
+// Loads one page of a room's history, oldest first, plus the cursor for the page before it
+async function loadMessagePage(roomId: string, viewerId: string, limit: number, before?: MessageCursor) {
+  const rows = await storage.getMessagesByRoom(roomId, limit + 1, before);
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const oldest = page[page.length - 1];
+
+  return {
+    messages: await withReactions("message", page.reverse(), viewerId),
+    nextCursor: hasMore && oldest ? encodeMessageCursor(oldest) : null,
+    hasMore,
+  };
+}
+
+// Member ids for dm, group and custom rooms, which canAccessRoom needs to decide access
+async function loadRoomMemberIds(room: Room): Promise<string[] | undefined> {
+  return isMembershipRoom(room) ? await storage.getRoomMemberIds(room.id) : undefined;
+}
+
+async function userCanAccessRoom(user: User, room: Room): Promise<boolean> {
+  return canAccessRoom(user, room, await loadRoomMemberIds(room));
+}
+
+async function userCanManageNotification(user: User, notification: Notification): Promise<boolean> {
+  return canManageNotification(user, notification, await storage.getUserByUsername(notification.postedBy));
+}
+
+// The user's room_members row, for rooms that have one
+async function loadRoomMembership(room: Room, userId: string): Promise<RoomMember | undefined> {
+  return isMembershipRoom(room) ? await storage.getRoomMember(room.id, userId) : undefined;
+}
+
+// Every room the user can open, with their role where the room has members.
+// Private rooms carry their member list so clients can label DMs by the other person.
+async function getAccessibleRooms(user: User) {
+  const memberships = new Map((await storage.getMembershipsForUser(user.id)).map(member => [member.roomId, member]));
+  const rooms = (await storage.getAllRooms()).filter(room =>
+    canAccessRoom(user, room, memberships.has(room.id) ? [user.id] : [])
+  );
+  const members = await storage.getRoomMembers(rooms.filter(isPrivateRoom).map(room => room.id));
+
+  return rooms.map(room => {
+    const membership = memberships.get(room.id);
+    return {
+      ...room,
+      myRole: membership?.role ?? null,
+      mutedUntil: membership?.mutedUntil ?? null,
+      canModerate: canModerateRoom(user, room, membership),
+      ...(isPrivateRoom(room) ? { members: members[room.id] ?? [] } : {}),
+    };
+  });
+}
+
+// Custom rooms the user isn't in but may join or ask to join
+async function getJoinableRooms(user: User, accessibleIds: Set<string>) {
+  const pending = new Set((await storage.getPendingRequestsForUser(user.id))
+    .filter(request => request.kind === "join")
+    .map(request => request.roomId));
+  return (await storage.getAllRooms())
+    .filter(room => !accessibleIds.has(room.id) && canDiscoverRoom(user, room))
+    .map(room => ({ ...room, joinable: true, joinRequested: pending.has(room.id) }));
+}
+
+// Tells each member of a new membership room about it
+async function announceMemberRoom(room: Room) {
+  const members = (await storage.getRoomMembers([room.id]))[room.id] ?? [];
+  for (const member of members) {
+    sendToUser(member.userId, {
+      type: "new_room",
+      room: {
+        ...room,
+        members: isPrivateRoom(room) ? members : undefined,
+        myRole: member.role,
+        canModerate: member.userRole === "admin" || member.role !== "member",
       },
-      store: sessionStore,
-      proxy: true, // Trust first proxy (Render's load balancer)
-    })
+    });
+  }
+  return { ...room, members: isPrivateRoom(room) ? members : undefined };
+}
+
+// Sends the current member list to everyone in a membership room
+async function announceRoomMembers(room: Room) {
+  const members = (await storage.getRoomMembers([room.id]))[room.id] ?? [];
+  for (const member of members) {
+    sendToUser(member.userId, { type: "room_members_changed", roomId: room.id, members });
+  }
+  return members;
+}
+
+// Takes a user out of a room they no longer belong to, on every tab
+function evictFromRoom(roomId: string, userId: string) {
+  roomClients.get(roomId)?.forEach((client) => {
+    if (client.userId === userId) leaveRoom(client);
+  });
+  sendToUser(userId, { type: "room_removed", roomId });
+}
+
+// Adds the user to a room, e.g. after an accepted invite or approved request
+async function admitToRoom(room: Room, user: User, addedBy: string) {
+  const member = await storage.addRoomMember({ roomId: room.id, userId: user.id, role: "member", addedBy });
+  sendToUser(user.id, { type: "new_room", room: { ...room, myRole: member.role, canModerate: canModerateRoom(user, room, member) } });
+  await announceRoomMembers(room);
+  return member;
+}
+
+// Checks read-only, mute and slow mode before a message is stored. Edits are
+// held to the same rules, apart from slow mode.
+async function getRoomPostingRestriction(user: User, room: Room, action: "post" | "edit" = "post"): Promise<string | null> {
+  // Re-read the account so a mute from the report queue applies to open sockets
+  user = (await storage.getUser(user.id)) ?? user;
+  const member = await loadRoomMembership(room, user.id);
+  const lastPostedAt = action === "post" && room.slowModeSeconds > 0
+    ? await storage.getLastMessageAt(room.id, user.username)
+    : undefined;
+  return getPostingRestriction(user, room, member, lastPostedAt);
+}
+
+const roomRoleRank: Record<string, number> = { member: 1, moderator: 2, owner: 3 };
+
+// Resolves a kick or mute: the actor must moderate the room and outrank the target
+async function loadMemberModeration(roomId: string, actor: User, targetUserId: string):
+  Promise<{ room: Room; target: RoomMember } | { status: number; error: string }> {
+  const room = await storage.getRoom(roomId);
+  if (!room || !isMembershipRoom(room) || room.type === "dm") {
+    return { status: 404, error: "Room not found" };
+  }
+  const actorMember = await storage.getRoomMember(room.id, actor.id);
+  if (!canModerateRoom(actor, room, actorMember)) {
+    return { status: 403, error: "Only room moderators can do that" };
+  }
+  const target = await storage.getRoomMember(room.id, targetUserId);
+  if (!target) {
+    return { status: 404, error: "Member not found" };
+  }
+  if (target.userId === actor.id) {
+    return { status: 400, error: "You cannot moderate yourself" };
+  }
+  const actorRank = actor.role === "admin" ? Infinity : roomRoleRank[actorMember?.role ?? "member"];
+  if (roomRoleRank[target.role] >= actorRank) {
+    return { status: 403, error: "You cannot moderate someone with the same or a higher role" };
+  }
+  return { room, target };
+}
+
+// Delivers a new message to the room, and tells everyone else who can see the
+// room so their unread counters move. Replies go to their thread, not the timeline.
+async function announceNewMessage(room: Room, newMessage: Message) {
+  const message = { ...newMessage, reactions: [] };
+  if (message.replyTo) {
+    broadcastToRoom(room.id, { type: "thread_reply", rootId: message.replyTo, message });
+  } else {
+    broadcastToRoom(room.id, { type: "new_message", message });
+  }
+  const memberIds = await loadRoomMemberIds(room);
+  broadcast(
+    { type: "room_activity", roomId: room.id, messageId: message.id, sender: message.sender },
+    (user) => user.username !== message.sender && canAccessRoom(user, room, memberIds)
   );
+}
 
-  // Scheduled backup system - reads interval from config
-  try {
-    const configPath = path.join(process.cwd(), "config.json");
-    const configData = await fs.readFile(configPath, "utf-8");
-    const config = JSON.parse(configData);
-    const backupIntervalHours = config.system?.backupIntervalHours || 24;
+// Who a new message mentions: named users who can see the room and, for staff
+// senders, everyone reached by @room or @department. Never the sender.
+async function resolveMentions(room: Room, sender: User, ast: MessageAst): Promise<Array<{ user: User; kind: MentionKind }>> {
+  const names = collectMentions(ast);
+  if (names.length === 0) return [];
 
-    // Create cron expression based on interval
-    let cronExpression: string;
-    if (backupIntervalHours < 24) {
-      // For intervals less than 24 hours, run every N hours
-      cronExpression = `0 */${backupIntervalHours} * * *`;
-    } else {
-      // For 24 hours or more, run once per day at midnight
-      cronExpression = "0 0 * * *";
-    }
+  const memberIds = await loadRoomMemberIds(room);
+  const inRoom = (user: User) => user.id !== sender.id && canAccessRoom(user, room, memberIds);
+  const resolved = new Map<string, { user: User; kind: MentionKind }>();
 
-    cron.schedule(cronExpression, async () => {
-      try {
-        logger.info("Running scheduled backup...");
-        console.log("🔄 Running scheduled backup...");
-        const { backupPath } = await generateAdminBackup();
-        await sendBackupToTelegram(backupPath);
-        logger.info("Scheduled backup completed successfully");
-        console.log("✓ Scheduled backup completed");
-      } catch (error) {
-        logger.error("Scheduled backup failed", error);
-        console.error("✗ Scheduled backup failed:", error);
+  // A direct mention wins over a group one for the same person
+  for (const user of (await storage.getUsersByUsernames(names)).filter(inRoom)) {
+    resolved.set(user.id, { user, kind: "user" });
+  }
+  // Only group mentions need everyone who can see the room
+  const groupMention = names.includes("room") || names.includes("department");
+  if (groupMention && canMentionGroups(sender)) {
+    const department = room.departmentName ?? sender.departmentName;
+    for (const user of (await storage.getAllUsers()).filter(inRoom)) {
+      if (resolved.has(user.id)) continue;
+      if (names.includes("room")) {
+        resolved.set(user.id, { user, kind: "room" });
+      } else if (names.includes("department") && user.departmentName === department) {
+        resolved.set(user.id, { user, kind: "department" });
       }
+    }
+  }
+
+  return Array.from(resolved.values());
+}
+
+// Stores a new message's mentions and tells each mentioned user, live and by push
+async function announceMentions(room: Room, sender: User, message: Message) {
+  if (!message.contentAst) return;
+
+  const targets = await resolveMentions(room, sender, message.contentAst);
+  const created = await storage.createMentions(targets.map(({ user, kind }) => ({
+    messageId: message.id,
+    roomId: room.id,
+    userId: user.id,
+    mentionedBy: sender.id,
+    kind,
+    readAt: null,
+  })));
+
+  const where = room.type === "dm" ? "a direct message" : room.name;
+  for (const mention of created) {
+    sendToUser(mention.userId, {
+      type: "mention_created",
+      mention: { ...mention, message: { ...message, reactions: [] }, roomName: room.name, roomType: room.type },
     });
+    try {
+      await sendPushNotification(mention.userId, {
+        title: `${sender.username} mentioned you in ${where}`,
+        body: message.content.slice(0, 200),
+      });
+    } catch (pushError) {
+      logger.error("Failed to send push notification", pushError, { userId: mention.userId });
+    }
+  }
+}
 
-    logger.info(`Scheduled backup configured`, { intervalHours: backupIntervalHours, cronExpression });
-    console.log(`✓ Scheduled backup configured (every ${backupIntervalHours} hours)`);
-  } catch (error) {
-    logger.error("Failed to configure scheduled backup", error);
-    console.error("✗ Failed to configure scheduled backup:", error);
+// A room's pins as clients show them, newest first, with who pinned each
+async function loadPins(roomId: string) {
+  const pins = await storage.getPinnedMessages(roomId);
+  const names = new Map<string, string>();
+  for (const pin of pins) {
+    if (!names.has(pin.pinnedBy)) {
+      names.set(pin.pinnedBy, (await storage.getUser(pin.pinnedBy))?.username ?? "Unknown");
+    }
   }
+  return pins.map(pin => ({ ...pin, pinnedByName: names.get(pin.pinnedBy)! }));
+}
 
-  cron.schedule("0 * * * *", async () => {
-    try {
-      logger.debug("Running cleanup job for expired images and documents");
-      const expiredImages = await storage.getExpiredImages();
-      for (const msg of expiredImages) {
-        if (msg.imageUrl) {
-          try {
-            await fs.unlink(msg.imageUrl);
-            await storage.updateMessage(msg.id, { imageUrl: null, imageExpiry: null });
-            logger.debug(`Deleted expired image`, { messageId: msg.id, imageUrl: msg.imageUrl });
-          } catch (err) {
-            logger.warn("Failed to delete expired image", err, { messageId: msg.id });
-            console.error("Error deleting expired image:", err);
-          }
-        }
-      }
+// Drops a message from its room's pins, e.g. once it is deleted or its image expires
+async function releasePin(messageId: string) {
+  const removed = await storage.unpinMessage(messageId);
+  if (removed) {
+    broadcastToRoom(removed.roomId, { type: "message_unpinned", roomId: removed.roomId, messageId });
+  }
+  return removed;
+}
 
-      const expiredDocs = await storage.getExpiredDocuments();
-      for (const doc of expiredDocs) {
-        try {
-          await fs.unlink(doc.path);
-          await storage.deleteDocument(doc.id);
-          logger.debug(`Deleted expired document`, { docId: doc.id, path: doc.path });
-        } catch (err) {
-          logger.warn("Failed to delete expired document", err, { docId: doc.id });
-          console.error("Error deleting expired document:", err);
-        }
-      }
-      logger.debug("Cleanup job completed", { expiredImages: expiredImages.length, expiredDocs: expiredDocs.length });
-    } catch (error) {
-      logger.error("Cleanup job failed", error);
-      console.error("Cleanup job error:", error);
+// Keeps what a message said before an edit or deletion, for the admin history view
+async function recordRevision(msg: Message, action: MessageRevisionAction, actorId: string) {
+  return await storage.createMessageRevision({
+    messageId: msg.id,
+    roomId: msg.roomId,
+    action,
+    actorId,
+    content: msg.content,
+    contentAst: msg.contentAst,
+    formatting: msg.formatting as InsertMessageRevision["formatting"],
+    imageUrl: msg.imageUrl,
+  });
+}
+
+// Revisions as the admin history view shows them, with who made each change,
+// the message's author and the room it was posted in
+async function describeRevisions(revisions: MessageRevision[]) {
+  const actors = new Map<string, string>();
+  const messages = new Map<string, Message | undefined>();
+  const rooms = new Map<string, Room | undefined>();
+  for (const revision of revisions) {
+    if (!actors.has(revision.actorId)) {
+      actors.set(revision.actorId, (await storage.getUser(revision.actorId))?.username ?? "Unknown");
+    }
+    if (!messages.has(revision.messageId)) {
+      messages.set(revision.messageId, await storage.getMessage(revision.messageId));
     }
+    if (!rooms.has(revision.roomId)) {
+      rooms.set(revision.roomId, await storage.getRoom(revision.roomId));
+    }
+  }
+  return revisions.map(revision => {
+    const room = rooms.get(revision.roomId);
+    return {
+      ...revision,
+      actorName: actors.get(revision.actorId)!,
+      sender: messages.get(revision.messageId)?.sender ?? null,
+      roomName: room?.name ?? null,
+      roomType: room?.type ?? null,
+    };
   });
+}
 
-  app.post("/api/auth/signup", async (req: Request, res: Response) => {
-    try {
-      const { username, password, phone, regNumber, departmentName } = req.body;
+// Soft-deletes a message for its author or a moderator, keeping what it said as a revision
+async function removeMessage(room: Room, msg: Message, actorId: string) {
+  await recordRevision(msg, "delete", actorId);
+  const placeholder = await storage.softDeleteMessage(msg.id, actorId);
+  await storage.deleteReactionsForTarget("message", msg.id);
+  await releasePin(msg.id);
+  broadcastToRoom(room.id, {
+    type: "message_deleted",
+    messageId: msg.id,
+    placeholder: placeholder && { ...placeholder, reactions: [] },
+  });
+}
 
-      if (!username || !password || !phone || !regNumber || !departmentName) {
-        return res.status(400).json({ error: "All fields are required" });
-      }
+// Withholds a reported message; unlike a deletion it is never purged
+async function hideMessage(room: Room, msg: Message, actorId: string) {
+  await recordRevision(msg, "hide", actorId);
+  const placeholder = await storage.updateMessage(msg.id, {
+    content: "",
+    contentAst: null,
+    formatting: null,
+    imageUrl: null,
+    imageExpiry: null,
+    hiddenAt: new Date(),
+    hiddenBy: actorId,
+  });
+  await storage.deleteReactionsForTarget("message", msg.id);
+  await releasePin(msg.id);
+  broadcastToRoom(room.id, {
+    type: "message_hidden",
+    messageId: msg.id,
+    placeholder: placeholder && { ...placeholder, reactions: [] },
+  });
+}
 
-      const user = await registerStudent({
-        username,
-        password,
-        phone,
-        regNumber,
-        departmentName,
-      });
+function announceThreadUpdate(room: Room, root: Message) {
+  broadcastToRoom(room.id, {
+    type: "thread_updated",
+    rootId: root.id,
+    replyCount: root.replyCount,
+    lastReplyAt: root.lastReplyAt,
+  });
+}
 
-      const { password: _, ...userWithoutPassword } = user;
-      req.session.user = userWithoutPassword as User;
-      req.session.userId = user.id; // Store userId in session
+// Checks publishAt/expiresAt from a request body. Empty values clear the date.
+function parseNotificationSchedule(body: any): { publishAt?: Date | null; expiresAt?: Date | null; error?: string } {
+  const result: { publishAt?: Date | null; expiresAt?: Date | null; error?: string } = {};
 
-      // Update local backup file immediately (without sending to Telegram)
-      try {
-        await generateAdminBackup();
-        console.log("✓ Local backup updated after signup");
-      } catch (error) {
-        console.error("✗ Local backup update failed after signup:", error);
-      }
+  for (const field of ["publishAt", "expiresAt"] as const) {
+    if (body[field] === undefined) continue;
+    if (body[field] === null || body[field] === "") {
+      result[field] = null;
+      continue;
+    }
+    const date = new Date(body[field]);
+    if (isNaN(date.getTime())) {
+      return { error: `${field} must be a valid date` };
+    }
+    result[field] = date;
+  }
 
-      res.json({ user: userWithoutPassword });
-    } catch (error: any) {
-      res.status(400).json({ error: error.message });
+  return result;
+}
+
+// Notification fields shared by every viewer. The legacy inline reactions and
+// comments columns are left out; both are served per viewer elsewhere.
+function notificationPayload({ comments, reactions, ...notification }: Notification) {
+  return notification;
+}
+
+const MAX_RETENTION_DAYS = 3650;
+
+// Checks joinPolicy/readOnly/slowModeSeconds/retention from a request body; absent fields are left alone
+function parseRoomSettings(body: any): { values: Partial<InsertRoom>; error?: string } {
+  const values: Partial<InsertRoom> = {};
+
+  if (body.joinPolicy !== undefined) {
+    if (!["open", "request", "invite"].includes(body.joinPolicy)) {
+      return { values, error: "joinPolicy must be open, request or invite" };
     }
-  });
+    values.joinPolicy = body.joinPolicy;
+  }
+  if (body.readOnly !== undefined) {
+    values.readOnly = !!body.readOnly;
+  }
+  if (body.slowModeSeconds !== undefined) {
+    const seconds = Number(body.slowModeSeconds);
+    if (!Number.isInteger(seconds) || seconds < 0 || seconds > 3600) {
+      return { values, error: "slowModeSeconds must be a whole number between 0 and 3600" };
+    }
+    values.slowModeSeconds = seconds;
+  }
+  if (body.retentionPolicy !== undefined) {
+    if (!["forever", "days", "semester"].includes(body.retentionPolicy)) {
+      return { values, error: "retentionPolicy must be forever, days or semester" };
+    }
+    values.retentionPolicy = body.retentionPolicy;
+    values.retentionDays = null;
+    if (body.retentionPolicy === "days") {
+      const days = Number(body.retentionDays);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_RETENTION_DAYS) {
+        return { values, error: `retentionDays must be a whole number between 1 and ${MAX_RETENTION_DAYS}` };
+      }
+      values.retentionDays = days;
+    }
+  }
 
-  app.post("/api/auth/login", async (req: Request, res: Response) => {
+  return { values };
+}
+
+// Messages posted before the returned date are past the room's retention
+// period; null when the room keeps everything. A semester ends at the close of
+// its end date, and messages go once the semester they were posted in is over.
+function getRetentionCutoff(room: Room, semesterEnds: Date[], now: Date = new Date()): Date | null {
+  if (room.retentionPolicy === "days" && room.retentionDays) {
+    return new Date(now.getTime() - room.retentionDays * 24 * 60 * 60 * 1000);
+  }
+  if (room.retentionPolicy === "semester") {
+    const ended = semesterEnds.filter(end => end <= now);
+    return ended.length > 0 ? ended[ended.length - 1] : null;
+  }
+  return null;
+}
+
+// Removes a message for good, with its revision history and any image it had in storage
+async function purgeMessage(msg: Message) {
+  const revisions = await storage.getMessageRevisions(msg.id);
+  const imageKeys = new Set([msg.imageUrl, ...revisions.map(r => r.imageUrl)].filter((url): url is string => !!url));
+  for (const imageKey of Array.from(imageKeys)) {
+    await getBlobStorage().delete(imageKey).catch((err) => {
+      logger.warn("Failed to delete purged image", { messageId: msg.id, error: err.message });
+    });
+  }
+  await storage.deleteReactionsForTarget("message", msg.id);
+  await storage.deleteMessage(msg.id);
+}
+
+const documentVisibilities: DocumentVisibility[] = ["department", "departments", "faculty", "governors"];
+
+// Checks visibility/visibleDepartments from an upload form. visibleDepartments
+// comes as a JSON array, or a comma separated list, of department names.
+async function parseDocumentVisibility(body: any): Promise<{
+  values: { visibility: DocumentVisibility; visibleDepartments: string[] | null };
+  error?: string;
+}> {
+  const visibility = body.visibility || "department";
+  const values = { visibility, visibleDepartments: null as string[] | null };
+  if (!documentVisibilities.includes(visibility)) {
+    return { values, error: "visibility must be department, departments, faculty or governors" };
+  }
+  if (visibility !== "departments") return { values };
+
+  let requested: unknown = body.visibleDepartments;
+  if (typeof requested === "string") {
+    const list = requested;
     try {
-      const { username, password } = req.body;
+      requested = JSON.parse(list);
+    } catch {
+      requested = list.split(",").map((name) => name.trim()).filter(Boolean);
+    }
+  }
+  if (!Array.isArray(requested) || requested.length === 0) {
+    return { values, error: "Choose at least one department to share with" };
+  }
+  const known = new Set((await storage.getAllDepartments()).map(department => department.name));
+  const names = Array.from(new Set(requested.map(String)));
+  const unknown = names.find(name => !known.has(name));
+  if (unknown) {
+    return { values, error: `Unknown department: ${unknown}` };
+  }
+  values.visibleDepartments = names;
+  return { values };
+}
 
-      if (!username || !password) {
-        return res.status(400).json({ error: "Username and password are required" });
-      }
+const MAX_VERSION_NOTE_LENGTH = 500;
 
-      const user = await loginUser(username, password);
-      const { password: _, ...userWithoutPassword } = user;
-      req.session.user = userWithoutPassword as User;
-      req.session.userId = user.id; // Store userId in session
+function parseVersionNote(body: any): { note: string | null; error?: string } {
+  const note = typeof body.note === "string" && body.note.trim() ? body.note.trim() : null;
+  if (note && note.length > MAX_VERSION_NOTE_LENGTH) {
+    return { note, error: `Version notes are limited to ${MAX_VERSION_NOTE_LENGTH} characters` };
+  }
+  return { note };
+}
 
-      res.json({ user: userWithoutPassword });
-    } catch (error: any) {
-      res.status(401).json({ error: error.message });
+// A document's versions, newest first. Documents uploaded before versioning
+// get their file recorded as the first version the first time it is needed.
+async function loadDocumentVersions(document: Document): Promise<DocumentVersion[]> {
+  const versions = await storage.getDocumentVersions(document.id);
+  if (versions.length > 0) return versions;
+  return [await storage.createDocumentVersion({
+    documentId: document.id,
+    version: document.version,
+    name: document.name,
+    path: document.path,
+    fileType: document.fileType,
+    size: document.size,
+    uploadedBy: document.owner,
+    note: null,
+  })];
+}
+
+// Types browsers render inline; anything else is only offered as a download
+const previewableExtensions = new Set(['.pdf', '.txt', '.png', '.jpg', '.jpeg']);
+
+// Streams a stored file, or the single byte range the Range header asks for,
+// whichever storage driver holds it
+async function sendStoredFile(
+  req: Request,
+  res: Response,
+  key: string,
+  headers: Record<string, string>,
+  disposition?: { type: "attachment" | "inline"; filename: string }
+) {
+  const blobs = getBlobStorage();
+  const stat = await blobs.stat(key);
+  if (!stat) {
+    return res.status(404).json({ error: "File not found" });
+  }
+
+  if (disposition) {
+    // res.attachment() quotes the user's file name safely and adds filename* for non-ASCII names
+    res.attachment(disposition.filename);
+    if (disposition.type === "inline") {
+      res.set('Content-Disposition', res.get('Content-Disposition')!.replace(/^attachment/, 'inline'));
     }
+  }
+  res.set({ ...headers, 'Accept-Ranges': 'bytes' });
+  const range = parseByteRange(req.headers.range, stat.size);
+  if (range === "unsatisfiable") {
+    res.set('Content-Range', `bytes */${stat.size}`);
+    return res.status(416).json({ error: "Requested range not satisfiable" });
+  }
+  if (range) {
+    res.status(206).set({
+      'Content-Range': `bytes ${range.start}-${range.end}/${stat.size}`,
+      'Content-Length': String(range.end - range.start + 1),
+    });
+  } else {
+    res.set('Content-Length', String(stat.size));
+  }
+
+  const body = await blobs.open(key, range ?? undefined);
+  body.on("error", (err) => {
+    logger.error("Failed to stream stored file", err, { key });
+    res.destroy(err);
   });
+  body.pipe(res);
+}
+
+// The file to send for a download or preview: the latest version unless
+// ?version= asks for an older one
+async function resolveDocumentFile(document: Document, versionParam: unknown): Promise<
+  { file: { name: string; path: string; version: number } } | { status: number; error: string }
+> {
+  if (versionParam === undefined || versionParam === "") return { file: document };
+  const requested = Number(versionParam);
+  if (!Number.isInteger(requested) || requested < 1) {
+    return { status: 400, error: "version must be a positive whole number" };
+  }
+  if (requested === document.version) return { file: document };
+  const older = await storage.getDocumentVersion(document.id, requested);
+  if (!older) {
+    return { status: 404, error: "Version not found" };
+  }
+  return { file: older };
+}
+
+// Tells everyone who downloaded an earlier version that their copy is out of date
+async function announceDocumentVersion(document: Document, version: DocumentVersion) {
+  for (const download of await storage.getDocumentDownloads(document.id)) {
+    if (download.version >= version.version) continue;
+    const user = await storage.getUser(download.userId);
+    if (!user || user.username === version.uploadedBy || !canAccessDocument(user, document)) continue;
+
+    sendToUser(user.id, {
+      type: "document_version_added",
+      documentId: document.id,
+      name: document.name,
+      version: version.version,
+      downloadedVersion: download.version,
+      uploadedBy: version.uploadedBy,
+      note: version.note,
+    });
+    try {
+      await sendPushNotification(user.id, {
+        title: `${document.name} has a new version`,
+        body: version.note ?? `You downloaded version ${download.version}; version ${version.version} is now available.`,
+      });
+    } catch (pushError) {
+      logger.error("Failed to send push notification", pushError, { userId: user.id });
+    }
+  }
+}
+
+// Sends a notification that just went live to everyone who can see it: the
+// open dashboards over WebSocket and subscribed devices over Web Push
+async function publishNotification(notification: Notification) {
+  broadcast(
+    {
+      type: "notification_created",
+      notification: { ...notificationPayload(notification), reactions: [], commentCount: 0, isRead: false, acknowledged: false },
+    },
+    (user) => canViewNotification(user, notification)
+  );
+
+  const recipients = (await storage.getAllUsers()).filter((user) =>
+    user.username !== notification.postedBy && canViewNotification(user, notification)
+  );
+  for (const user of recipients) {
+    try {
+      await sendPushNotification(user.id, {
+        title: notification.title,
+        body: notification.content,
+      });
+    } catch (pushError) {
+      logger.error("Failed to send push notification", pushError, { userId: user.id });
+    }
+  }
+}
+
+// Students a notification is addressed to; acknowledgement reports are measured against them
+async function getNotificationAudience(notification: Notification): Promise<User[]> {
+  const allUsers = await storage.getAllUsers();
+  return allUsers.filter((user) => user.role === "student" && canViewNotification(user, notification));
+}
+
+async function buildAckReport(notification: Notification) {
+  const audience = await getNotificationAudience(notification);
+  const acks = await storage.getNotificationAcks(notification.id);
+  const acknowledgedAt = new Map(acks.map((ack) => [ack.userId, ack.acknowledgedAt]));
+
+  const students = audience.map((user) => ({
+    userId: user.id,
+    username: user.username,
+    regNumber: user.regNumber,
+    departmentName: user.departmentName,
+    acknowledgedAt: acknowledgedAt.get(user.id) ?? null,
+  }));
+
+  const departments = new Map<string, { departmentName: string; total: number; acknowledged: number }>();
+  for (const student of students) {
+    const name = student.departmentName || "Unassigned";
+    const entry = departments.get(name) ?? { departmentName: name, total: 0, acknowledged: 0 };
+    entry.total++;
+    if (student.acknowledgedAt) entry.acknowledged++;
+    departments.set(name, entry);
+  }
+
+  return {
+    notificationId: notification.id,
+    title: notification.title,
+    total: students.length,
+    acknowledged: students.filter((student) => student.acknowledgedAt).length,
+    departments: Array.from(departments.values()).sort((a, b) => a.departmentName.localeCompare(b.departmentName)),
+    pending: students.filter((student) => !student.acknowledgedAt),
+    students,
+  };
+}
+
+// Deleted comments stay as placeholders so replies keep their parent; hidden
+// ones are only readable by moderators
+function presentComment(comment: NotificationComment, canModerate: boolean) {
+  const deleted = !!comment.deletedAt;
+  const hidden = !!comment.hiddenAt;
+  return {
+    ...comment,
+    content: deleted || (hidden && !canModerate) ? "" : comment.content,
+    deleted,
+    hidden,
+  };
+}
+
+// Pushes a comment change to everyone who has the notification's comments open
+function announceCommentChange(notification: Notification, action: "created" | "updated", comment: NotificationComment) {
+  broadcastEach(
+    (user) => canViewNotification(user, notification)
+      ? {
+          type: "notification_comment",
+          notificationId: notification.id,
+          action,
+          comment: presentComment(comment, canModerateNotificationComments(user, notification)),
+        }
+      : undefined,
+    notificationWatchers.get(notification.id) ?? []
+  );
+}
+
+// Keeps the comment counter on every open feed in step with the visible comments
+async function announceCommentCount(notification: Notification) {
+  const counts = await storage.getNotificationCommentCounts([notification.id]);
+  broadcast(
+    { type: "notification_commented", notificationId: notification.id, commentCount: counts[notification.id] ?? 0 },
+    (user) => canViewNotification(user, notification)
+  );
+}
+
+const accountActions = ["mute", "unmute", "suspend", "ban", "reinstate"] as const;
+const MAX_SUSPENSION_HOURS = 365 * 24;
+const MAX_ACCOUNT_REASON_LENGTH = 500;
+
+// Body of the 403 sent to a suspended or banned account, over HTTP and WS
+function describeAccountLock(lock: AccountLock) {
+  return {
+    error: lock.message,
+    code: "ACCOUNT_SUSPENDED",
+    accountStatus: lock.status,
+    until: lock.until,
+    reason: lock.reason,
+  };
+}
+
+const reportTargetTypes: ReportTargetType[] = ["message", "comment", "document"];
+const reportReasons: ReportReason[] = ["spam", "harassment", "inappropriate", "other"];
+const reportResolutions: ReportResolution[] = ["dismiss", "hide", "delete", "warn", "mute"];
+const MAX_REPORT_DETAILS_LENGTH = 1000;
+const MAX_MUTE_MINUTES = 30 * 24 * 60;
+
+// Reported content as the queue needs it: who posted it, which department's
+// governor handles it, and the record itself for acting on it
+type ReportTarget = {
+  author: User | undefined;
+  departmentName: string | null;
+  removed: boolean;
+  hidden: boolean;
+} & (
+  | { type: "message"; message: Message; room: Room }
+  | { type: "comment"; comment: NotificationComment; notification: Notification }
+  | { type: "document"; document: Document }
+);
+
+async function loadReportTarget(targetType: ReportTargetType, targetId: string): Promise<ReportTarget | undefined> {
+  if (targetType === "message") {
+    const message = await storage.getMessage(targetId);
+    const room = message && await storage.getRoom(message.roomId);
+    if (!message || !room) return undefined;
+    const author = await storage.getUserByUsername(message.sender);
+    return {
+      type: "message", message, room, author,
+      // Department rooms go to their own governor; anywhere else the author's does
+      departmentName: room.departmentName ?? author?.departmentName ?? null,
+      removed: !!message.deletedAt,
+      hidden: !!message.hiddenAt,
+    };
+  }
+  if (targetType === "comment") {
+    const comment = await storage.getNotificationComment(targetId);
+    const notification = comment && await storage.getNotification(comment.notificationId);
+    if (!comment || !notification) return undefined;
+    const author = comment.authorId ? await storage.getUser(comment.authorId) : undefined;
+    return {
+      type: "comment", comment, notification, author,
+      departmentName: author?.departmentName ?? notification.targetDepartmentName,
+      removed: !!comment.deletedAt,
+      hidden: !!comment.hiddenAt,
+    };
+  }
+  const document = await storage.getDocument(targetId);
+  if (!document) return undefined;
+  return {
+    type: "document", document,
+    author: await storage.getUserByUsername(document.owner),
+    departmentName: document.departmentName,
+    removed: false,
+    hidden: !!document.hiddenAt,
+  };
+}
+
+async function canViewReportTarget(user: User, target: ReportTarget): Promise<boolean> {
+  if (target.type === "message") return await userCanAccessRoom(user, target.room);
+  if (target.type === "comment") return canViewNotification(user, target.notification);
+  return canAccessDocument(user, target.document);
+}
+
+// What the queue shows for a target. Hidden and deleted messages have moved
+// their text to the revisions, so the latest one stands in for it.
+async function describeReportTarget(target: ReportTarget) {
+  const base = {
+    authorId: target.author?.id ?? null,
+    authorName: target.author?.username ?? null,
+    authorRole: target.author?.role ?? null,
+    authorMutedUntil: target.author?.mutedUntil ?? null,
+    removed: target.removed,
+    hidden: target.hidden,
+  };
+  if (target.type === "message") {
+    const revisions = target.message.content ? [] : await storage.getMessageRevisions(target.message.id);
+    return {
+      ...base,
+      content: target.message.content || revisions[revisions.length - 1]?.content || "",
+      context: target.room.type === "dm" ? "Direct message" : target.room.name,
+      roomId: target.room.id,
+    };
+  }
+  if (target.type === "comment") {
+    return { ...base, content: target.comment.content, context: target.notification.title, notificationId: target.notification.id };
+  }
+  return { ...base, content: target.document.name, context: "Documents" };
+}
+
+// Removes a document and its file, for its owner, an admin or the report queue
+async function removeDocument(document: Document) {
+  const versions = await storage.getDocumentVersions(document.id);
+  const keys = new Set([document.path, ...versions.map(version => version.path)]);
+  for (const key of Array.from(keys)) {
+    try {
+      await getBlobStorage().delete(key);
+    } catch (err) {
+      console.error("Error deleting file:", err);
+    }
+  }
+  await storage.deleteDocument(document.id);
+}
+
+// Uploaded files are only served to those who can see the document or chat
+// message they belong to; files belonging to neither are not served at all
+async function canAccessUpload(user: User, key: string): Promise<boolean> {
+  if (user.role === "admin") return true;
+
+  const document = await storage.getDocumentByFileKey(key);
+  if (document) return canAccessDocument(user, document);
+
+  const message = await storage.getMessageByImageUrl(key);
+  if (!message || message.deletedAt || message.hiddenAt) return false;
+  if (message.sender === user.username) return true;
+  const room = await storage.getRoom(message.roomId);
+  return !!room && await userCanAccessRoom(user, room);
+}
+
+// Tells whoever handles a department's reports that the queue changed
+function announceReportQueue(type: "report_created" | "report_resolved", report: Report) {
+  broadcast(
+    { type, targetType: report.targetType, targetId: report.targetId },
+    (user) => canModerateReports(user, report.departmentName)
+  );
+}
+
+function toCsv(rows: Array<Array<string | null | undefined>>): string {
+  return rows
+    .map((row) => row.map((cell) => `"${String(cell ?? "").replace(/"/g, '""')}"`).join(","))
+    .join("\r\n");
+}
+
+const SEARCH_SCOPES = ["all", "messages", "notifications", "documents"] as const;
+
+// Turns free text into an FTS5 expression: every word must match, as a prefix
+function buildSearchQuery(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ""))
+    .filter((term) => term.length > 0);
+  if (terms.length === 0) return null;
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+// Browsers send Origin with every WebSocket upgrade, and in production the
+// session cookie is SameSite=None, so without this check any site could open
+// a socket as whoever is signed in. Clients that send no Origin aren't
+// browsers and can't borrow a visitor's cookie.
+function isAllowedWebSocketOrigin(origin: string | undefined, host: string | undefined, allowedOrigins: string[]): boolean {
+  if (!origin) return true;
+  if (allowedOrigins.includes(origin)) return true;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  await initializeSystem();
+
+  const configPath = path.join(process.cwd(), "config.json");
+  const configData = await fs.readFile(configPath, "utf-8");
+  const config = JSON.parse(configData);
+  const sessionTimeoutMinutes = config.app?.session_timeout_minutes || 480;
+  const sessionTimeout = sessionTimeoutMinutes * 60 * 1000;
+  const allowStudentDms = config.chat?.allow_student_dms !== false;
+  const maxGroupMembers = Number(config.chat?.max_group_members) || 12;
+  const maxPinnedMessages = Number(config.chat?.max_pinned_messages) || 10;
+  const deletedMessageRetentionDays = Number(config.chat?.deleted_message_retention_days) || 30;
+  // Last day of each semester, for rooms that keep messages until the semester ends
+  const semesterEnds = (Array.isArray(config.chat?.semester_end_dates) ? config.chat.semester_end_dates : [])
+    .map((date: string) => new Date(new Date(date).getTime() + 24 * 60 * 60 * 1000))
+    .filter((end: Date) => !isNaN(end.getTime()))
+    .sort((a: Date, b: Date) => a.getTime() - b.getTime()) as Date[];
+  const uploadSettings = parseUploadSettings(config);
+  initializeBlobStorage(config);
+  // Uploads saved before storage keys existed are given keys here, so every
+  // read path can count on one. Copying keyed files from local disk into
+  // another driver is left to npm run storage:migrate.
+  try {
+    const legacy = await migrateStoredFiles(getBlobStorage(), createLocalBlobDriver(config), { legacyOnly: true });
+    if (legacy.moved > 0 || legacy.missing > 0) {
+      console.log(`✓ Moved ${legacy.moved} older upload(s) under storage keys, ${legacy.missing} missing from disk`);
+    }
+  } catch (error) {
+    logger.error("Failed to move older uploads under storage keys", error);
+  }
+  // Other sites allowed to open the chat socket, besides the app's own host
+  const allowedOrigins = (process.env.ALLOWED_ORIGINS?.split(",") ?? config.app?.allowed_origins ?? [])
+    .map((origin: string) => origin.trim().replace(/\/+$/, ""))
+    .filter(Boolean) as string[];
+
+  // multer only stages files here; accepted ones are moved into blob storage
+  const upload = multer({
+    dest: "uploads/tmp/",
+    limits: { fileSize: largestUploadBytes(uploadSettings) },
+  });
+
+  // Refuses anonymous uploads before anything reaches the disk, and answers
+  // multer's own errors (file too large, unexpected field) as JSON
+  const acceptUpload = (field: string) => (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    upload.single(field)(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        return err.code === "LIMIT_FILE_SIZE"
+          ? res.status(413).json({ error: `Files are limited to ${formatMegabytes(largestUploadBytes(uploadSettings))}` })
+          : res.status(400).json({ error: err.message });
+      }
+      next(err);
+    });
+  };
+
+  // Null when a library upload fits both the uploader's quota for their role
+  // and the department's, otherwise the reason it doesn't
+  const checkStorageQuota = async (user: User, departmentName: string, bytes: number): Promise<string | null> => {
+    const userQuota = getUserQuota(uploadSettings, user);
+    if (userQuota > 0 && await storage.getDocumentStorageUsage({ uploadedBy: user.username }) + bytes > userQuota) {
+      return `This upload would take you over your ${formatMegabytes(userQuota)} storage quota`;
+    }
+    const departmentQuota = uploadSettings.departmentQuotaBytes;
+    if (departmentQuota > 0 && await storage.getDocumentStorageUsage({ departmentName }) + bytes > departmentQuota) {
+      return `The ${departmentName} library has used its ${formatMegabytes(departmentQuota)} of storage`;
+    }
+    return null;
+  };
+
+  const MemoryStore = memorystore(session);
+  const PgSession = connectPgSimple(session);
+
+  // Use PostgreSQL session store in production if DATABASE_URL is available, otherwise use MemoryStore
+  const sessionStore = process.env.DATABASE_URL
+    ? new PgSession({
+        pool: new pg.Pool({
+          connectionString: process.env.DATABASE_URL,
+        }),
+        tableName: 'session',
+        createTableIfMissing: true,
+      })
+    : new MemoryStore({
+        checkPeriod: 86400000, // prune expired entries every 24h
+      });
+
+  // Kept as a named middleware so the WebSocket upgrade can reuse the same session
+  const sessionParser = session({
+    secret: process.env.SESSION_SECRET || "ciesa-faculty-portal-secret-key-change-in-production",
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
+      maxAge: sessionTimeout,
+    },
+    store: sessionStore,
+    proxy: true, // Trust first proxy (Render's load balancer)
+  });
+  app.use(sessionParser);
+
+  // Suspended and banned accounts lose access straight away rather than at their
+  // next sign-in: every API call re-checks the account behind the session
+  app.use("/api", async (req: Request, res: Response, next) => {
+    const userId = req.session.user?.id ?? req.session.userId;
+    if (!userId) return next();
+    try {
+      const user = await storage.getUser(userId);
+      const lock = user ? getAccountLock(user) : null;
+      if (!lock) return next();
+      req.session.destroy(() => {
+        res.status(403).json(describeAccountLock(lock));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Signs a suspended or banned user out everywhere: open sockets are told why
+  // and closed, and sessions are dropped where the store can list them (the
+  // /api check above catches the rest on their next request)
+  const revokeUserAccess = (userId: string, lock: AccountLock) => {
+    sendToUser(userId, { type: "account_suspended", ...describeAccountLock(lock) });
+    disconnectUser(userId, 4403, "Account suspended");
+    sessionStore.all?.((err, sessions) => {
+      if (err || !sessions || Array.isArray(sessions)) return;
+      for (const [sid, data] of Object.entries(sessions)) {
+        if (data?.userId === userId || data?.user?.id === userId) {
+          sessionStore.destroy(sid);
+        }
+      }
+    });
+  };
+
+  // Scheduled backup system - reads interval from config
+  try {
+    const configPath = path.join(process.cwd(), "config.json");
+    const configData = await fs.readFile(configPath, "utf-8");
+    const config = JSON.parse(configData);
+    const backupIntervalHours = config.system?.backupIntervalHours || 24;
+
+    // Create cron expression based on interval
+    let cronExpression: string;
+    if (backupIntervalHours < 24) {
+      // For intervals less than 24 hours, run every N hours
+      cronExpression = `0 */${backupIntervalHours} * * *`;
+    } else {
+      // For 24 hours or more, run once per day at midnight
+      cronExpression = "0 0 * * *";
+    }
+
+    cron.schedule(cronExpression, async () => {
+      try {
+        logger.info("Running scheduled backup...");
+        console.log("🔄 Running scheduled backup...");
+        const { backupPath } = await generateAdminBackup();
+        await sendBackupToTelegram(backupPath);
+        logger.info("Scheduled backup completed successfully");
+        console.log("✓ Scheduled backup completed");
+      } catch (error) {
+        logger.error("Scheduled backup failed", error);
+        console.error("✗ Scheduled backup failed:", error);
+      }
+    });
+
+    logger.info(`Scheduled backup configured`, { intervalHours: backupIntervalHours, cronExpression });
+    console.log(`✓ Scheduled backup configured (every ${backupIntervalHours} hours)`);
+  } catch (error) {
+    logger.error("Failed to configure scheduled backup", error);
+    console.error("✗ Failed to configure scheduled backup:", error);
+  }
+
+  // Publishes scheduled notifications when their time comes and archives expired ones
+  cron.schedule("* * * * *", async () => {
+    const now = new Date();
+    try {
+      for (const due of await storage.getDueNotifications(now)) {
+        const published = await storage.updateNotification(due.id, { status: "published" });
+        if (!published) continue;
+        logger.info("Published scheduled notification", { notificationId: due.id });
+        await publishNotification(published);
+      }
+
+      for (const expired of await storage.getNotificationsToArchive(now)) {
+        const archived = await storage.updateNotification(expired.id, { status: "archived" });
+        if (!archived) continue;
+        logger.info("Archived expired notification", { notificationId: expired.id });
+        broadcast(
+          { type: "notification_deleted", notificationId: expired.id, reason: "archived" },
+          (user) => canViewNotification(user, expired)
+        );
+      }
+
+      // One reminder push to students who still haven't acknowledged an urgent post.
+      // Posts older than a day past the reminder window are left alone.
+      const reminderHours = Number(config.app?.urgent_ack_reminder_hours) || 0;
+      if (reminderHours > 0) {
+        const publishedBefore = new Date(now.getTime() - reminderHours * 60 * 60 * 1000);
+        const publishedAfter = new Date(publishedBefore.getTime() - 24 * 60 * 60 * 1000);
+        for (const urgent of await storage.getUrgentNotificationsDueForAckReminder(publishedAfter, publishedBefore)) {
+          // Marked first so a failing push doesn't repeat every minute
+          await storage.updateNotification(urgent.id, { ackReminderSentAt: now });
+          const report = await buildAckReport(urgent);
+          for (const student of report.pending) {
+            await sendPushNotification(student.userId, {
+              title: `Reminder: ${urgent.title}`,
+              body: urgent.content,
+            });
+          }
+          logger.info("Sent acknowledgement reminders", { notificationId: urgent.id, pending: report.pending.length });
+        }
+      }
+    } catch (error) {
+      logger.error("Notification scheduler failed", error);
+      console.error("Notification scheduler error:", error);
+    }
+  });
+
+  cron.schedule("0 * * * *", async () => {
+    try {
+      logger.debug("Running cleanup job for expired images and documents");
+      const expiredImages = await storage.getExpiredImages();
+      for (const msg of expiredImages) {
+        if (msg.imageUrl) {
+          try {
+            await getBlobStorage().delete(msg.imageUrl);
+            await storage.updateMessage(msg.id, { imageUrl: null, imageExpiry: null });
+            await releasePin(msg.id);
+            logger.debug(`Deleted expired image`, { messageId: msg.id, imageUrl: msg.imageUrl });
+          } catch (err) {
+            logger.warn("Failed to delete expired image", err, { messageId: msg.id });
+            console.error("Error deleting expired image:", err);
+          }
+        }
+      }
+
+      const expiredDocs = await storage.getExpiredDocuments();
+      for (const doc of expiredDocs) {
+        try {
+          await removeDocument(doc);
+          logger.debug(`Deleted expired document`, { docId: doc.id, path: doc.path });
+        } catch (err) {
+          logger.warn("Failed to delete expired document", err, { docId: doc.id });
+          console.error("Error deleting expired document:", err);
+        }
+      }
+      let expiredMessages = 0;
+      for (const room of await storage.getAllRooms()) {
+        const cutoff = getRetentionCutoff(room, semesterEnds);
+        if (!cutoff) continue;
+        const expired = await storage.getRetentionExpiredMessages(room.id, cutoff);
+        if (expired.length === 0) continue;
+        const expiredIds = new Set(expired.map(msg => msg.id));
+        for (const msg of expired) {
+          await purgeMessage(msg);
+        }
+        // Threads that lost replies but keep their root need fresh counts
+        const roots = new Set(expired.map(msg => msg.replyTo).filter((id): id is string => !!id && !expiredIds.has(id)));
+        for (const rootId of Array.from(roots)) {
+          const root = await storage.refreshThreadStats(rootId);
+          if (root) announceThreadUpdate(room, root);
+        }
+        broadcastToRoom(room.id, { type: "messages_expired", roomId: room.id, messageIds: Array.from(expiredIds) });
+        expiredMessages += expired.length;
+        logger.info("Removed messages past room retention", { roomId: room.id, count: expired.length, policy: room.retentionPolicy });
+      }
+      logger.debug("Cleanup job completed", { expiredImages: expiredImages.length, expiredDocs: expiredDocs.length, expiredMessages });
+    } catch (error) {
+      logger.error("Cleanup job failed", error);
+      console.error("Cleanup job error:", error);
+    }
+  });
+
+  // Deleted messages are kept for moderators for a while, then removed for good
+  // along with their revision history and any image still on disk
+  cron.schedule("30 3 * * *", async () => {
+    try {
+      const cutoff = new Date(Date.now() - deletedMessageRetentionDays * 24 * 60 * 60 * 1000);
+      const purgeable = await storage.getPurgeableMessages(cutoff);
+      for (const msg of purgeable) {
+        await purgeMessage(msg);
+      }
+      if (purgeable.length > 0) {
+        logger.info("Purged deleted messages", { count: purgeable.length, retentionDays: deletedMessageRetentionDays });
+      }
+    } catch (error) {
+      logger.error("Deleted message purge failed", error);
+      console.error("Deleted message purge error:", error);
+    }
+  });
+
+  app.post("/api/auth/signup", async (req: Request, res: Response) => {
+    try {
+      const { username, password, phone, regNumber, departmentName } = req.body;
+
+      if (!username || !password || !phone || !regNumber || !departmentName) {
+        return res.status(400).json({ error: "All fields are required" });
+      }
+
+      const user = await registerStudent({
+        username,
+        password,
+        phone,
+        regNumber,
+        departmentName,
+      });
+
+      const { password: _, ...userWithoutPassword } = user;
+      req.session.user = userWithoutPassword as User;
+      req.session.userId = user.id; // Store userId in session
+
+      // Update local backup file immediately (without sending to Telegram)
+      try {
+        await generateAdminBackup();
+        console.log("✓ Local backup updated after signup");
+      } catch (error) {
+        console.error("✗ Local backup update failed after signup:", error);
+      }
+
+      res.json({ user: userWithoutPassword });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/login", async (req: Request, res: Response) => {
+    try {
+      const { username, password } = req.body;
+
+      if (!username || !password) {
+        return res.status(400).json({ error: "Username and password are required" });
+      }
+
+      const user = await loginUser(username, password);
+      const { password: _, ...userWithoutPassword } = user;
+      req.session.user = userWithoutPassword as User;
+      req.session.userId = user.id; // Store userId in session
+
+      res.json({ user: userWithoutPassword });
+    } catch (error: any) {
+      if (error instanceof AccountLockedError) {
+        return res.status(403).json(describeAccountLock(error.lock));
+      }
+      res.status(401).json({ error: error.message });
+    }
+  });
+
+  // Development-only: Auto-login endpoint
+  app.post("/api/auth/auto-login", async (req: Request, res: Response) => {
+    try {
+      const { username } = req.body;
+
+      if (!username) {
+        return res.status(400).json({ error: "Username is required" });
+      }
+
+      const user = await storage.getUserByUsername(username);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const lock = getAccountLock(user);
+      if (lock) {
+        return res.status(403).json(describeAccountLock(lock));
+      }
+
+      const { password: _, ...userWithoutPassword } = user;
+      req.session.user = userWithoutPassword as User;
+      req.session.userId = user.id;
+
+      res.json({ user: userWithoutPassword });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/logout", (req: Request, res: Response) => {
+    req.session.destroy((err) => {
+      if (err) {
+        return res.status(500).json({ error: "Logout failed" });
+      }
+      res.json({ message: "Logged out successfully" });
+    });
+  });
+
+  app.get("/api/auth/me", (req: Request, res: Response) => {
+    if (!req.session.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    res.json({ user: req.session.user });
+  });
+
+  app.patch("/api/auth/tutorial", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const updatedUser = await storage.updateUser(req.session.user.id, {
+        tutorialSeen: true
+      });
+
+      if (!updatedUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { password: _, ...userWithoutPassword } = updatedUser;
+      req.session.user = userWithoutPassword as User;
+
+      res.json({ user: userWithoutPassword });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/config", async (req: Request, res: Response) => {
+    try {
+      const configData = await fs.readFile("config.json", "utf-8");
+      const config = JSON.parse(configData);
+      res.json(config);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to load config" });
+    }
+  });
+
+  app.get("/api/departments", async (req: Request, res: Response) => {
+    try {
+      const departments = await storage.getAllDepartments();
+      res.json(departments);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/rooms", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      // Admins and faculty governors see every general and department room, everyone
+      // else the general room and their department's; dm, group and custom rooms
+      // need membership. Custom rooms the user could join are listed after them.
+      const rooms = await getAccessibleRooms(user);
+      const joinable = await getJoinableRooms(user, new Set(rooms.map(room => room.id)));
+
+      const account = await storage.getUser(user.id);
+      const unreadCounts = account
+        ? await storage.getUnreadCounts(account, rooms.map(room => room.id))
+        : {};
+
+      res.json([
+        ...rooms.map(room => ({ ...room, unreadCount: unreadCounts[room.id] || 0 })),
+        ...joinable,
+      ]);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/rooms/:id/messages", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const room = await storage.getRoom(req.params.id);
+      if (!room) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      if (!(await userCanAccessRoom(req.session.user, room))) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      let before: MessageCursor | undefined;
+      if (typeof req.query.before === "string" && req.query.before !== "") {
+        const cursor = decodeMessageCursor(req.query.before);
+        if (!cursor) {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+        before = cursor;
+      }
+
+      const page = await loadMessagePage(room.id, req.session.user.id, parsePageSize(req.query.limit), before);
+      res.json(page);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/messages/:id/thread", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      let root = await storage.getMessage(req.params.id);
+      // Asking for a reply's thread returns the whole thread it belongs to
+      if (root?.replyTo) {
+        root = await storage.getMessage(root.replyTo);
+      }
+      if (!root) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      const room = await storage.getRoom(root.roomId);
+      if (!room || !(await userCanAccessRoom(req.session.user, room))) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const replies = await storage.getThreadReplies(root.id);
+      const [rootWithReactions] = await withReactions("message", [root], req.session.user.id);
+      res.json({ root: rootWithReactions, replies: await withReactions("message", replies, req.session.user.id) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Admins can create any shared room; governors create custom rooms, department
+  // governors only for their own department. The creator owns custom rooms.
+  app.post("/api/rooms", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      if (!["admin", "faculty-governor", "department-governor"].includes(user.role)) {
+        return res.status(403).json({ error: "Only admins and governors can create rooms" });
+      }
+
+      const { departmentName } = req.body;
+      const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+      if (!name) {
+        return res.status(400).json({ error: "Room name is required" });
+      }
+      const type = user.role === "admin" ? req.body.type || "custom" : "custom";
+      if (type === "dm" || type === "group") {
+        return res.status(400).json({ error: "Direct messages and groups are started from a user's profile" });
+      }
+
+      let roomDepartment: string | null = departmentName || null;
+      if (user.role === "department-governor") {
+        if (roomDepartment && roomDepartment !== user.departmentName) {
+          return res.status(403).json({ error: "Department governors can only create rooms for their own department" });
+        }
+        roomDepartment = user.departmentName;
+      }
+
+      const settings = parseRoomSettings(req.body);
+      if (settings.error) {
+        return res.status(400).json({ error: settings.error });
+      }
+
+      const newRoom = {
+        name,
+        type,
+        departmentName: roomDepartment,
+        createdBy: user.id,
+        ...settings.values,
+      };
+      const room = type === "custom"
+        ? await storage.createRoomWithMembers(newRoom, [{ userId: user.id, role: "owner" }])
+        : await storage.createRoom(newRoom);
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "ROOM_CREATED",
+        details: { roomId: room.id, roomName: name },
+      });
+
+      // Broadcast new room to all connected clients that can see it, and offer
+      // custom rooms to the people who could join
+      if (type === "custom") {
+        await announceMemberRoom(room);
+        broadcast(
+          { type: "new_room", room: { ...room, joinable: true, joinRequested: false } },
+          (viewer) => viewer.id !== user.id && canDiscoverRoom(viewer, room)
+        );
+      } else {
+        broadcast({ type: "new_room", room }, (viewer) => canAccessRoom(viewer, room));
+      }
+
+      res.json(room);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Opens the DM with another user, creating it the first time
+  app.post("/api/rooms/dm", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const target = typeof req.body.username === "string"
+        ? await storage.getUserByUsername(req.body.username)
+        : undefined;
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (target.id === user.id) {
+        return res.status(400).json({ error: "You cannot message yourself" });
+      }
+      if (!canDirectMessage(user, target, allowStudentDms)) {
+        return res.status(403).json({ error: "Direct messages between students are disabled" });
+      }
+
+      const dmKey = [user.id, target.id].sort().join(":");
+      const existing = await storage.getRoomByDmKey(dmKey);
+      if (existing) {
+        const members = (await storage.getRoomMembers([existing.id]))[existing.id] ?? [];
+        return res.json({ ...existing, members });
+      }
+
+      let room: Room;
+      try {
+        room = await storage.createRoomWithMembers({
+          name: "Direct message",
+          type: "dm",
+          departmentName: null,
+          dmKey,
+          createdBy: user.id,
+        }, [{ userId: user.id }, { userId: target.id }]);
+      } catch (error) {
+        // Both users opened the DM at the same moment; use the one that won
+        const created = await storage.getRoomByDmKey(dmKey);
+        if (!created) throw error;
+        room = created;
+      }
+
+      res.json(await announceMemberRoom(room));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/rooms/group", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+      if (!name) {
+        return res.status(400).json({ error: "Group name is required" });
+      }
+      const usernames: string[] = Array.isArray(req.body.usernames)
+        ? Array.from(new Set<string>(req.body.usernames.map(String))).filter((username) => username !== user.username)
+        : [];
+      if (usernames.length === 0) {
+        return res.status(400).json({ error: "Add at least one other member" });
+      }
+      if (usernames.length + 1 > maxGroupMembers) {
+        return res.status(400).json({ error: `Groups are limited to ${maxGroupMembers} members` });
+      }
+
+      const members: User[] = [];
+      for (const username of usernames) {
+        const member = await storage.getUserByUsername(username);
+        if (!member) {
+          return res.status(404).json({ error: `User ${username} not found` });
+        }
+        if (!canDirectMessage(user, member, allowStudentDms)) {
+          return res.status(403).json({ error: "Private conversations between students are disabled" });
+        }
+        members.push(member);
+      }
+
+      const room = await storage.createRoomWithMembers({
+        name,
+        type: "group",
+        departmentName: null,
+        dmKey: null,
+        createdBy: user.id,
+      }, [{ userId: user.id, role: "owner" }, ...members.map((member) => ({ userId: member.id }))]);
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "GROUP_CREATED",
+        details: { roomId: room.id, roomName: name, members: members.length + 1 },
+      });
+
+      res.json(await announceMemberRoom(room));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/rooms/:id/leave", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const room = await storage.getRoom(req.params.id);
+      const membership = room ? await loadRoomMembership(room, user.id) : undefined;
+      if (!room || !membership) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      if (room.type === "dm") {
+        return res.status(400).json({ error: "Direct messages cannot be left" });
+      }
+
+      await storage.removeRoomMember(room.id, user.id);
+      evictFromRoom(room.id, user.id);
+
+      let members = (await storage.getRoomMembers([room.id]))[room.id] ?? [];
+      if (members.length === 0) {
+        await storage.deleteRoom(room.id);
+      } else if (membership.role === "owner" && !members.some(member => member.role === "owner")) {
+        // Hand the room to the longest-standing moderator, or else member
+        const heir = members.find(member => member.role === "moderator") ?? members[0];
+        await storage.updateRoomMember(room.id, heir.userId, { role: "owner" });
+        await storage.createActivityLog({
+          userId: user.id,
+          action: "ROOM_OWNER_CHANGED",
+          details: { roomId: room.id, from: user.username, to: heir.username },
+        });
+      }
+      if (members.length > 0) {
+        await announceRoomMembers(room);
+      }
+
+      res.json({ message: room.type === "group" ? "Left the group" : "Left the room" });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Room settings: name, join policy, read-only and slow mode
+  app.patch("/api/rooms/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const room = await storage.getRoom(req.params.id);
+      if (!room || !(await userCanAccessRoom(user, room))) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      if (room.type === "dm" || !canModerateRoom(user, room, await loadRoomMembership(room, user.id))) {
+        return res.status(403).json({ error: "Only room moderators can change its settings" });
+      }
+
+      const settings = parseRoomSettings(req.body);
+      if (settings.error) {
+        return res.status(400).json({ error: settings.error });
+      }
+      const updates: Partial<InsertRoom> = { ...settings.values };
+      if (updates.joinPolicy && room.type !== "custom") {
+        return res.status(400).json({ error: "Only custom rooms have a join policy" });
+      }
+      if (req.body.name !== undefined) {
+        if (room.type === "general" || room.type === "department") {
+          return res.status(400).json({ error: "Default rooms cannot be renamed" });
+        }
+        const name = String(req.body.name).trim();
+        if (!name) {
+          return res.status(400).json({ error: "Room name is required" });
+        }
+        updates.name = name;
+      }
+
+      const updated = await storage.updateRoom(room.id, updates);
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "ROOM_SETTINGS_UPDATED",
+        details: { roomId: room.id, changes: updates },
+      });
+
+      const memberIds = await loadRoomMemberIds(updated!);
+      broadcast({ type: "room_updated", room: updated }, (viewer) => canAccessRoom(viewer, updated!, memberIds));
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/rooms/:id/members", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const room = await storage.getRoom(req.params.id);
+      if (!room || !(await userCanAccessRoom(req.session.user, room))) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      if (!isMembershipRoom(room)) {
+        return res.status(400).json({ error: "This room is open to its whole department" });
+      }
+
+      res.json((await storage.getRoomMembers([room.id]))[room.id] ?? []);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Joins an open room, or files a request for a request-only one
+  app.post("/api/rooms/:id/join", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const room = await storage.getRoom(req.params.id);
+      if (!room || !canJoinRoom(user, room)) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      if (await storage.getRoomMember(room.id, user.id)) {
+        return res.json({ status: "joined" });
+      }
+
+      // An outstanding invite lets the user straight in whatever the policy
+      const pending = await storage.getPendingRoomRequest(room.id, user.id);
+      if (pending?.kind === "invite" || room.joinPolicy === "open") {
+        if (pending?.kind === "invite") {
+          await storage.decideRoomRequest(pending.id, "accepted", user.id);
+        }
+        await admitToRoom(room, user, pending?.requestedBy ?? user.id);
+        return res.json({ status: "joined" });
+      }
+      if (room.joinPolicy === "invite") {
+        return res.status(403).json({ error: "This room is invite only" });
+      }
+
+      const request = pending ?? await storage.createRoomRequest({
+        roomId: room.id,
+        userId: user.id,
+        kind: "join",
+        requestedBy: user.id,
+        status: "pending",
+        decidedBy: null,
+        decidedAt: null,
+      });
+      if (!pending) {
+        const members = (await storage.getRoomMembers([room.id]))[room.id] ?? [];
+        for (const member of members.filter(member => member.role !== "member")) {
+          sendToUser(member.userId, { type: "room_join_requested", roomId: room.id, requestId: request.id, username: user.username });
+        }
+      }
+
+      res.json({ status: "requested", requestId: request.id });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/rooms/:id/invites", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const room = await storage.getRoom(req.params.id);
+      if (!room || !(await userCanAccessRoom(user, room))) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      if (room.type !== "custom" && room.type !== "group") {
+        return res.status(400).json({ error: "Only custom rooms and groups take invitations" });
+      }
+      if (!canModerateRoom(user, room, await loadRoomMembership(room, user.id))) {
+        return res.status(403).json({ error: "Only room moderators can invite people" });
+      }
+
+      const invitee = typeof req.body.username === "string"
+        ? await storage.getUserByUsername(req.body.username)
+        : undefined;
+      if (!invitee) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (await storage.getRoomMember(room.id, invitee.id)) {
+        return res.status(400).json({ error: `${invitee.username} is already in this room` });
+      }
+      if (room.type === "custom" ? !canJoinRoom(invitee, room) : !canDirectMessage(user, invitee, allowStudentDms)) {
+        return res.status(403).json({ error: `${invitee.username} cannot join this room` });
+      }
+      if (room.type === "group") {
+        const memberCount = (await storage.getRoomMemberIds(room.id)).length;
+        if (memberCount >= maxGroupMembers) {
+          return res.status(400).json({ error: `Groups are limited to ${maxGroupMembers} members` });
+        }
+      }
+
+      // Inviting someone who already asked to join just lets them in
+      const pending = await storage.getPendingRoomRequest(room.id, invitee.id);
+      if (pending?.kind === "join") {
+        await storage.decideRoomRequest(pending.id, "accepted", user.id);
+        await admitToRoom(room, invitee, user.id);
+        await storage.createActivityLog({
+          userId: user.id,
+          action: "ROOM_JOIN_APPROVED",
+          details: { roomId: room.id, requestId: pending.id, username: invitee.username },
+        });
+        return res.json({ status: "joined" });
+      }
+      if (pending) {
+        return res.json({ status: "invited", requestId: pending.id });
+      }
+
+      const invite = await storage.createRoomRequest({
+        roomId: room.id,
+        userId: invitee.id,
+        kind: "invite",
+        requestedBy: user.id,
+        status: "pending",
+        decidedBy: null,
+        decidedAt: null,
+      });
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "ROOM_INVITE_SENT",
+        details: { roomId: room.id, requestId: invite.id, username: invitee.username },
+      });
+
+      sendToUser(invitee.id, {
+        type: "room_invite",
+        invite: { ...invite, roomName: room.name, invitedBy: user.username },
+      });
+
+      res.json({ status: "invited", requestId: invite.id });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // The signed-in user's pending invitations
+  app.get("/api/rooms/invites", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const requests = await storage.getPendingRequestsForUser(req.session.user.id);
+      const invites = [];
+      for (const request of requests.filter(request => request.kind === "invite")) {
+        const room = await storage.getRoom(request.roomId);
+        const inviter = await storage.getUser(request.requestedBy);
+        if (!room) continue;
+        invites.push({ ...request, roomName: room.name, invitedBy: inviter?.username ?? null });
+      }
+
+      res.json(invites);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Pending join requests and outstanding invites, for the room's moderators
+  app.get("/api/rooms/:id/requests", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const room = await storage.getRoom(req.params.id);
+      if (!room || !(await userCanAccessRoom(req.session.user, room))) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      if (!canModerateRoom(req.session.user, room, await loadRoomMembership(room, req.session.user.id))) {
+        return res.status(403).json({ error: "Only room moderators can see requests" });
+      }
+
+      const requests = await storage.getPendingRoomRequests(room.id);
+      const result = [];
+      for (const request of requests) {
+        const person = await storage.getUser(request.userId);
+        result.push({ ...request, username: person?.username ?? null, departmentName: person?.departmentName ?? null });
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Invites are answered by the invitee (or withdrawn by a moderator); join
+  // requests are decided by the room's moderators
+  app.post("/api/rooms/requests/:requestId/:decision", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const decision = req.params.decision;
+      if (decision !== "accept" && decision !== "decline") {
+        return res.status(404).json({ error: "Unknown decision" });
+      }
+
+      const request = await storage.getRoomRequest(req.params.requestId);
+      const room = request ? await storage.getRoom(request.roomId) : undefined;
+      if (!request || !room || request.status !== "pending") {
+        return res.status(404).json({ error: "Request not found" });
+      }
+
+      const isModerator = canModerateRoom(user, room, await loadRoomMembership(room, user.id));
+      const isInvitee = request.kind === "invite" && request.userId === user.id;
+      const allowed = request.kind === "invite"
+        ? isInvitee || (decision === "decline" && isModerator)
+        : isModerator;
+      if (!allowed) {
+        return res.status(403).json({ error: "You cannot decide this request" });
+      }
+
+      const decided = await storage.decideRoomRequest(request.id, decision === "accept" ? "accepted" : "declined", user.id);
+      if (!decided) {
+        return res.status(409).json({ error: "This request was already decided" });
+      }
+
+      const person = await storage.getUser(request.userId);
+      if (decision === "accept" && person) {
+        await admitToRoom(room, person, request.requestedBy);
+      }
+
+      // The invitee answering for themselves isn't a moderation action
+      if (!isInvitee) {
+        await storage.createActivityLog({
+          userId: user.id,
+          action: request.kind === "join"
+            ? (decision === "accept" ? "ROOM_JOIN_APPROVED" : "ROOM_JOIN_DECLINED")
+            : "ROOM_INVITE_WITHDRAWN",
+          details: { roomId: room.id, requestId: request.id, username: person?.username },
+        });
+      }
+      sendToUser(request.userId, { type: "room_request_decided", request: decided });
+
+      res.json(decided);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Promotes a member to moderator or back; only the owner (or an admin) decides
+  app.patch("/api/rooms/:id/members/:userId", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const room = await storage.getRoom(req.params.id);
+      if (!room || !isMembershipRoom(room) || room.type === "dm") {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      const actor = await storage.getRoomMember(room.id, user.id);
+      if (user.role !== "admin" && actor?.role !== "owner") {
+        return res.status(403).json({ error: "Only the room owner can change roles" });
+      }
+
+      const { role } = req.body;
+      if (role !== "moderator" && role !== "member") {
+        return res.status(400).json({ error: "role must be moderator or member" });
+      }
+      const target = await storage.getRoomMember(room.id, req.params.userId);
+      if (!target) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      if (target.role === "owner") {
+        return res.status(400).json({ error: "The owner's role cannot be changed" });
+      }
+
+      const updated = await storage.updateRoomMember(room.id, target.userId, { role });
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "ROOM_ROLE_CHANGED",
+        details: { roomId: room.id, memberId: target.userId, from: target.role, to: role },
+      });
+
+      await announceRoomMembers(room);
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/rooms/:id/members/:userId/kick", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const moderation = await loadMemberModeration(req.params.id, user, req.params.userId);
+      if ("error" in moderation) {
+        return res.status(moderation.status).json({ error: moderation.error });
+      }
+      const { room, target } = moderation;
+
+      await storage.removeRoomMember(room.id, target.userId);
+      evictFromRoom(room.id, target.userId);
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "ROOM_MEMBER_KICKED",
+        details: { roomId: room.id, memberId: target.userId, reason: req.body.reason || null },
+      });
+
+      await announceRoomMembers(room);
+      res.json({ message: "Member removed" });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // { minutes } mutes for that long; 0 or null lifts the mute
+  app.post("/api/rooms/:id/members/:userId/mute", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const moderation = await loadMemberModeration(req.params.id, user, req.params.userId);
+      if ("error" in moderation) {
+        return res.status(moderation.status).json({ error: moderation.error });
+      }
+      const { room, target } = moderation;
+
+      const minutes = Number(req.body.minutes) || 0;
+      if (minutes < 0) {
+        return res.status(400).json({ error: "minutes must be positive" });
+      }
+      const mutedUntil = minutes > 0 ? new Date(Date.now() + minutes * 60 * 1000) : null;
+      const updated = await storage.updateRoomMember(room.id, target.userId, { mutedUntil });
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: mutedUntil ? "ROOM_MEMBER_MUTED" : "ROOM_MEMBER_UNMUTED",
+        details: { roomId: room.id, memberId: target.userId, minutes: minutes || undefined, reason: req.body.reason || null },
+      });
+
+      sendToUser(target.userId, { type: "room_muted", roomId: room.id, mutedUntil });
+      await announceRoomMembers(room);
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/rooms/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const room = await storage.getRoom(req.params.id);
+      if (!room) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      if (room.type === "general" || room.type === "department") {
+        return res.status(400).json({ error: "Cannot delete default rooms" });
+      }
+
+      // Admins can delete any room; owners can delete their custom rooms and groups
+      const membership = await loadRoomMembership(room, req.session.user.id);
+      const isOwner = (room.type === "custom" || room.type === "group") && membership?.role === "owner";
+      if (req.session.user.role !== "admin" && !isOwner) {
+        return res.status(403).json({ error: "Only admins and the room owner can delete rooms" });
+      }
+
+      const memberIds = await loadRoomMemberIds(room);
+      const audience = Array.from(allClients)
+        .filter(client => client.user && canAccessRoom(client.user, room, memberIds))
+        .map(client => client.userId!);
+
+      await storage.deleteRoom(req.params.id);
+      await storage.createActivityLog({
+        userId: req.session.user.id,
+        action: "ROOM_DELETED",
+        details: { roomId: req.params.id, roomName: room.name },
+      });
+
+      for (const userId of Array.from(new Set(audience))) {
+        evictFromRoom(room.id, userId);
+      }
+
+      res.json({ message: "Room deleted" });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Mentions inbox: recent mentions in rooms the user can still open
+  app.get("/api/mentions", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const limit = Math.min(Number(req.query.limit) || 50, 100);
+      const mentions = await storage.getMentionsForUser(user.id, limit);
+
+      const access = new Map<string, boolean>();
+      for (const roomId of Array.from(new Set(mentions.map(mention => mention.roomId)))) {
+        const room = await storage.getRoom(roomId);
+        access.set(roomId, !!room && await userCanAccessRoom(user, room));
+      }
+
+      res.json({
+        mentions: mentions.filter(mention => access.get(mention.roomId)),
+        unreadCount: await storage.countUnreadMentions(user.id),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // { mentionIds } marks those read; without it, every mention is marked read
+  app.post("/api/mentions/read", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const mentionIds = Array.isArray(req.body.mentionIds) ? req.body.mentionIds.map(String) : undefined;
+      const updated = await storage.markMentionsRead(req.session.user.id, mentionIds);
+
+      // Keep the badge in sync on the user's other tabs
+      sendToUser(req.session.user.id, { type: "mentions_read", mentionIds: mentionIds ?? null });
+
+      res.json({ updated });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Push notification endpoints
+  app.get("/api/push/vapid-public-key", async (req: Request, res: Response) => {
+    const { getVapidPublicKey } = await import('./webpush');
+    const publicKey = getVapidPublicKey();
+
+    if (!publicKey) {
+      return res.status(404).json({ error: "Push notifications not configured" });
+    }
+
+    res.json({ publicKey });
+  });
+
+  app.post("/api/push/subscribe", async (req: Request, res: Response) => {
+    if (!req.session.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    try {
+      const { endpoint, keys } = req.body;
+      if (typeof endpoint !== "string" || typeof keys?.p256dh !== "string" || typeof keys?.auth !== "string") {
+        return res.status(400).json({ error: "A push subscription needs an endpoint and its p256dh and auth keys" });
+      }
+
+      await subscribeToPush(req.session.user.id, endpoint, keys);
+
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Push subscription error:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/notifications", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const allNotifications = await storage.getAllNotifications();
+
+      const visibleNotifications = allNotifications.filter(notification =>
+        canViewNotification(user, notification)
+      );
+      const readIds = new Set(await storage.getReadNotificationIds(user.id));
+      const acknowledgedIds = new Set(await storage.getAcknowledgedNotificationIds(user.id));
+      const commentCounts = await storage.getNotificationCommentCounts(visibleNotifications.map(n => n.id));
+
+      res.json((await withReactions("notification", visibleNotifications, user.id)).map(({ comments, ...notification }) => ({
+        ...notification,
+        commentCount: commentCounts[notification.id] ?? 0,
+        isRead: readIds.has(notification.id),
+        acknowledged: acknowledgedIds.has(notification.id),
+      })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/notifications", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const allowedRoles = ["faculty-governor", "department-governor", "admin"];
+      if (!allowedRoles.includes(req.session.user.role)) {
+        return res.status(403).json({ error: "Not authorized to post notifications" });
+      }
+
+      const { title, content, notificationType, targetDepartmentName } = req.body;
+
+      if (!content || content.trim() === "") {
+        return res.status(400).json({ error: "Notification content is required" });
+      }
+
+      const schedule = parseNotificationSchedule(req.body);
+      if (schedule.error) {
+        return res.status(400).json({ error: schedule.error });
+      }
+      const now = new Date();
+      const isScheduled = !!schedule.publishAt && schedule.publishAt > now;
+      const publishAt = isScheduled ? schedule.publishAt! : now;
+      if (schedule.expiresAt && schedule.expiresAt <= publishAt) {
+        return res.status(400).json({ error: "expiresAt must be after the publish time" });
+      }
+
+      let type = "general";
+      let target = null;
+
+      if (req.session.user.role === "department-governor") {
+        if (targetDepartmentName === null || targetDepartmentName === undefined) {
+          type = "general";
+          target = null;
+        } else {
+          type = "department";
+          target = req.session.user.departmentName;
+        }
+      } else if (targetDepartmentName && targetDepartmentName !== "") {
+        type = "department";
+        target = targetDepartmentName;
+      }
+
+      const notification = await storage.createNotification({
+        type,
+        notificationType: notificationType || "regular",
+        title: title || "Notification",
+        content: content.trim(),
+        postedBy: req.session.user.username,
+        targetDepartmentName: target,
+        reactions: {},
+        comments: [],
+        status: isScheduled ? "scheduled" : "published",
+        publishAt,
+        expiresAt: schedule.expiresAt ?? null,
+      });
+
+      await storage.createActivityLog({
+        userId: req.session.user.id,
+        action: isScheduled ? "NOTIFICATION_SCHEDULED" : "NOTIFICATION_POSTED",
+        details: { notificationId: notification.id, type: notificationType, publishAt },
+      });
+
+      // Scheduled posts are sent by the scheduler job when publishAt arrives
+      if (!isScheduled) {
+        await publishNotification(notification);
+      }
+
+      // Update local backup file immediately (without sending to Telegram)
+      try {
+        await generateAdminBackup();
+        console.log("✓ Local backup updated after notification creation");
+      } catch (error) {
+        console.error("✗ Local backup update failed after notification:", error);
+      }
+
+      res.json(notification);
+    } catch (error: any) {
+      console.error("Notification posting error:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/notifications/scheduled", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const allowedRoles = ["faculty-governor", "department-governor", "admin"];
+      if (!allowedRoles.includes(user.role)) {
+        return res.status(403).json({ error: "Not authorized to view scheduled notifications" });
+      }
+
+      const scheduled = await storage.getScheduledNotifications();
+      const manageable = await Promise.all(scheduled.map(notification => userCanManageNotification(user, notification)));
+      res.json(scheduled.filter((_, i) => manageable[i]));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/notifications/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      if (!(await userCanManageNotification(req.session.user, notification))) {
+        return res.status(403).json({ error: "Not authorized to edit this notification" });
+      }
+
+      const updates: Partial<InsertNotification> = {};
+      const { title, content, notificationType } = req.body;
+      if (title !== undefined) updates.title = String(title);
+      if (content !== undefined) {
+        if (String(content).trim() === "") {
+          return res.status(400).json({ error: "Notification content is required" });
+        }
+        updates.content = String(content).trim();
+      }
+      if (notificationType !== undefined) updates.notificationType = String(notificationType);
+
+      const schedule = parseNotificationSchedule(req.body);
+      if (schedule.error) {
+        return res.status(400).json({ error: schedule.error });
+      }
+      if (schedule.publishAt !== undefined) {
+        if (notification.status !== "scheduled") {
+          return res.status(400).json({ error: "Only scheduled notifications can be rescheduled" });
+        }
+        if (!schedule.publishAt || schedule.publishAt <= new Date()) {
+          return res.status(400).json({ error: "publishAt must be in the future" });
+        }
+        updates.publishAt = schedule.publishAt;
+      }
+      if (schedule.expiresAt !== undefined) {
+        updates.expiresAt = schedule.expiresAt;
+      }
+      const effectivePublishAt = updates.publishAt ?? notification.publishAt ?? notification.createdAt;
+      const effectiveExpiresAt = updates.expiresAt !== undefined ? updates.expiresAt : notification.expiresAt;
+      if (effectiveExpiresAt && effectiveExpiresAt <= effectivePublishAt) {
+        return res.status(400).json({ error: "expiresAt must be after the publish time" });
+      }
+
+      const updated = await storage.updateNotification(notification.id, updates);
+
+      await storage.createActivityLog({
+        userId: req.session.user.id,
+        action: "NOTIFICATION_UPDATED",
+        details: { notificationId: notification.id, fields: Object.keys(updates) },
+      });
+
+      // Scheduled posts aren't on anyone's feed yet
+      if (updated && updated.status === "published") {
+        broadcast(
+          { type: "notification_updated", notification: notificationPayload(updated) },
+          (user) => canViewNotification(user, updated)
+        );
+      }
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/notifications/read-all", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const allNotifications = await storage.getAllNotifications();
+      const notificationIds = allNotifications
+        .filter(notification => canViewNotification(user, notification))
+        .map(notification => notification.id);
+
+      await storage.markNotificationsRead(user.id, notificationIds);
+      sendToUser(user.id, { type: "notification_read", notificationIds });
+
+      res.json({ notificationIds });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification || !canViewNotification(req.session.user, notification)) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      await storage.markNotificationsRead(req.session.user.id, [notification.id]);
+      sendToUser(req.session.user.id, { type: "notification_read", notificationIds: [notification.id] });
+
+      res.json({ notificationId: notification.id, isRead: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/notifications/:id/acknowledge", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification || !canViewNotification(req.session.user, notification)) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      if (notification.notificationType !== "urgent") {
+        return res.status(400).json({ error: "Only urgent notifications can be acknowledged" });
+      }
+
+      const ack = await storage.acknowledgeNotification(notification.id, req.session.user.id);
+      // Acknowledging also counts as reading it
+      await storage.markNotificationsRead(req.session.user.id, [notification.id]);
+      sendToUser(req.session.user.id, { type: "notification_read", notificationIds: [notification.id] });
+
+      res.json({ notificationId: notification.id, acknowledged: true, acknowledgedAt: ack.acknowledgedAt });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/notifications/:id/acks", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      if (!(await userCanManageNotification(req.session.user, notification))) {
+        return res.status(403).json({ error: "Not authorized to view this report" });
+      }
+
+      const report = await buildAckReport(notification);
+
+      if (req.query.format === "csv") {
+        const csv = toCsv([
+          ["username", "reg_number", "department", "status", "acknowledged_at"],
+          ...report.students.map((student) => [
+            student.username,
+            student.regNumber,
+            student.departmentName,
+            student.acknowledgedAt ? "acknowledged" : "pending",
+            student.acknowledgedAt ? student.acknowledgedAt.toISOString() : "",
+          ]),
+        ]);
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="acknowledgements-${notification.id}.csv"`);
+        return res.send(csv);
+      }
+
+      const { students, ...summary } = report;
+      res.json(summary);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/notifications/:id/react", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      // reactionType is the older name for the same field
+      const emoji = parseReactionEmoji(req.body.emoji ?? req.body.reactionType);
+      if (!emoji) {
+        return res.status(400).json({ error: "A valid reaction is required" });
+      }
+
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification || !canViewNotification(req.session.user, notification)) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      const reacted = await storage.toggleReaction("notification", notification.id, req.session.user.id, emoji);
+      const summaries = (await storage.getReactionSummaries("notification", [notification.id]))[notification.id] ?? [];
+
+      broadcastEach((user) => canViewNotification(user, notification)
+        ? { type: "notification_reacted", notificationId: notification.id, reactions: reactionsFor(summaries, user) }
+        : undefined
+      );
+
+      res.json({ ...notification, reacted, reactions: reactionsFor(summaries, req.session.user) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/notifications/:id/comment", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const { content, parentId } = req.body;
+      if (typeof content !== "string" || content.trim() === "") {
+        return res.status(400).json({ error: "Comment content is required" });
+      }
+
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification || !canViewNotification(req.session.user, notification)) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      const account = await storage.getUser(req.session.user.id);
+      const muted = account && getAccountMuteRestriction(account);
+      if (muted) {
+        return res.status(403).json({ error: muted });
+      }
+
+      // Replies are one level deep: answering a reply attaches to its parent
+      let threadParentId: string | null = null;
+      if (parentId) {
+        const parent = await storage.getNotificationComment(String(parentId));
+        if (!parent || parent.notificationId !== notification.id) {
+          return res.status(400).json({ error: "Parent comment not found" });
+        }
+        threadParentId = parent.parentId || parent.id;
+      }
+
+      const comment = await storage.createNotificationComment({
+        notificationId: notification.id,
+        parentId: threadParentId,
+        authorId: req.session.user.id,
+        authorName: req.session.user.username,
+        content: content.trim(),
+      });
+
+      announceCommentChange(notification, "created", comment);
+      await announceCommentCount(notification);
+      res.json(presentComment(comment, canModerateNotificationComments(req.session.user, notification)));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/notifications/:id/comments", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification || !canViewNotification(req.session.user, notification)) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      const canModerate = canModerateNotificationComments(req.session.user, notification);
+      const comments = await storage.getNotificationComments(notification.id);
+      res.json({
+        canModerate,
+        comments: comments.map(comment => presentComment(comment, canModerate)),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/notifications/:id/comments/:commentId", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const notification = await storage.getNotification(req.params.id);
+      const comment = await storage.getNotificationComment(req.params.commentId);
+      if (!notification || !comment || comment.notificationId !== notification.id ||
+          !canViewNotification(req.session.user, notification)) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+      if (comment.authorId !== req.session.user.id) {
+        return res.status(403).json({ error: "You can only edit your own comments" });
+      }
+      if (comment.deletedAt) {
+        return res.status(400).json({ error: "Deleted comments cannot be edited" });
+      }
+
+      const { content } = req.body;
+      if (typeof content !== "string" || content.trim() === "") {
+        return res.status(400).json({ error: "Comment content is required" });
+      }
+
+      const updated = await storage.updateNotificationComment(comment.id, {
+        content: content.trim(),
+        edited: true,
+        updatedAt: new Date(),
+      });
+
+      announceCommentChange(notification, "updated", updated!);
+      res.json(presentComment(updated!, canModerateNotificationComments(req.session.user, notification)));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/notifications/:id/comments/:commentId", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const notification = await storage.getNotification(req.params.id);
+      const comment = await storage.getNotificationComment(req.params.commentId);
+      if (!notification || !comment || comment.notificationId !== notification.id ||
+          !canViewNotification(req.session.user, notification)) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+
+      const isAuthor = comment.authorId === req.session.user.id;
+      const canModerate = canModerateNotificationComments(req.session.user, notification);
+      if (!isAuthor && !canModerate) {
+        return res.status(403).json({ error: "You can only delete your own comments" });
+      }
+      if (comment.deletedAt) {
+        return res.status(400).json({ error: "Comment is already deleted" });
+      }
+
+      const updated = await storage.updateNotificationComment(comment.id, {
+        deletedAt: new Date(),
+        deletedBy: req.session.user.id,
+      });
+
+      if (!isAuthor) {
+        await storage.createActivityLog({
+          userId: req.session.user.id,
+          action: "NOTIFICATION_COMMENT_DELETED",
+          details: { notificationId: notification.id, commentId: comment.id, author: comment.authorName },
+        });
+      }
+
+      announceCommentChange(notification, "updated", updated!);
+      await announceCommentCount(notification);
+      res.json(presentComment(updated!, canModerate));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/notifications/:id/comments/:commentId/hide", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const notification = await storage.getNotification(req.params.id);
+      const comment = await storage.getNotificationComment(req.params.commentId);
+      if (!notification || !comment || comment.notificationId !== notification.id) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+      if (!canModerateNotificationComments(req.session.user, notification)) {
+        return res.status(403).json({ error: "Only the poster or an admin can moderate comments" });
+      }
+
+      // { hidden: false } restores a hidden comment
+      const hidden = req.body.hidden !== false;
+      const updated = await storage.updateNotificationComment(comment.id, hidden
+        ? { hiddenAt: new Date(), hiddenBy: req.session.user.id }
+        : { hiddenAt: null, hiddenBy: null }
+      );
+
+      await storage.createActivityLog({
+        userId: req.session.user.id,
+        action: hidden ? "NOTIFICATION_COMMENT_HIDDEN" : "NOTIFICATION_COMMENT_UNHIDDEN",
+        details: { notificationId: notification.id, commentId: comment.id, author: comment.authorName },
+      });
+
+      announceCommentChange(notification, "updated", updated!);
+      await announceCommentCount(notification);
+      res.json(presentComment(updated!, true));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/notifications/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      // Allow deletion by admins, faculty governors, and department governors
+      const allowedRoles = ["admin", "faculty-governor", "department-governor"];
+      if (!allowedRoles.includes(req.session.user.role)) {
+        return res.status(403).json({ error: "Not authorized to delete notifications" });
+      }
+
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      // Department governors can only delete notifications they posted or for their department,
+      // and not an admin's
+      if (!(await userCanManageNotification(req.session.user, notification))) {
+        return res.status(403).json({ error: "You can only delete your own notifications or notifications for your department" });
+      }
+
+      await storage.deleteNotification(req.params.id);
+      await storage.deleteReactionsForTarget("notification", req.params.id);
+
+      // Deleting a post that hasn't gone out yet is a cancellation
+      const cancelled = notification.status === "scheduled";
+      await storage.createActivityLog({
+        userId: req.session.user.id,
+        action: cancelled ? "NOTIFICATION_CANCELLED" : "NOTIFICATION_DELETED",
+        details: { notificationId: req.params.id, title: notification.title },
+      });
+
+      if (!cancelled) {
+        broadcast(
+          { type: "notification_deleted", notificationId: notification.id },
+          (user) => canViewNotification(user, notification)
+        );
+      }
+
+      // Update local backup file immediately (without sending to Telegram)
+      try {
+        await generateAdminBackup();
+        console.log("✓ Local backup updated after notification deletion");
+      } catch (error) {
+        console.error("✗ Local backup update failed after deletion:", error);
+      }
+
+      res.json({ message: "Notification deleted successfully" });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Original document upload endpoint - to be replaced by the new one below
+  // app.post("/api/documents", upload.single("file"), async (req: any, res: Response) => {
+  //   try {
+  //     if (!req.session.user) {
+  //       return res.status(401).json({ error: "Not authenticated" });
+  //     }
+
+  //     if (!req.file) {
+  //       return res.status(400).json({ error: "No file uploaded" });
+  //     }
+
+  //     const document = await storage.createDocument({
+  //       name: req.file.originalname,
+  //       path: req.file.path,
+  //       owner: req.session.user.username,
+  //       departmentName: req.body.departmentName || req.session.user.departmentName,
+  //       fileType: path.extname(req.file.originalname),
+  //       size: req.file.size,
+  //       expiration: req.body.expiration ? new Date(req.body.expiration) : null,
+  //     });
+
+  //     await storage.createActivityLog({
+  //       userId: req.session.user.id,
+  //       action: "DOCUMENT_UPLOADED",
+  //       details: { documentId: document.id, fileName: req.file.originalname },
+  //     });
 
-  // Development-only: Auto-login endpoint
-  app.post("/api/auth/auto-login", async (req: Request, res: Response) => {
+  //     res.json(document);
+  //   } catch (error: any) {
+  //     res.status(500).json({ error: error.message });
+  //   }
+  // });
+
+  app.delete("/api/documents/:id", async (req: Request, res: Response) => {
     try {
-      const { username } = req.body;
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
 
-      if (!username) {
-        return res.status(400).json({ error: "Username is required" });
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
       }
 
-      const user = await storage.getUserByUsername(username);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      if (document.owner !== req.session.user.username && req.session.user.role !== "admin") {
+        return res.status(403).json({ error: "Not authorized" });
       }
 
-      const { password: _, ...userWithoutPassword } = user;
-      req.session.user = userWithoutPassword as User;
-      req.session.userId = user.id;
+      await removeDocument(document);
+      await storage.createActivityLog({
+        userId: req.session.user.id,
+        action: "DOCUMENT_DELETED",
+        details: { documentId: req.params.id },
+      });
 
-      res.json({ user: userWithoutPassword });
+      res.json({ message: "Document deleted" });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/auth/logout", (req: Request, res: Response) => {
-    req.session.destroy((err) => {
-      if (err) {
-        return res.status(500).json({ error: "Logout failed" });
+  app.get("/api/admin/backup", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user || req.session.user.role !== "admin") {
+        return res.status(403).json({ error: "Admin only" });
       }
-      res.json({ message: "Logged out successfully" });
-    });
-  });
 
-  app.get("/api/auth/me", (req: Request, res: Response) => {
-    if (!req.session.user) {
-      return res.status(401).json({ error: "Not authenticated" });
+      const { backupPath, backupData } = await generateAdminBackup();
+
+      // Ensure notifications are in the backup
+      const notificationCount = backupData.notifications?.length || 0;
+
+      await storage.createActivityLog({
+        userId: req.session.user.id,
+        action: "CREDENTIALS_BACKUP",
+        details: {
+          userCount: backupData.users.length,
+          notificationCount
+        },
+      });
+
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Content-Disposition', 'attachment; filename=admin_backup.json');
+      res.json(backupData);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
     }
-    res.json({ user: req.session.user });
   });
 
-  app.patch("/api/auth/tutorial", async (req: Request, res: Response) => {
+  app.post("/api/admin/telegram-backup", async (req: Request, res: Response) => {
     try {
-      if (!req.session.user) {
-        return res.status(401).json({ error: "Not authenticated" });
+      if (!req.session.user || req.session.user.role !== "admin") {
+        return res.status(403).json({ error: "Admin only" });
       }
 
-      const updatedUser = await storage.updateUser(req.session.user.id, {
-        tutorialSeen: true
-      });
+      const { backupPath, backupData } = await generateAdminBackup();
 
-      if (!updatedUser) {
-        return res.status(404).json({ error: "User not found" });
-      }
+      await storage.createActivityLog({
+        userId: req.session.user.id,
+        action: "TELEGRAM_BACKUP_MANUAL",
+        details: {
+          userCount: backupData.users.length,
+          notificationCount: backupData.notifications?.length || 0
+        },
+      });
 
-      const { password: _, ...userWithoutPassword } = updatedUser;
-      req.session.user = userWithoutPassword as User;
+      // Send backup via Telegram
+      await sendBackupToTelegram(backupPath);
 
-      res.json({ user: userWithoutPassword });
+      res.json({
+        message: "Backup sent to Telegram successfully",
+        userCount: backupData.users.length,
+        notificationCount: backupData.notifications?.length || 0
+      });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/config", async (req: Request, res: Response) => {
+  app.get("/api/admin/logs", async (req: Request, res: Response) => {
     try {
-      const configData = await fs.readFile("config.json", "utf-8");
-      const config = JSON.parse(configData);
-      res.json(config);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to load config" });
+      if (!req.session.user || req.session.user.role !== "admin") {
+        return res.status(403).json({ error: "Admin only" });
+      }
+
+      const logs = await storage.getActivityLogs(100);
+      res.json(logs);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/departments", async (req: Request, res: Response) => {
+  // Recent edits, deletions and hides across all rooms; ?action=edit|delete|hide narrows it
+  app.get("/api/admin/message-revisions", async (req: Request, res: Response) => {
     try {
-      const departments = await storage.getAllDepartments();
-      res.json(departments);
+      if (!req.session.user || req.session.user.role !== "admin") {
+        return res.status(403).json({ error: "Admin only" });
+      }
+
+      const action = req.query.action;
+      if (action !== undefined && action !== "edit" && action !== "delete" && action !== "hide") {
+        return res.status(400).json({ error: "action must be edit, delete or hide" });
+      }
+
+      const revisions = await storage.getRecentMessageRevisions(100, action);
+      res.json(await describeRevisions(revisions));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/rooms", async (req: Request, res: Response) => {
+  // Full history of one message, oldest first, alongside what it says now
+  app.get("/api/admin/messages/:id/revisions", async (req: Request, res: Response) => {
     try {
-      if (!req.session.user) {
-        return res.status(401).json({ error: "Not authenticated" });
+      if (!req.session.user || req.session.user.role !== "admin") {
+        return res.status(403).json({ error: "Admin only" });
       }
 
-      const user = req.session.user;
-      let rooms;
-      if (user.role === "admin" || user.role === "faculty-governor") {
-        // Admin and faculty governors see all rooms
-        rooms = await storage.getAllRooms();
-      } else {
-        // Students and department governors see general rooms + their department rooms
-        const allRooms = await storage.getAllRooms();
-        rooms = allRooms.filter(room =>
-          room.type === "general" ||
-          room.departmentName === user.departmentName ||
-          room.departmentName === null
-        );
+      const message = await storage.getMessage(req.params.id);
+      if (!message) {
+        return res.status(404).json({ error: "Message not found" });
       }
 
-      res.json(rooms);
+      const revisions = await describeRevisions(await storage.getMessageRevisions(message.id));
+      const nameOf = async (userId: string | null) => userId ? (await storage.getUser(userId))?.username ?? "Unknown" : null;
+      res.json({
+        message: { ...message, deletedByName: await nameOf(message.deletedBy), hiddenByName: await nameOf(message.hiddenBy) },
+        revisions,
+      });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/rooms", async (req: Request, res: Response) => {
+  // Keeps a message through room retention and the deleted-message purge
+  app.post("/api/admin/messages/:id/legal-hold", async (req: Request, res: Response) => {
     try {
       if (!req.session.user || req.session.user.role !== "admin") {
-        return res.status(403).json({ error: "Only admins can create rooms" });
+        return res.status(403).json({ error: "Admin only" });
       }
 
-      const { name, type, departmentName } = req.body;
-      const room = await storage.createRoom({
-        name,
-        type: type || "custom",
-        departmentName: departmentName || null,
-        createdBy: req.session.user.id,
-      });
+      const message = await storage.getMessage(req.params.id);
+      if (!message) {
+        return res.status(404).json({ error: "Message not found" });
+      }
 
+      const legalHold = req.body.hold !== false;
+      await storage.updateMessage(message.id, { legalHold });
       await storage.createActivityLog({
         userId: req.session.user.id,
-        action: "ROOM_CREATED",
-        details: { roomId: room.id, roomName: name },
-      });
-
-      // Broadcast new room to all connected clients
-      allClients.forEach((client) => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({
-            type: "new_room",
-            room: room,
-          }));
-        }
+        action: legalHold ? "MESSAGE_LEGAL_HOLD_PLACED" : "MESSAGE_LEGAL_HOLD_RELEASED",
+        details: { messageId: message.id, roomId: message.roomId },
       });
 
-      res.json(room);
+      broadcastToRoom(message.roomId, { type: "message_legal_hold", messageId: message.id, legalHold });
+      res.json({ messageId: message.id, legalHold });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.delete("/api/rooms/:id", async (req: Request, res: Response) => {
+  app.post("/api/reports", async (req: Request, res: Response) => {
     try {
-      if (!req.session.user || req.session.user.role !== "admin") {
-        return res.status(403).json({ error: "Only admins can delete rooms" });
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
       }
 
-      const room = await storage.getRoom(req.params.id);
-      if (room && (room.type === "general" || room.type === "department")) {
-        return res.status(400).json({ error: "Cannot delete default rooms" });
+      const { targetType, targetId, reason, details } = req.body;
+      if (!reportTargetTypes.includes(targetType) || typeof targetId !== "string" || !targetId) {
+        return res.status(400).json({ error: "targetType must be message, comment or document, with a targetId" });
+      }
+      if (!reportReasons.includes(reason)) {
+        return res.status(400).json({ error: "reason must be spam, harassment, inappropriate or other" });
+      }
+      if (details !== undefined && details !== null &&
+          (typeof details !== "string" || details.length > MAX_REPORT_DETAILS_LENGTH)) {
+        return res.status(400).json({ error: `Details must be text of at most ${MAX_REPORT_DETAILS_LENGTH} characters` });
+      }
+
+      const target = await loadReportTarget(targetType, targetId);
+      if (!target || !(await canViewReportTarget(req.session.user, target))) {
+        return res.status(404).json({ error: "Content not found" });
+      }
+      if (target.removed) {
+        return res.status(400).json({ error: "This content has already been deleted" });
+      }
+      if (target.author?.id === req.session.user.id) {
+        return res.status(400).json({ error: "You cannot report your own content" });
+      }
+
+      const report = await storage.createReport({
+        targetType,
+        targetId,
+        reporterId: req.session.user.id,
+        reason,
+        details: details?.trim() || null,
+        authorId: target.author?.id ?? null,
+        departmentName: target.departmentName,
+      });
+      if (!report) {
+        return res.status(409).json({ error: "You have already reported this" });
       }
 
-      await storage.deleteRoom(req.params.id);
       await storage.createActivityLog({
         userId: req.session.user.id,
-        action: "ROOM_DELETED",
-        details: { roomId: req.params.id },
+        action: "CONTENT_REPORTED",
+        details: { reportId: report.id, targetType, targetId, reason },
       });
 
-      res.json({ message: "Room deleted" });
+      announceReportQueue("report_created", report);
+      res.json(report);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Push notification endpoints
-  app.get("/api/push/vapid-public-key", async (req: Request, res: Response) => {
-    const { getVapidPublicKey } = await import('./webpush');
-    const publicKey = getVapidPublicKey();
-
-    if (!publicKey) {
-      return res.status(404).json({ error: "Push notifications not configured" });
-    }
+  // The moderation queue, one entry per reported item. ?status=closed lists
+  // recently handled reports instead of open ones.
+  app.get("/api/reports", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      const user = req.session.user;
+      if (user.role !== "admin" && user.role !== "department-governor") {
+        return res.status(403).json({ error: "Only admins and department governors can review reports" });
+      }
 
-    res.json({ publicKey });
-  });
+      const status = req.query.status === "closed" ? "closed" : "open";
+      const reports = await storage.getReports(status, user.role === "admin" ? undefined : user.departmentName);
 
-  app.post("/api/push/subscribe", async (req: Request, res: Response) => {
-    if (!req.session.user) {
-      return res.status(401).json({ error: "Not authenticated" });
-    }
+      const names = new Map<string, string>();
+      const nameOf = async (userId: string | null) => {
+        if (!userId) return null;
+        if (!names.has(userId)) {
+          names.set(userId, (await storage.getUser(userId))?.username ?? "Unknown");
+        }
+        return names.get(userId)!;
+      };
 
-    try {
-      const { endpoint, keys } = req.body;
+      const groups = new Map<string, Report[]>();
+      for (const report of reports) {
+        const key = `${report.targetType}:${report.targetId}`;
+        groups.set(key, [...(groups.get(key) ?? []), report]);
+      }
 
-      await storage.createPushSubscription({
-        userId: req.session.user.id,
-        endpoint,
-        p256dh: keys.p256dh,
-        auth: keys.auth
-      });
+      const items = [];
+      for (const group of Array.from(groups.values())) {
+        const [first] = group;
+        const target = await loadReportTarget(first.targetType as ReportTargetType, first.targetId);
+        items.push({
+          targetType: first.targetType,
+          targetId: first.targetId,
+          departmentName: first.departmentName,
+          exists: !!target,
+          ...(target ? await describeReportTarget(target) : { authorName: null, content: "", context: null }),
+          reports: await Promise.all(group.map(async (report) => ({
+            id: report.id,
+            reason: report.reason,
+            details: report.details,
+            reporterName: await nameOf(report.reporterId),
+            status: report.status,
+            resolution: report.resolution,
+            resolvedByName: await nameOf(report.resolvedBy),
+            resolvedAt: report.resolvedAt,
+            createdAt: report.createdAt,
+          }))),
+        });
+      }
 
-      res.json({ success: true });
+      res.json(items);
     } catch (error: any) {
-      console.error("Push subscription error:", error);
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/notifications", async (req: Request, res: Response) => {
+  // Acts on every open report against one item: dismiss, hide, delete, warn or mute
+  app.post("/api/reports/:targetType/:targetId/resolve", async (req: Request, res: Response) => {
     try {
       if (!req.session.user) {
         return res.status(401).json({ error: "Not authenticated" });
       }
-
       const user = req.session.user;
-      const allNotifications = await storage.getAllNotifications();
 
-      const visibleNotifications = allNotifications.filter(notification => {
-        if (notification.targetDepartmentName === null) {
-          return true;
+      const targetType = req.params.targetType as ReportTargetType;
+      const open = reportTargetTypes.includes(targetType)
+        ? await storage.getOpenReportsForTarget(targetType, req.params.targetId)
+        : [];
+      if (open.length === 0) {
+        return res.status(404).json({ error: "No open reports for this content" });
+      }
+      if (!canModerateReports(user, open[0].departmentName)) {
+        return res.status(403).json({ error: "You cannot review reports from another department" });
+      }
+
+      const action = req.body.action as ReportResolution;
+      if (!reportResolutions.includes(action)) {
+        return res.status(400).json({ error: "action must be dismiss, hide, delete, warn or mute" });
+      }
+      const minutes = action === "mute" ? Number(req.body.minutes ?? 60) : 0;
+      if (action === "mute" && (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_MUTE_MINUTES)) {
+        return res.status(400).json({ error: `minutes must be between 1 and ${MAX_MUTE_MINUTES}` });
+      }
+
+      const target = await loadReportTarget(targetType, req.params.targetId);
+      if (action !== "dismiss") {
+        if (!target) {
+          return res.status(409).json({ error: "The reported content no longer exists, dismiss the report instead" });
+        }
+        if (user.role !== "admin" && target.author && target.author.role !== "student") {
+          return res.status(403).json({ error: "Only an admin can act on content posted by staff" });
+        }
+        if (target.author?.role === "admin" && (action === "warn" || action === "mute")) {
+          return res.status(403).json({ error: "Admins cannot be warned or muted" });
+        }
+        if ((action === "warn" || action === "mute") && !target.author) {
+          return res.status(400).json({ error: "This content has no author to act on" });
         }
+        if ((action === "hide" || action === "delete") && target.removed) {
+          return res.status(400).json({ error: "This content has already been deleted" });
+        }
+        if (action === "hide" && target.hidden) {
+          return res.status(400).json({ error: "This content is already hidden" });
+        }
+      }
 
-        if (user.role === "admin" || user.role === "faculty-governor") {
-          return true;
+      let mutedUntil: Date | null = null;
+      if (target && action === "hide") {
+        if (target.type === "message") {
+          await hideMessage(target.room, target.message, user.id);
+        } else if (target.type === "comment") {
+          const updated = await storage.updateNotificationComment(target.comment.id, { hiddenAt: new Date(), hiddenBy: user.id });
+          announceCommentChange(target.notification, "updated", updated!);
+          await announceCommentCount(target.notification);
+        } else {
+          await storage.updateDocument(target.document.id, { hiddenAt: new Date(), hiddenBy: user.id });
         }
+      } else if (target && action === "delete") {
+        if (target.type === "message") {
+          await removeMessage(target.room, target.message, user.id);
+        } else if (target.type === "comment") {
+          const updated = await storage.updateNotificationComment(target.comment.id, { deletedAt: new Date(), deletedBy: user.id });
+          announceCommentChange(target.notification, "updated", updated!);
+          await announceCommentCount(target.notification);
+        } else {
+          await removeDocument(target.document);
+        }
+      } else if (target?.author && action === "warn") {
+        const note = typeof req.body.note === "string" && req.body.note.trim() ? req.body.note.trim() : null;
+        sendToUser(target.author.id, { type: "moderation_warning", targetType, reason: open[0].reason, note });
+        try {
+          await sendPushNotification(target.author.id, {
+            title: "Moderation warning",
+            body: note ?? "Something you posted was reported and reviewed by a moderator. Please follow the community rules.",
+          });
+        } catch (pushError) {
+          logger.error("Failed to send push notification", pushError, { userId: target.author.id });
+        }
+      } else if (target?.author && action === "mute") {
+        mutedUntil = new Date(Date.now() + minutes * 60 * 1000);
+        const muted = await storage.updateUser(target.author.id, { mutedUntil, muteReason: null });
+        if (muted) refreshUser(muted);
+        sendToUser(target.author.id, { type: "account_muted", mutedUntil });
+      }
+
+      const resolved = await storage.resolveReports(targetType, req.params.targetId, {
+        status: action === "dismiss" ? "dismissed" : "resolved",
+        resolution: action,
+        resolvedBy: user.id,
+      });
 
-        return notification.targetDepartmentName === user.departmentName;
+      const logActions: Record<ReportResolution, string> = {
+        dismiss: "REPORT_DISMISSED",
+        hide: "REPORTED_CONTENT_HIDDEN",
+        delete: "REPORTED_CONTENT_DELETED",
+        warn: "REPORTED_USER_WARNED",
+        mute: "REPORTED_USER_MUTED",
+      };
+      await storage.createActivityLog({
+        userId: user.id,
+        action: logActions[action],
+        details: {
+          targetType,
+          targetId: req.params.targetId,
+          reportIds: resolved.map(report => report.id),
+          authorId: target?.author?.id ?? null,
+          ...(mutedUntil ? { mutedUntil } : {}),
+        },
       });
 
-      res.json(visibleNotifications);
+      announceReportQueue("report_resolved", open[0]);
+      res.json({ resolved: resolved.length, mutedUntil });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/notifications", async (req: Request, res: Response) => {
+  app.get("/api/admin/users", async (req: Request, res: Response) => {
     try {
-      if (!req.session.user) {
-        return res.status(401).json({ error: "Not authenticated" });
+      if (!req.session.user || req.session.user.role !== "admin") {
+        return res.status(403).json({ error: "Admin only" });
       }
 
-      const allowedRoles = ["faculty-governor", "department-governor", "admin"];
-      if (!allowedRoles.includes(req.session.user.role)) {
-        return res.status(403).json({ error: "Not authorized to post notifications" });
+      const users = await storage.getAllUsers();
+      const usersWithoutPassword = users.map(u => ({ ...u, password: undefined }));
+      res.json(usersWithoutPassword);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Mutes, suspends, bans or reinstates an account. Suspensions and bans take
+  // effect at once: the user's sessions and sockets are closed.
+  app.post("/api/admin/users/:id/status", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user || req.session.user.role !== "admin") {
+        return res.status(403).json({ error: "Admin only" });
       }
 
-      const { title, content, notificationType, targetDepartmentName } = req.body;
+      const { action } = req.body;
+      if (!accountActions.includes(action)) {
+        return res.status(400).json({ error: "action must be mute, unmute, suspend, ban or reinstate" });
+      }
+      const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+      if ((action === "suspend" || action === "ban") && !reason) {
+        return res.status(400).json({ error: "A reason is required" });
+      }
+      if (reason.length > MAX_ACCOUNT_REASON_LENGTH) {
+        return res.status(400).json({ error: `reason must be at most ${MAX_ACCOUNT_REASON_LENGTH} characters` });
+      }
+      const hours = Number(req.body.hours);
+      const maxHours = action === "mute" ? MAX_MUTE_MINUTES / 60 : MAX_SUSPENSION_HOURS;
+      if ((action === "mute" || action === "suspend") && (!Number.isInteger(hours) || hours < 1 || hours > maxHours)) {
+        return res.status(400).json({ error: `hours must be between 1 and ${maxHours}` });
+      }
+
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (target.role === "admin") {
+        return res.status(400).json({ error: "Admin accounts cannot be muted or suspended" });
+      }
+
+      const until = hours ? new Date(Date.now() + hours * 60 * 60 * 1000) : null;
+      let updated: User | undefined;
+      if (action === "mute") {
+        updated = await storage.updateUser(target.id, { mutedUntil: until, muteReason: reason || null });
+        sendToUser(target.id, { type: "account_muted", mutedUntil: until, reason: reason || null });
+      } else if (action === "unmute") {
+        updated = await storage.updateUser(target.id, { mutedUntil: null, muteReason: null });
+      } else if (action === "reinstate") {
+        updated = await storage.updateUser(target.id, { accountStatus: "active", suspendedUntil: null, statusReason: null });
+      } else {
+        updated = await storage.updateUser(target.id, {
+          accountStatus: action === "ban" ? "banned" : "suspended",
+          suspendedUntil: action === "ban" ? null : until,
+          statusReason: reason,
+        });
+        const lock = updated && getAccountLock(updated);
+        if (lock) revokeUserAccess(target.id, lock);
+      }
+      if (updated) refreshUser(updated);
+
+      const logActions: Record<typeof accountActions[number], string> = {
+        mute: "USER_MUTED",
+        unmute: "USER_UNMUTED",
+        suspend: "USER_SUSPENDED",
+        ban: "USER_BANNED",
+        reinstate: "USER_REINSTATED",
+      };
+      await storage.createActivityLog({
+        userId: req.session.user.id,
+        action: logActions[action as typeof accountActions[number]],
+        details: {
+          targetUserId: target.id,
+          targetUsername: target.username,
+          ...(reason ? { reason } : {}),
+          ...(until ? { until } : {}),
+        },
+      });
+
+      res.json({ ...updated, password: undefined });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      if (!content || content.trim() === "") {
-        return res.status(400).json({ error: "Notification content is required" });
+  app.delete("/api/admin/users/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user || req.session.user.role !== "admin") {
+        return res.status(403).json({ error: "Admin only" });
       }
 
-      let type = "general";
-      let target = null;
-
-      if (req.session.user.role === "department-governor") {
-        if (targetDepartmentName === null || targetDepartmentName === undefined) {
-          type = "general";
-          target = null;
-        } else {
-          type = "department";
-          target = req.session.user.departmentName;
-        }
-      } else if (targetDepartmentName && targetDepartmentName !== "") {
-        type = "department";
-        target = targetDepartmentName;
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
       }
 
-      const notification = await storage.createNotification({
-        type,
-        notificationType: notificationType || "regular",
-        title: title || "Notification",
-        content: content.trim(),
-        postedBy: req.session.user.username,
-        targetDepartmentName: target,
-        reactions: {},
-        comments: [],
-      });
+      if (user.role === "admin") {
+        return res.status(400).json({ error: "Cannot delete admin users" });
+      }
 
+      await storage.deleteUser(req.params.id);
+      disconnectUser(req.params.id, 4401, "Account deleted");
       await storage.createActivityLog({
         userId: req.session.user.id,
-        action: "NOTIFICATION_POSTED",
-        details: { notificationId: notification.id, type: notificationType },
+        action: "USER_DELETED",
+        details: { deletedUserId: req.params.id, deletedUsername: user.username },
       });
 
-      // Send push notification to subscribed users if the notification is relevant to them
-      const subscribedUsers = await storage.getPushSubscribersForDepartment(target);
-      for (const sub of subscribedUsers) {
-        const user = await storage.getUser(sub.userId);
-        if (user && user.username !== req.session.user.username) { // Don't send notification to sender
-          try {
-            await sendPushNotification(
-              user.username, // Assuming sendPushNotification can use username to fetch subscription
-              notification.title,
-              notification.content
-            );
-          } catch (pushError) {
-            logger.error("Failed to send push notification", pushError, { userId: sub.userId });
-          }
-        }
-      }
-
       // Update local backup file immediately (without sending to Telegram)
       try {
         await generateAdminBackup();
-        console.log("✓ Local backup updated after notification creation");
+        console.log("✓ Local backup updated after user deletion");
       } catch (error) {
-        console.error("✗ Local backup update failed after notification:", error);
+        console.error("✗ Local backup update failed after user deletion:", error);
       }
 
-      res.json(notification);
+      res.json({ message: "User deleted successfully" });
     } catch (error: any) {
-      console.error("Notification posting error:", error);
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.patch("/api/notifications/:id", async (req: Request, res: Response) => {
+  app.get("/api/users/profile/:username", async (req: Request, res: Response) => {
     try {
       if (!req.session.user) {
         return res.status(401).json({ error: "Not authenticated" });
       }
 
-      const notification = await storage.updateNotification(req.params.id, req.body);
-      res.json(notification);
+      const user = await storage.getUserByUsername(req.params.username);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const userWithoutPassword = { ...user, password: undefined };
+      res.json(userWithoutPassword);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/notifications/:id/react", async (req: Request, res: Response) => {
+  // Users with at least one open connection; changes arrive as presence_changed events
+  app.get("/api/presence", async (req: Request, res: Response) => {
     try {
       if (!req.session.user) {
         return res.status(401).json({ error: "Not authenticated" });
       }
 
-      const { reactionType } = req.body;
-      const notification = await storage.getNotification(req.params.id);
-
-      if (!notification) {
-        return res.status(404).json({ error: "Notification not found" });
-      }
-
-      const reactions = (notification.reactions as any) || {};
-      reactions[reactionType] = (reactions[reactionType] || 0) + 1;
-
-      const updated = await storage.updateNotification(req.params.id, { reactions });
-      res.json(updated);
+      res.json(getOnlineUsers());
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/notifications/:id/comment", async (req: Request, res: Response) => {
+  // Serve uploaded files to whoever may see what they are attached to. The
+  // path is the file's storage key, e.g. /api/files/chat-images/<id>.png
+  app.get("/api/files/:namespace/:name", async (req: Request, res: Response) => {
     try {
       if (!req.session.user) {
         return res.status(401).json({ error: "Not authenticated" });
       }
 
-      const { content } = req.body;
-      if (!content || content.trim() === "") {
-        return res.status(400).json({ error: "Comment content is required" });
-      }
-
-      const notification = await storage.getNotification(req.params.id);
-
-      if (!notification) {
-        return res.status(404).json({ error: "Notification not found" });
+      const key = `${req.params.namespace}/${req.params.name}`;
+      if (!isBlobKey(key) || !(await canAccessUpload(req.session.user, key))) {
+        return res.status(404).json({ error: "File not found" });
       }
-
-      const comments = (notification.comments as any[]) || [];
-      const newComment = {
-        id: Date.now().toString(),
-        author: req.session.user.username,
-        content: content.trim(),
-        timestamp: new Date().toISOString(),
-      };
-      comments.push(newComment);
-
-      const updated = await storage.updateNotification(req.params.id, { comments });
-      res.json(updated);
+      await sendStoredFile(req, res, key, {
+        'Content-Type': contentTypeFor(key),
+        'Cache-Control': 'private',
+        'X-Content-Type-Options': 'nosniff',
+      });
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      if (!res.headersSent) res.status(500).json({ error: error.message });
     }
   });
 
-  app.delete("/api/notifications/:id", async (req: Request, res: Response) => {
+  // The caller's library storage and the limits that apply to their uploads
+  app.get("/api/storage/usage", async (req: Request, res: Response) => {
     try {
       if (!req.session.user) {
         return res.status(401).json({ error: "Not authenticated" });
       }
 
-      // Allow deletion by admins, faculty governors, and department governors
-      const allowedRoles = ["admin", "faculty-governor", "department-governor"];
-      if (!allowedRoles.includes(req.session.user.role)) {
-        return res.status(403).json({ error: "Not authorized to delete notifications" });
-      }
-
-      const notification = await storage.getNotification(req.params.id);
-      if (!notification) {
-        return res.status(404).json({ error: "Notification not found" });
-      }
-
-      // Department governors can only delete notifications they posted or for their department
-      if (req.session.user.role === "department-governor") {
-        const canDelete =
-          notification.postedBy === req.session.user.username ||
-          notification.targetDepartmentName === req.session.user.departmentName;
-
-        if (!canDelete) {
-          return res.status(403).json({ error: "You can only delete your own notifications or notifications for your department" });
-        }
-      }
-
-      await storage.deleteNotification(req.params.id);
-
-      await storage.createActivityLog({
-        userId: req.session.user.id,
-        action: "NOTIFICATION_DELETED",
-        details: { notificationId: req.params.id, title: notification.title },
+      const user = req.session.user;
+      const userQuota = getUserQuota(uploadSettings, user);
+      const departmentQuota = uploadSettings.departmentQuotaBytes;
+      res.json({
+        user: {
+          used: await storage.getDocumentStorageUsage({ uploadedBy: user.username }),
+          quota: userQuota > 0 ? userQuota : null,
+        },
+        department: {
+          name: user.departmentName,
+          used: await storage.getDocumentStorageUsage({ departmentName: user.departmentName }),
+          quota: departmentQuota > 0 ? departmentQuota : null,
+        },
+        documents: uploadSettings.documents,
+        chatImages: uploadSettings.chatImages,
       });
-
-      // Update local backup file immediately (without sending to Telegram)
-      try {
-        await generateAdminBackup();
-        console.log("✓ Local backup updated after notification deletion");
-      } catch (error) {
-        console.error("✗ Local backup update failed after deletion:", error);
-      }
-
-      res.json({ message: "Notification deleted successfully" });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Original document upload endpoint - to be replaced by the new one below
-  // app.post("/api/documents", upload.single("file"), async (req: any, res: Response) => {
-  //   try {
-  //     if (!req.session.user) {
-  //       return res.status(401).json({ error: "Not authenticated" });
-  //     }
-
-  //     if (!req.file) {
-  //       return res.status(400).json({ error: "No file uploaded" });
-  //     }
+  // Register AI routes
+  registerAIRoutes(app);
 
-  //     const document = await storage.createDocument({
-  //       name: req.file.originalname,
-  //       path: req.file.path,
-  //       owner: req.session.user.username,
-  //       departmentName: req.body.departmentName || req.session.user.departmentName,
-  //       fileType: path.extname(req.file.originalname),
-  //       size: req.file.size,
-  //       expiration: req.body.expiration ? new Date(req.body.expiration) : null,
-  //     });
+  // Document upload endpoint. Files go into a folder of a department's library,
+  // or its top level, shared as chosen in visibility.
+  app.post("/api/documents/upload", acceptUpload("document"), async (req: Request, res: Response) => {
+    if (!req.session.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
 
-  //     await storage.createActivityLog({
-  //       userId: req.session.user.id,
-  //       action: "DOCUMENT_UPLOADED",
-  //       details: { documentId: document.id, fileName: req.file.originalname },
-  //     });
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
 
-  //     res.json(document);
-  //   } catch (error: any) {
-  //     res.status(500).json({ error: error.message });
-  //   }
-  // });
+    // multer has already saved the file; drop it when the upload is refused
+    const reject = async (status: number, error: string) => {
+      await fs.unlink(file.path).catch(() => {});
+      return res.status(status).json({ error });
+    };
 
-  app.delete("/api/documents/:id", async (req: Request, res: Response) => {
     try {
-      if (!req.session.user) {
-        return res.status(401).json({ error: "Not authenticated" });
+      const user = req.session.user;
+      let departmentName: string = req.body.departmentName || user.departmentName;
+      let folderId: string | null = null;
+      if (req.body.folderId) {
+        const folder = await storage.getDocumentFolder(req.body.folderId);
+        if (!folder) {
+          return reject(404, "Folder not found");
+        }
+        departmentName = folder.departmentName;
+        folderId = folder.id;
       }
-
-      const document = await storage.getDocument(req.params.id);
-      if (!document) {
-        return res.status(404).json({ error: "Document not found" });
+      if (!(await storage.getAllDepartments()).some(department => department.name === departmentName)) {
+        return reject(400, "Unknown department");
       }
-
-      if (document.owner !== req.session.user.username && req.session.user.role !== "admin") {
-        return res.status(403).json({ error: "Not authorized" });
+      if (!canAccessDepartment(user, departmentName)) {
+        return reject(403, "You can only upload to your own department's library");
+      }
+      const invalid = await validateUpload(file, uploadSettings.documents);
+      if (invalid) {
+        return reject(invalid.status, invalid.error);
+      }
+      const overQuota = await checkStorageQuota(user, departmentName, file.size);
+      if (overQuota) {
+        return reject(403, overQuota);
       }
 
-      try {
-        await fs.unlink(document.path);
-      } catch (err) {
-        console.error("Error deleting file:", err);
+      const visibility = await parseDocumentVisibility(req.body);
+      if (visibility.error) {
+        return reject(400, visibility.error);
       }
+      const { note, error: noteError } = parseVersionNote(req.body);
+      if (noteError) {
+        return reject(400, noteError);
+      }
+
+      const key = newBlobKey("documents", file.originalname);
+      await getBlobStorage().put(key, file.path, contentTypeFor(file.originalname));
+
+      const document = await storage.createDocument({
+        name: file.originalname,
+        owner: user.username,
+        departmentName,
+        folderId,
+        ...visibility.values,
+        path: key,
+        fileType: path.extname(file.originalname),
+        size: file.size,
+        expiration: null,
+      });
+      await storage.createDocumentVersion({
+        documentId: document.id,
+        version: document.version,
+        name: document.name,
+        path: document.path,
+        fileType: document.fileType,
+        size: document.size,
+        uploadedBy: user.username,
+        note,
+      });
 
-      await storage.deleteDocument(req.params.id);
       await storage.createActivityLog({
-        userId: req.session.user.id,
-        action: "DOCUMENT_DELETED",
-        details: { documentId: req.params.id },
+        userId: user.id,
+        action: "DOCUMENT_UPLOADED",
+        details: { documentId: document.id, fileName: file.originalname, folderId, visibility: document.visibility },
       });
 
-      res.json({ message: "Document deleted" });
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      res.json(document);
+    } catch (error) {
+      console.error("Document upload error:", error);
+      res.status(500).json({ error: "Failed to upload document" });
     }
   });
 
-  app.get("/api/admin/backup", async (req: Request, res: Response) => {
+  // Lists what the user may download: one folder (folderId), the top level of a
+  // department's library (departmentName), or with neither every document
+  app.get("/api/documents", async (req: Request, res: Response) => {
+    if (!req.session.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
     try {
-      if (!req.session.user || req.session.user.role !== "admin") {
-        return res.status(403).json({ error: "Admin only" });
+      const user = req.session.user;
+      const { folderId, departmentName } = req.query;
+      let documents: Document[];
+      if (typeof folderId === "string" && folderId) {
+        const folder = await storage.getDocumentFolder(folderId);
+        if (!folder) {
+          return res.status(404).json({ error: "Folder not found" });
+        }
+        documents = await storage.getDocumentsInFolder(folder.departmentName, folder.id);
+      } else if (typeof departmentName === "string" && departmentName) {
+        documents = await storage.getDocumentsInFolder(departmentName, null);
+      } else {
+        documents = await storage.getAllDocuments();
       }
+      res.json(documents.filter(doc => canAccessDocument(user, doc)));
+    } catch (error) {
+      console.error("Get documents error:", error);
+      res.status(500).json({ error: "Failed to get documents" });
+    }
+  });
 
-      const { backupPath, backupData } = await generateAdminBackup();
-
-      // Ensure notifications are in the backup
-      const notificationCount = backupData.notifications?.length || 0;
-
-      await storage.createActivityLog({
-        userId: req.session.user.id,
-        action: "CREDENTIALS_BACKUP",
-        details: {
-          userCount: backupData.users.length,
-          notificationCount
-        },
-      });
+  app.get("/api/documents/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
 
-      res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Content-Disposition', 'attachment; filename=admin_backup.json');
-      res.json(backupData);
+      const doc = await storage.getDocument(req.params.id);
+      if (!doc || !canAccessDocument(req.session.user, doc)) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      res.json(doc);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/admin/telegram-backup", async (req: Request, res: Response) => {
+  // Replaces a document's file with a new version. Earlier versions stay
+  // downloadable, and whoever downloaded one of them is told about the new one.
+  app.post("/api/documents/:id/versions", acceptUpload("document"), async (req: Request, res: Response) => {
+    if (!req.session.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    const reject = async (status: number, error: string) => {
+      await fs.unlink(file.path).catch(() => {});
+      return res.status(status).json({ error });
+    };
+
     try {
-      if (!req.session.user || req.session.user.role !== "admin") {
-        return res.status(403).json({ error: "Admin only" });
+      const user = req.session.user;
+      const doc = await storage.getDocument(req.params.id);
+      if (!doc || !canAccessDocument(user, doc)) {
+        return reject(404, "Document not found");
+      }
+      if (doc.owner !== user.username && !canManageDocumentFolders(user, doc.departmentName)) {
+        return reject(403, "Only the owner or the library's governors can upload new versions");
+      }
+      const invalid = await validateUpload(file, uploadSettings.documents);
+      if (invalid) {
+        return reject(invalid.status, invalid.error);
+      }
+      const overQuota = await checkStorageQuota(user, doc.departmentName, file.size);
+      if (overQuota) {
+        return reject(403, overQuota);
+      }
+      const { note, error: noteError } = parseVersionNote(req.body);
+      if (noteError) {
+        return reject(400, noteError);
       }
 
-      const { backupPath, backupData } = await generateAdminBackup();
+      await loadDocumentVersions(doc);
+      const key = newBlobKey("documents", file.originalname);
+      await getBlobStorage().put(key, file.path, contentTypeFor(file.originalname));
+      const { version, document: updated } = await storage.addDocumentVersion({
+        documentId: doc.id,
+        name: file.originalname,
+        path: key,
+        fileType: path.extname(file.originalname),
+        size: file.size,
+        uploadedBy: user.username,
+        note,
+      }).catch(async (error) => {
+        // Nothing points at the stored file without its version row
+        await getBlobStorage().delete(key).catch(() => {});
+        throw error;
+      });
 
       await storage.createActivityLog({
-        userId: req.session.user.id,
-        action: "TELEGRAM_BACKUP_MANUAL",
-        details: {
-          userCount: backupData.users.length,
-          notificationCount: backupData.notifications?.length || 0
-        },
+        userId: user.id,
+        action: "DOCUMENT_VERSION_UPLOADED",
+        details: { documentId: doc.id, version: version.version, fileName: file.originalname },
       });
 
-      // Send backup via Telegram
-      await sendBackupToTelegram(backupPath);
-
-      res.json({
-        message: "Backup sent to Telegram successfully",
-        userCount: backupData.users.length,
-        notificationCount: backupData.notifications?.length || 0
-      });
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      await announceDocumentVersion(updated, version);
+      res.json(updated);
+    } catch (error) {
+      console.error("Document version upload error:", error);
+      res.status(500).json({ error: "Failed to upload document version" });
     }
   });
 
-  app.get("/api/admin/logs", async (req: Request, res: Response) => {
+  app.get("/api/documents/:id/versions", async (req: Request, res: Response) => {
     try {
-      if (!req.session.user || req.session.user.role !== "admin") {
-        return res.status(403).json({ error: "Admin only" });
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
       }
 
-      const logs = await storage.getActivityLogs(100);
-      res.json(logs);
+      const doc = await storage.getDocument(req.params.id);
+      if (!doc || !canAccessDocument(req.session.user, doc)) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      const versions = await loadDocumentVersions(doc);
+      res.json(versions.map(({ path: _, ...version }) => version));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/admin/users", async (req: Request, res: Response) => {
+  // Every folder of one department's library; clients build the tree from parentId
+  app.get("/api/document-folders", async (req: Request, res: Response) => {
     try {
-      if (!req.session.user || req.session.user.role !== "admin") {
-        return res.status(403).json({ error: "Admin only" });
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
       }
 
-      const users = await storage.getAllUsers();
-      const usersWithoutPassword = users.map(u => ({ ...u, password: undefined }));
-      res.json(usersWithoutPassword);
+      const departmentName = typeof req.query.departmentName === "string" && req.query.departmentName
+        ? req.query.departmentName
+        : req.session.user.departmentName;
+      // Shared documents can be opened from other libraries, but their folder trees stay private
+      if (!canAccessDepartment(req.session.user, departmentName)) {
+        return res.status(403).json({ error: "You can only browse your own department's folders" });
+      }
+      res.json(await storage.getDocumentFolders(departmentName));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.delete("/api/admin/users/:id", async (req: Request, res: Response) => {
+  app.post("/api/document-folders", async (req: Request, res: Response) => {
     try {
-      if (!req.session.user || req.session.user.role !== "admin") {
-        return res.status(403).json({ error: "Admin only" });
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
       }
 
-      const user = await storage.getUser(req.params.id);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      const user = req.session.user;
+      const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+      if (!name || name.length > 100) {
+        return res.status(400).json({ error: "Folder name must be 1 to 100 characters" });
       }
 
-      if (user.role === "admin") {
-        return res.status(400).json({ error: "Cannot delete admin users" });
+      let departmentName: string = req.body.departmentName || user.departmentName;
+      let parentId: string | null = null;
+      if (req.body.parentId) {
+        const parent = await storage.getDocumentFolder(req.body.parentId);
+        if (!parent) {
+          return res.status(404).json({ error: "Parent folder not found" });
+        }
+        departmentName = parent.departmentName;
+        parentId = parent.id;
+      }
+      if (!(await storage.getAllDepartments()).some(department => department.name === departmentName)) {
+        return res.status(400).json({ error: "Unknown department" });
+      }
+      if (!canManageDocumentFolders(user, departmentName)) {
+        return res.status(403).json({ error: "Only governors and admins can create folders" });
       }
 
-      await storage.deleteUser(req.params.id);
+      const siblings = (await storage.getDocumentFolders(departmentName)).filter(folder => folder.parentId === parentId);
+      if (siblings.some(folder => folder.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(409).json({ error: "A folder with this name already exists here" });
+      }
+
+      const folder = await storage.createDocumentFolder({ name, departmentName, parentId, createdBy: user.id });
       await storage.createActivityLog({
-        userId: req.session.user.id,
-        action: "USER_DELETED",
-        details: { deletedUserId: req.params.id, deletedUsername: user.username },
+        userId: user.id,
+        action: "DOCUMENT_FOLDER_CREATED",
+        details: { folderId: folder.id, name, departmentName },
       });
 
-      // Update local backup file immediately (without sending to Telegram)
-      try {
-        await generateAdminBackup();
-        console.log("✓ Local backup updated after user deletion");
-      } catch (error) {
-        console.error("✗ Local backup update failed after user deletion:", error);
-      }
-
-      res.json({ message: "User deleted successfully" });
+      res.json(folder);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/users/profile/:username", async (req: Request, res: Response) => {
+  // Only empty folders can be deleted, so no document is lost by accident
+  app.delete("/api/document-folders/:id", async (req: Request, res: Response) => {
     try {
       if (!req.session.user) {
         return res.status(401).json({ error: "Not authenticated" });
       }
 
-      const user = await storage.getUserByUsername(req.params.username);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      const folder = await storage.getDocumentFolder(req.params.id);
+      if (!folder) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      if (!canManageDocumentFolders(req.session.user, folder.departmentName)) {
+        return res.status(403).json({ error: "Only governors and admins can delete folders" });
       }
 
-      const userWithoutPassword = { ...user, password: undefined };
-      res.json(userWithoutPassword);
+      const subfolders = (await storage.getDocumentFolders(folder.departmentName)).filter(f => f.parentId === folder.id);
+      const documents = await storage.getDocumentsInFolder(folder.departmentName, folder.id);
+      if (subfolders.length > 0 || documents.length > 0) {
+        return res.status(409).json({ error: "Move or delete what is in the folder first" });
+      }
+
+      await storage.deleteDocumentFolder(folder.id);
+      await storage.createActivityLog({
+        userId: req.session.user.id,
+        action: "DOCUMENT_FOLDER_DELETED",
+        details: { folderId: folder.id, name: folder.name, departmentName: folder.departmentName },
+      });
+
+      res.json({ message: "Folder deleted" });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Serve uploaded files
-  app.get("/uploads/:filename", async (req: Request, res: Response) => {
-    try {
-      const filePath = path.join(process.cwd(), "uploads", req.params.filename);
-      res.sendFile(filePath);
-    } catch (error) {
-      res.status(404).json({ error: "File not found" });
-    }
-  });
-
-  // Register AI routes
-  registerAIRoutes(app);
-
-  // Document upload endpoint
-  app.post("/api/documents/upload", upload.single("document"), async (req: Request, res: Response) => {
-    if (!req.session.user) {
-      return res.status(401).json({ error: "Not authenticated" });
-    }
-
-    const file = req.file;
-    if (!file) {
-      return res.status(400).json({ error: "No file uploaded" });
-    }
-
+  // Document download endpoint
+  app.get("/api/documents/:id/download", async (req: Request, res: Response) => {
     try {
-      const document = await storage.createDocument({
-        name: file.originalname,
-        owner: req.session.user.username,
-        departmentName: req.session.user.departmentName,
-        path: file.path,
-        fileType: path.extname(file.originalname),
-        size: file.size,
-        expiration: null,
-      });
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
 
-      await storage.createActivityLog({
-        userId: req.session.user.id,
-        action: "DOCUMENT_UPLOADED",
-        details: { documentId: document.id, fileName: file.originalname },
-      });
+      const doc = await storage.getDocument(req.params.id);
+      if (!doc) {
+        return res.status(404).json({ error: "Document not found" });
+      }
 
-      res.json(document);
-    } catch (error) {
-      console.error("Document upload error:", error);
-      res.status(500).json({ error: "Failed to upload document" });
-    }
-  });
+      // Check permissions
+      if (!canAccessDocument(req.session.user, doc)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
 
-  // Get documents endpoint
-  app.get("/api/documents", async (req: Request, res: Response) => {
-    if (!req.session.user) {
-      return res.status(401).json({ error: "Not authenticated" });
-    }
+      const resolved = await resolveDocumentFile(doc, req.query.version);
+      if ("error" in resolved) {
+        return res.status(resolved.status).json({ error: resolved.error });
+      }
+      const { file } = resolved;
+      await storage.recordDocumentDownload(doc.id, req.session.user.id, file.version);
 
-    try {
-      const documents = await storage.getAllDocuments();
-      res.json(documents);
-    } catch (error) {
-      console.error("Get documents error:", error);
-      res.status(500).json({ error: "Failed to get documents" });
+      await sendStoredFile(req, res, file.path, {
+        'Content-Type': contentTypeFor(file.name),
+      }, { type: "attachment", filename: file.name });
+    } catch (error: any) {
+      if (!res.headersSent) res.status(500).json({ error: error.message });
     }
   });
 
-  // Document download endpoint
-  app.get("/api/documents/:id/download", async (req: Request, res: Response) => {
+  // Shows a document in the browser instead of downloading it. Range requests
+  // are answered, so PDF viewers and phones can fetch just the pages they need.
+  app.get("/api/documents/:id/preview", async (req: Request, res: Response) => {
     try {
       if (!req.session.user) {
         return res.status(401).json({ error: "Unauthorized" });
@@ -959,39 +3927,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!doc) {
         return res.status(404).json({ error: "Document not found" });
       }
-
-      // Check permissions
-      if (req.session.user.role === "student" &&
-          doc.departmentName !== req.session.user.departmentName) {
+      if (!canAccessDocument(req.session.user, doc)) {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const filePath = path.join(process.cwd(), doc.fileUrl);
+      const resolved = await resolveDocumentFile(doc, req.query.version);
+      if ("error" in resolved) {
+        return res.status(resolved.status).json({ error: resolved.error });
+      }
+      const { file } = resolved;
+      const ext = path.extname(file.name).toLowerCase();
+      if (!previewableExtensions.has(ext)) {
+        return res.status(415).json({ error: "This file type can't be previewed; download it instead" });
+      }
+
+      await sendStoredFile(req, res, file.path, {
+        'Content-Type': contentTypeFor(file.name),
+        'Cache-Control': 'private, no-cache',
+        'X-Content-Type-Options': 'nosniff',
+      }, { type: "inline", filename: file.name });
+    } catch (error: any) {
+      if (!res.headersSent) res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Full-text search over everything the user is allowed to see
+  app.get("/api/search", async (req: Request, res: Response) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const user = req.session.user;
+      const query = buildSearchQuery(typeof req.query.q === "string" ? req.query.q : "");
+      if (!query) {
+        return res.status(400).json({ error: "Search query is required" });
+      }
+
+      const scope = typeof req.query.scope === "string" ? req.query.scope : "all";
+      if (!SEARCH_SCOPES.includes(scope as typeof SEARCH_SCOPES[number])) {
+        return res.status(400).json({ error: "Invalid search scope" });
+      }
 
-      // Set proper content type based on file extension
-      const ext = path.extname(doc.fileName).toLowerCase();
-      const contentTypes: { [key: string]: string } = {
-        '.pdf': 'application/pdf',
-        '.doc': 'application/msword',
-        '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        '.txt': 'text/plain',
-        '.png': 'image/png',
-        '.jpg': 'image/jpeg',
-        '.jpeg': 'image/jpeg',
+      const hasFullAccess = user.role === "admin" || user.role === "faculty-governor";
+      const results: { messages: any[]; notifications: any[]; documents: any[] } = {
+        messages: [],
+        notifications: [],
+        documents: [],
       };
 
-      const contentType = contentTypes[ext] || 'application/octet-stream';
+      if (scope === "all" || scope === "messages") {
+        const rooms = await getAccessibleRooms(user);
+        const roomNames = new Map(rooms.map(room => [room.id, room.name]));
+        const messages = await storage.searchMessages(query, rooms.map(room => room.id));
+        results.messages = messages.map(msg => ({ ...msg, roomName: roomNames.get(msg.roomId) }));
+      }
+
+      if (scope === "all" || scope === "notifications") {
+        const notifications = await storage.searchNotifications(
+          query,
+          hasFullAccess ? undefined : user.departmentName
+        );
+        results.notifications = notifications.filter(notification => canViewNotification(user, notification));
+      }
+
+      if (scope === "all" || scope === "documents") {
+        // Visibility can reach across departments, so filter per document
+        const documents = await storage.searchDocuments(query);
+        results.documents = documents
+          .filter(doc => canAccessDocument(user, doc))
+          .map(({ path: _, ...doc }) => doc);
+      }
 
-      res.setHeader('Content-Type', contentType);
-      res.setHeader('Content-Disposition', `attachment; filename="${doc.fileName}"`);
-      res.download(filePath, doc.fileName);
+      res.json(results);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
   // Image upload endpoint for chat
-  app.post("/api/chat/upload-image", upload.single("image"), async (req: Request, res: Response) => {
+  app.post("/api/chat/upload-image", acceptUpload("image"), async (req: Request, res: Response) => {
     if (!req.session.user) {
       return res.status(401).json({ error: "Not authenticated" });
     }
@@ -1001,13 +4016,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ error: "No image uploaded" });
     }
 
+    // multer has already saved the file; drop it when the upload is refused
+    const reject = async (status: number, error: string) => {
+      await fs.unlink(file.path).catch(() => {});
+      return res.status(status).json({ error });
+    };
+
     try {
       const configData = await fs.readFile("config.json", "utf-8");
       const config = JSON.parse(configData);
       const expiryHours = config.system?.imageExpiryHours || 3;
 
       const roomId = req.body.roomId;
+      const room = roomId ? await storage.getRoom(roomId) : undefined;
+      if (!room) {
+        return reject(404, "Room not found");
+      }
+      if (!(await userCanAccessRoom(req.session.user, room))) {
+        return reject(403, "Access denied");
+      }
+      const restriction = await getRoomPostingRestriction(req.session.user, room);
+      if (restriction) {
+        return reject(403, restriction);
+      }
+      const invalid = await validateUpload(file, uploadSettings.chatImages);
+      if (invalid) {
+        return reject(invalid.status, invalid.error);
+      }
+
+      const imageKey = newBlobKey("chat-images", file.originalname);
+      await getBlobStorage().put(imageKey, file.path, contentTypeFor(file.originalname));
+
       const caption = req.body.caption || '';
+      if (caption.length > MAX_MESSAGE_LENGTH) {
+        return reject(400, `Captions are limited to ${MAX_MESSAGE_LENGTH} characters`);
+      }
       const imageExpiry = new Date();
       imageExpiry.setHours(imageExpiry.getHours() + expiryHours);
 
@@ -1015,7 +4058,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         roomId,
         sender: req.session.user.username,
         content: caption || `[Image: ${file.originalname}]`,
-        imageUrl: file.path,
+        contentAst: caption ? parseMarkdown(caption) : null,
+        imageUrl: imageKey,
         imageExpiry,
         formatting: null,
         replyTo: null,
@@ -1024,14 +4068,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Broadcast the new message to all clients in the room
-      const roomClients = rooms.get(roomId);
-      if (roomClients) {
-        roomClients.forEach((client) => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify({ type: "new_message", message }));
-          }
-        });
-      }
+      await announceNewMessage(room, message);
+      await announceMentions(room, req.session.user, message);
 
       res.json({ success: true, message });
     } catch (error) {
@@ -1043,128 +4081,403 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
 
-  const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
+  // Only accept upgrades from our own pages that carry a logged-in express-session cookie
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: "/ws",
+    // Frames are small JSON commands; images and files go over HTTP
+    maxPayload: 64 * 1024,
+    verifyClient: (info, done) => {
+      if (!isAllowedWebSocketOrigin(info.origin, info.req.headers.host, allowedOrigins)) {
+        return done(false, 403, "Origin not allowed");
+      }
+      sessionParser(info.req as Request, {} as Response, () => {
+        const userId = (info.req as Request).session?.userId;
+        done(!!userId, 401, "Unauthorized");
+      });
+    },
+  });
 
-  const rooms = new Map<string, Set<WebSocketClient>>();
+  wss.on("connection", async (ws: WebSocketClient, req: Request) => {
+    const connected = req.session.userId ? await storage.getUser(req.session.userId) : undefined;
+    if (!connected) {
+      sendError(ws, "UNAUTHENTICATED", "Session expired, please log in again");
+      ws.close(4401, "Unauthorized");
+      return;
+    }
+    const connectLock = getAccountLock(connected);
+    if (connectLock) {
+      sendToClient(ws, { type: "account_suspended", ...describeAccountLock(connectLock) });
+      ws.close(4403, "Account suspended");
+      return;
+    }
+    // Replaced with a fresh read on every frame; see below
+    let user: User = connected;
 
-  wss.on("connection", (ws: WebSocketClient) => {
-    console.log("WebSocket client connected");
+    ws.userId = user.id;
+    ws.user = user;
     allClients.add(ws);
+    addConnection(ws);
+    console.log("WebSocket client connected");
+
+    // Resolves a room the connected user is allowed to use, or reports why not
+    const loadAccessibleRoom = async (roomId: unknown, requestType: string) => {
+      if (typeof roomId !== "string" || !roomId) {
+        sendError(ws, "BAD_REQUEST", "roomId is required", requestType);
+        return undefined;
+      }
+      const room = await storage.getRoom(roomId);
+      if (!room) {
+        sendError(ws, "NOT_FOUND", "Room not found", requestType);
+        return undefined;
+      }
+      if (!(await userCanAccessRoom(user, room))) {
+        sendError(ws, "FORBIDDEN", "You do not have access to this room", requestType);
+        return undefined;
+      }
+      return room;
+    };
+
+    // Resolves a message in a room the connected user can access
+    const loadAccessibleMessage = async (messageId: unknown, requestType: string) => {
+      if (typeof messageId !== "string" || !messageId) {
+        sendError(ws, "BAD_REQUEST", "messageId is required", requestType);
+        return undefined;
+      }
+      const msg = await storage.getMessage(messageId);
+      if (!msg) {
+        sendError(ws, "NOT_FOUND", "Message not found", requestType);
+        return undefined;
+      }
+      const room = await loadAccessibleRoom(msg.roomId, requestType);
+      if (!room) return undefined;
+      return { msg, room };
+    };
 
     ws.on("message", async (data: string) => {
+      let message: any;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        sendError(ws, "BAD_REQUEST", "Invalid JSON frame");
+        return;
+      }
+      if (!message || typeof message !== "object") {
+        sendError(ws, "BAD_REQUEST", "Frames must be JSON objects");
+        return;
+      }
+
       try {
-        const message = JSON.parse(data.toString());
+        // The account may have been suspended, muted or moved since this
+        // socket connected, so every frame works with a fresh copy
+        const current = await storage.getUser(user.id);
+        if (!current) {
+          sendError(ws, "UNAUTHENTICATED", "Session expired, please log in again", message.type);
+          ws.close(4401, "Unauthorized");
+          return;
+        }
+        const lock = getAccountLock(current);
+        if (lock) {
+          sendToClient(ws, { type: "account_suspended", ...describeAccountLock(lock) });
+          ws.close(4403, "Account suspended");
+          return;
+        }
+        user = current;
+        ws.user = current;
 
         if (message.type === "join") {
-          ws.userId = message.userId;
-          ws.roomId = message.roomId;
+          const room = await loadAccessibleRoom(message.roomId, "join");
+          if (!room) return;
 
-          if (!rooms.has(message.roomId)) {
-            rooms.set(message.roomId, new Set());
+          if (ws.roomId && ws.roomId !== room.id) {
+            stopTyping(user, ws.roomId);
           }
-          rooms.get(message.roomId)!.add(ws);
+          joinRoom(ws, room.id);
 
           // Fetch messages from database to ensure persistence
-          const messages = await storage.getMessagesByRoom(message.roomId, 50);
-          ws.send(JSON.stringify({ type: "history", messages: messages.reverse() }));
-        }
+          const page = await loadMessagePage(room.id, user.id, DEFAULT_MESSAGE_PAGE_SIZE);
+          sendToClient(ws, { type: "history", roomId: room.id, ...page, pins: await loadPins(room.id) });
+        } else if (message.type === "typing_start" || message.type === "typing_stop") {
+          // Typing is only relayed to the room this connection has joined. Clients
+          // repeat typing_start while the user keeps typing; see TYPING_TIMEOUT_MS.
+          const roomId = message.roomId ?? ws.roomId;
+          if (!roomId || roomId !== ws.roomId) {
+            sendError(ws, "BAD_REQUEST", "Join the room before sending typing updates", message.type);
+            return;
+          }
+          if (message.type === "typing_start") {
+            startTyping(user, roomId);
+          } else {
+            stopTyping(user, roomId);
+          }
+        } else if (message.type === "watch_notification") {
+          const notification = typeof message.notificationId === "string"
+            ? await storage.getNotification(message.notificationId)
+            : undefined;
+          if (!notification || !canViewNotification(user, notification)) {
+            sendError(ws, "NOT_FOUND", "Notification not found", "watch_notification");
+            return;
+          }
+          watchNotification(ws, notification.id);
+        } else if (message.type === "unwatch_notification") {
+          if (typeof message.notificationId === "string") {
+            unwatchNotification(ws, message.notificationId);
+          }
+        } else if (message.type === "load_more") {
+          const room = await loadAccessibleRoom(message.roomId ?? ws.roomId, "load_more");
+          if (!room) return;
+
+          const before = typeof message.before === "string" ? decodeMessageCursor(message.before) : null;
+          if (!before) {
+            sendError(ws, "BAD_REQUEST", "A valid before cursor is required", "load_more");
+            return;
+          }
+
+          const page = await loadMessagePage(room.id, user.id, parsePageSize(message.limit), before);
+          sendToClient(ws, { type: "history_page", roomId: room.id, ...page });
+        } else if (message.type === "read") {
+          const room = await loadAccessibleRoom(message.roomId ?? ws.roomId, "read");
+          if (!room) return;
+
+          const read = await storage.markRoomRead(user.id, room.id, new Date());
+          // Every tab of this user clears the room's counter
+          sendToUser(user.id, { type: "room_read", roomId: room.id, lastReadAt: read.lastReadAt });
+        } else if (message.type === "message") {
+          const room = await loadAccessibleRoom(message.roomId ?? ws.roomId, "message");
+          if (!room) return;
+
+          if (typeof message.content !== "string" || message.content.trim() === "") {
+            sendError(ws, "BAD_REQUEST", "Message content is required", "message");
+            return;
+          }
+          if (message.content.length > MAX_MESSAGE_LENGTH) {
+            sendError(ws, "BAD_REQUEST", `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`, "message");
+            return;
+          }
+          const formatting = messageFormattingSchema.nullish().safeParse(message.formatting);
+          if (!formatting.success) {
+            sendError(ws, "BAD_REQUEST", "Formatting may only set bold, italic and a #rrggbb color", "message");
+            return;
+          }
+          const restriction = await getRoomPostingRestriction(user, room);
+          if (restriction) {
+            sendError(ws, "FORBIDDEN", restriction, "message");
+            return;
+          }
+
+          // Threads are one level deep: replying to a reply joins its root's thread
+          let threadRootId: string | null = null;
+          if (message.replyTo) {
+            const parent = await storage.getMessage(String(message.replyTo));
+            if (!parent || parent.roomId !== room.id) {
+              sendError(ws, "NOT_FOUND", "The message you replied to no longer exists", "message");
+              return;
+            }
+            threadRootId = parent.replyTo || parent.id;
+          }
 
-        if (message.type === "message") {
           const newMessage = await storage.createMessage({
-            roomId: message.roomId,
-            sender: message.sender,
+            roomId: room.id,
+            sender: user.username,
             content: message.content,
-            formatting: message.formatting || null,
-            imageUrl: message.imageUrl || null,
-            imageExpiry: message.imageExpiry || null,
-            replyTo: message.replyTo || null,
+            contentAst: parseMarkdown(message.content),
+            formatting: formatting.data ?? null,
+            imageUrl: null,
+            imageExpiry: null,
+            replyTo: threadRootId,
             edited: false,
             reactions: {},
           });
 
           // Broadcast the new message to all clients in the room
-          const roomClients = rooms.get(message.roomId);
-          if (roomClients) {
-            roomClients.forEach((client) => {
-              if (client.readyState === WebSocket.OPEN) {
-                client.send(JSON.stringify({ type: "new_message", message: newMessage }));
+          stopTyping(user, room.id);
+          await announceNewMessage(room, newMessage);
+          await announceMentions(room, user, newMessage);
+          if (threadRootId) {
+            const root = await storage.refreshThreadStats(threadRootId);
+            if (root) announceThreadUpdate(room, root);
+          }
+
+          // The AI reply is posted by the server so clients never send as another sender
+          if (message.askAI) {
+            try {
+              const reply = await sendToCustomAI(
+                message.content,
+                `Chat room: ${room.name}, Asked by: ${user.username}`
+              );
+              const aiMessage = await storage.createMessage({
+                roomId: room.id,
+                sender: "AI Assistant",
+                content: reply || "I'm sorry, I couldn't process that request.",
+                contentAst: parseMarkdown(reply || "I'm sorry, I couldn't process that request."),
+                formatting: null,
+                imageUrl: null,
+                imageExpiry: null,
+                replyTo: threadRootId,
+                edited: false,
+                reactions: {},
+              });
+              await announceNewMessage(room, aiMessage);
+              if (threadRootId) {
+                const root = await storage.refreshThreadStats(threadRootId);
+                if (root) announceThreadUpdate(room, root);
               }
-            });
+            } catch (error) {
+              logger.warn("AI reply failed", { roomId: room.id, error });
+            }
+          }
+        } else if (message.type === "edit") {
+          const target = await loadAccessibleMessage(message.messageId, "edit");
+          if (!target) return;
+
+          const membership = await loadRoomMembership(target.room, user.id);
+          if (!canModerateMessage(user, target.room, target.msg, membership)) {
+            sendError(ws, "FORBIDDEN", "You can only edit your own messages", "edit");
+            return;
+          }
+          if (target.msg.deletedAt || target.msg.hiddenAt) {
+            sendError(ws, "BAD_REQUEST", "Deleted or hidden messages cannot be edited", "edit");
+            return;
+          }
+          if (typeof message.content !== "string" || message.content.trim() === "") {
+            sendError(ws, "BAD_REQUEST", "Message content is required", "edit");
+            return;
+          }
+          if (message.content.length > MAX_MESSAGE_LENGTH) {
+            sendError(ws, "BAD_REQUEST", `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`, "edit");
+            return;
+          }
+          const restriction = await getRoomPostingRestriction(user, target.room, "edit");
+          if (restriction) {
+            sendError(ws, "FORBIDDEN", restriction, "edit");
+            return;
           }
-        }
 
-        if (message.type === "edit") {
-          await storage.updateMessage(message.messageId, {
+          const contentAst = parseMarkdown(message.content);
+          await recordRevision(target.msg, "edit", user.id);
+          await storage.updateMessage(target.msg.id, {
             content: message.content,
+            contentAst,
             edited: true,
           });
 
-          const roomClients = rooms.get(ws.roomId!);
-          if (roomClients) {
-            roomClients.forEach((client) => {
-              if (client.readyState === WebSocket.OPEN) {
-                client.send(JSON.stringify({
-                  type: "message_edited",
-                  messageId: message.messageId,
-                  content: message.content,
-                }));
-              }
+          broadcastToRoom(target.room.id, {
+            type: "message_edited",
+            messageId: target.msg.id,
+            content: message.content,
+            contentAst,
+          });
+        } else if (message.type === "delete") {
+          const target = await loadAccessibleMessage(message.messageId, "delete");
+          if (!target) return;
+
+          const membership = await loadRoomMembership(target.room, user.id);
+          if (!canModerateMessage(user, target.room, target.msg, membership)) {
+            sendError(ws, "FORBIDDEN", "You can only delete your own messages", "delete");
+            return;
+          }
+          if (target.msg.deletedAt) {
+            sendError(ws, "BAD_REQUEST", "Message is already deleted", "delete");
+            return;
+          }
+          if (target.msg.sender !== user.username) {
+            await storage.createActivityLog({
+              userId: user.id,
+              action: "ROOM_MESSAGE_REMOVED",
+              details: { roomId: target.room.id, messageId: target.msg.id, sender: target.msg.sender },
             });
           }
-        }
 
-        if (message.type === "delete") {
-          await storage.deleteMessage(message.messageId);
-
-          const roomClients = rooms.get(ws.roomId!);
-          if (roomClients) {
-            roomClients.forEach((client) => {
-              if (client.readyState === WebSocket.OPEN) {
-                client.send(JSON.stringify({
-                  type: "message_deleted",
-                  messageId: message.messageId,
-                }));
-              }
-            });
+          // The row stays as a placeholder until the purge job; its content moves to the revisions
+          await removeMessage(target.room, target.msg, user.id);
+        } else if (message.type === "pin" || message.type === "unpin") {
+          // Room moderators and governors pin messages to the bar above the chat
+          const target = await loadAccessibleMessage(message.messageId, message.type);
+          if (!target) return;
+
+          if (!canModerateRoom(user, target.room, await loadRoomMembership(target.room, user.id))) {
+            sendError(ws, "FORBIDDEN", "Only room moderators can pin messages", message.type);
+            return;
           }
-        }
 
-        if (message.type === "react") {
-          const msg = await storage.getMessage(message.messageId);
-          if (msg) {
-            const reactions = (msg.reactions as any) || {};
-            const reactionKey = message.emoji || "heart";
-
-            reactions[reactionKey] = (reactions[reactionKey] || 0) + 1;
-            await storage.updateMessage(message.messageId, { reactions });
-
-            const roomClients = rooms.get(ws.roomId!);
-            if (roomClients) {
-              roomClients.forEach((client) => {
-                if (client.readyState === WebSocket.OPEN) {
-                  client.send(JSON.stringify({
-                    type: "message_reacted",
-                    messageId: message.messageId,
-                    reactions,
-                  }));
-                }
+          if (message.type === "unpin") {
+            if (await releasePin(target.msg.id)) {
+              await storage.createActivityLog({
+                userId: user.id,
+                action: "MESSAGE_UNPINNED",
+                details: { roomId: target.room.id, messageId: target.msg.id },
               });
             }
+            return;
+          }
+
+          if (target.msg.deletedAt || target.msg.hiddenAt) {
+            sendError(ws, "BAD_REQUEST", "Deleted or hidden messages cannot be pinned", "pin");
+            return;
           }
+          if (await storage.countPinnedMessages(target.room.id) >= maxPinnedMessages) {
+            sendError(ws, "BAD_REQUEST", `A room can have at most ${maxPinnedMessages} pinned messages`, "pin");
+            return;
+          }
+
+          // Already pinned: nothing to announce
+          const pin = await storage.pinMessage({ roomId: target.room.id, messageId: target.msg.id, pinnedBy: user.id });
+          if (!pin) return;
+
+          await storage.createActivityLog({
+            userId: user.id,
+            action: "MESSAGE_PINNED",
+            details: { roomId: target.room.id, messageId: target.msg.id },
+          });
+
+          broadcastToRoom(target.room.id, {
+            type: "message_pinned",
+            roomId: target.room.id,
+            pin: { ...pin, message: target.msg, pinnedByName: user.username },
+          });
+        } else if (message.type === "react") {
+          const target = await loadAccessibleMessage(message.messageId, "react");
+          if (!target) return;
+          if (target.msg.deletedAt || target.msg.hiddenAt) {
+            sendError(ws, "BAD_REQUEST", "Deleted or hidden messages cannot be reacted to", "react");
+            return;
+          }
+
+          const emoji = parseReactionEmoji(message.emoji ?? "heart");
+          if (!emoji) {
+            sendError(ws, "BAD_REQUEST", "A valid reaction is required", "react");
+            return;
+          }
+
+          await storage.toggleReaction("message", target.msg.id, user.id, emoji);
+          const summaries = (await storage.getReactionSummaries("message", [target.msg.id]))[target.msg.id] ?? [];
+
+          broadcastEach(
+            (recipient) => ({ type: "message_reacted", messageId: target.msg.id, reactions: reactionsFor(summaries, recipient) }),
+            roomClients.get(target.room.id) ?? []
+          );
+        } else {
+          sendError(ws, "BAD_REQUEST", "Unknown frame type", message.type);
         }
       } catch (error) {
         console.error("WebSocket message error:", error);
+        sendError(ws, "INTERNAL", "Failed to process request", message?.type);
       }
     });
 
     ws.on("close", () => {
-      if (ws.roomId && rooms.has(ws.roomId)) {
-        rooms.get(ws.roomId)!.delete(ws);
-      }
+      removeConnection(ws);
+      leaveRoom(ws);
+      unwatchNotification(ws);
       allClients.delete(ws);
       console.log("WebSocket client disconnected");
     });
+
+    // ws closes the socket itself (e.g. 1009 for oversized frames); "close" cleans up
+    ws.on("error", (error) => {
+      logger.warn("WebSocket client error", { userId: ws.userId, error: error.message });
+    });
   });
 
   return httpServer;
-}
\ No newline at end of file
+}
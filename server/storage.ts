@@ -1,5 +1,6 @@
 import { db } from "./db";
-import { eq, and, or, desc, sql } from "drizzle-orm";
+import { eq, ne, and, or, desc, lt, lte, gt, gte, inArray, isNull, sql } from "drizzle-orm";
+import type { SQLiteTable } from "drizzle-orm/sqlite-core";
 import type {
   User,
   InsertUser,
@@ -13,18 +14,68 @@ import type {
   InsertNotification,
   Document,
   InsertDocument,
+  DocumentFolder,
+  InsertDocumentFolder,
+  DocumentVersion,
+  InsertDocumentVersion,
+  DocumentDownload,
   ActivityLog,
   InsertActivityLog,
   PushSubscription,
   InsertPushSubscription,
+  RoomRead,
+  RoomMember,
+  InsertRoomMember,
+  RoomRequest,
+  InsertRoomRequest,
+  PinnedMessage,
+  InsertPinnedMessage,
+  Mention,
+  InsertMention,
+  MessageRevision,
+  InsertMessageRevision,
+  MessageRevisionAction,
+  Report,
+  InsertReport,
+  ReportTargetType,
+  NotificationAck,
+  NotificationComment,
+  InsertNotificationComment,
+  ReactionTargetType,
+  ReactionSummary,
 } from "@shared/schema";
 import * as schema from "@shared/schema";
 
+// Position in a room's history; pages contain messages strictly older than it
+export interface MessageCursor {
+  createdAt: Date;
+  id: string;
+}
+
+// A mention with the message and room it points at, for the mentions inbox
+export interface MentionWithMessage extends Mention {
+  message: Message;
+  roomName: string;
+  roomType: string;
+}
+
+// A member of a dm, group or custom room, with the profile fields the member list shows
+export interface RoomMemberProfile {
+  userId: string;
+  username: string;
+  userRole: string;
+  departmentName: string;
+  role: string;
+  mutedUntil: Date | null;
+}
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
+  // Case-insensitive, for resolving @mentions
+  getUsersByUsernames(usernames: string[]): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined>;
   deleteUser(id: string): Promise<void>;
@@ -40,15 +91,66 @@ export interface IStorage {
   getAllRooms(): Promise<Room[]>;
   getRoomsByDepartment(departmentName: string): Promise<Room[]>;
   createRoom(room: InsertRoom): Promise<Room>;
+  updateRoom(id: string, data: Partial<InsertRoom>): Promise<Room | undefined>;
   deleteRoom(id: string): Promise<void>;
 
+  // Room membership
+  getRoomByDmKey(dmKey: string): Promise<Room | undefined>;
+  createRoomWithMembers(room: InsertRoom, members: Array<{ userId: string; role?: string }>): Promise<Room>;
+  getMembershipsForUser(userId: string): Promise<RoomMember[]>;
+  getRoomMember(roomId: string, userId: string): Promise<RoomMember | undefined>;
+  getRoomMemberIds(roomId: string): Promise<string[]>;
+  getRoomMembers(roomIds: string[]): Promise<Record<string, RoomMemberProfile[]>>;
+  addRoomMember(member: InsertRoomMember): Promise<RoomMember>;
+  updateRoomMember(roomId: string, userId: string, data: Partial<InsertRoomMember>): Promise<RoomMember | undefined>;
+  removeRoomMember(roomId: string, userId: string): Promise<void>;
+
+  // Invitations and join requests
+  createRoomRequest(request: InsertRoomRequest): Promise<RoomRequest>;
+  getRoomRequest(id: string): Promise<RoomRequest | undefined>;
+  getPendingRoomRequest(roomId: string, userId: string): Promise<RoomRequest | undefined>;
+  getPendingRoomRequests(roomId: string): Promise<RoomRequest[]>;
+  getPendingRequestsForUser(userId: string): Promise<RoomRequest[]>;
+  decideRoomRequest(id: string, status: "accepted" | "declined", decidedBy: string): Promise<RoomRequest | undefined>;
+
+  // Pinned messages
+  getPinnedMessages(roomId: string): Promise<Array<PinnedMessage & { message: Message }>>;
+  countPinnedMessages(roomId: string): Promise<number>;
+  pinMessage(pin: InsertPinnedMessage): Promise<PinnedMessage | undefined>;
+  unpinMessage(messageId: string): Promise<PinnedMessage | undefined>;
+
+  // Mentions
+  createMentions(mentions: InsertMention[]): Promise<Mention[]>;
+  getMentionsForUser(userId: string, limit?: number): Promise<MentionWithMessage[]>;
+  countUnreadMentions(userId: string): Promise<number>;
+  markMentionsRead(userId: string, mentionIds?: string[]): Promise<number>;
+
+  // Message revisions
+  createMessageRevision(revision: InsertMessageRevision): Promise<MessageRevision>;
+  getMessageRevisions(messageId: string): Promise<MessageRevision[]>;
+  getRecentMessageRevisions(limit?: number, action?: MessageRevisionAction): Promise<MessageRevision[]>;
+
+  // Reports
+  createReport(report: InsertReport): Promise<Report | undefined>;
+  getReports(status: "open" | "closed", departmentName?: string, limit?: number): Promise<Report[]>;
+  getOpenReportsForTarget(targetType: ReportTargetType, targetId: string): Promise<Report[]>;
+  resolveReports(targetType: ReportTargetType, targetId: string, data: Pick<InsertReport, "status" | "resolution" | "resolvedBy">): Promise<Report[]>;
+
   // Messages
   getMessage(id: string): Promise<Message | undefined>;
-  getMessagesByRoom(roomId: string, limit?: number): Promise<Message[]>;
+  getMessageByImageUrl(imageUrl: string): Promise<Message | undefined>;
+  getMessagesByRoom(roomId: string, limit?: number, before?: MessageCursor): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
+  getLastMessageAt(roomId: string, sender: string): Promise<Date | undefined>;
   updateMessage(id: string, data: Partial<InsertMessage>): Promise<Message | undefined>;
   deleteMessage(id: string): Promise<void>;
+  getThreadReplies(rootId: string): Promise<Message[]>;
+  refreshThreadStats(rootId: string): Promise<Message | undefined>;
+  softDeleteMessage(id: string, deletedBy: string): Promise<Message | undefined>;
+  getPurgeableMessages(deletedBefore: Date): Promise<Message[]>;
+  getRetentionExpiredMessages(roomId: string, postedBefore: Date): Promise<Message[]>;
   getExpiredImages(): Promise<Message[]>;
+  searchMessages(query: string, roomIds: string[], limit?: number): Promise<Message[]>;
 
   // Notifications
   getNotification(id: string): Promise<Notification | undefined>;
@@ -57,14 +159,48 @@ export interface IStorage {
   createNotification(notification: InsertNotification): Promise<Notification>;
   updateNotification(id: string, data: Partial<InsertNotification>): Promise<Notification | undefined>;
   deleteNotification(id: string): Promise<void>;
+  searchNotifications(query: string, departmentName?: string, limit?: number): Promise<Notification[]>;
+  getScheduledNotifications(postedBy?: string): Promise<Notification[]>;
+  getDueNotifications(now: Date): Promise<Notification[]>;
+  getNotificationsToArchive(now: Date): Promise<Notification[]>;
+  getUrgentNotificationsDueForAckReminder(publishedAfter: Date, publishedBefore: Date): Promise<Notification[]>;
 
   // Documents
   getDocument(id: string): Promise<Document | undefined>;
   getAllDocuments(): Promise<Document[]>;
   getDocumentsByDepartment(departmentName: string): Promise<Document[]>;
   createDocument(document: InsertDocument): Promise<Document>;
+  updateDocument(id: string, data: Partial<InsertDocument>): Promise<Document | undefined>;
   deleteDocument(id: string): Promise<void>;
   getExpiredDocuments(): Promise<Document[]>;
+  searchDocuments(query: string, departmentName?: string, limit?: number): Promise<Document[]>;
+  // folderId null lists the top level of the department's library
+  getDocumentsInFolder(departmentName: string, folderId: string | null): Promise<Document[]>;
+
+  // Document folders
+  getDocumentFolder(id: string): Promise<DocumentFolder | undefined>;
+  getDocumentFolders(departmentName: string): Promise<DocumentFolder[]>;
+  createDocumentFolder(folder: InsertDocumentFolder): Promise<DocumentFolder>;
+  deleteDocumentFolder(id: string): Promise<void>;
+
+  // Document versions, newest first
+  getDocumentVersions(documentId: string): Promise<DocumentVersion[]>;
+  getDocumentVersion(documentId: string, version: number): Promise<DocumentVersion | undefined>;
+  createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion>;
+  // Numbers the new version and makes it the document's current file in one
+  // transaction, so concurrent uploads can't claim the same number
+  addDocumentVersion(version: Omit<InsertDocumentVersion, "version">): Promise<{ version: DocumentVersion; document: Document }>;
+  // Keeps the version each user downloaded last
+  recordDocumentDownload(documentId: string, userId: string, version: number): Promise<void>;
+  getDocumentDownloads(documentId: string): Promise<DocumentDownload[]>;
+  // The document a stored file belongs to, whether it is the latest version or an older one
+  getDocumentByFileKey(key: string): Promise<Document | undefined>;
+  // Bytes of library files in storage, every version included
+  getDocumentStorageUsage(filter: { uploadedBy?: string; departmentName?: string }): Promise<number>;
+
+  // Every stored file the database points at, for moving files between storage backends
+  getStoredFileReferences(): Promise<Array<{ value: string; kind: "document" | "chat-image" }>>;
+  replaceStoredFileReference(oldValue: string, newValue: string): Promise<void>;
 
   // Activity Logs
   createActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
@@ -74,6 +210,35 @@ export interface IStorage {
   createPushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription>;
   getPushSubscriptionsByUser(userId: string): Promise<PushSubscription[]>;
   deletePushSubscription(endpoint: string): Promise<void>;
+
+  // Read receipts
+  markRoomRead(userId: string, roomId: string, readAt: Date): Promise<RoomRead>;
+  getUnreadCounts(user: Pick<User, "id" | "username" | "createdAt">, roomIds: string[]): Promise<Record<string, number>>;
+  markNotificationsRead(userId: string, notificationIds: string[]): Promise<void>;
+  getReadNotificationIds(userId: string): Promise<string[]>;
+
+  // Notification comments
+  getNotificationComment(id: string): Promise<NotificationComment | undefined>;
+  getNotificationComments(notificationId: string): Promise<NotificationComment[]>;
+  createNotificationComment(comment: InsertNotificationComment): Promise<NotificationComment>;
+  updateNotificationComment(id: string, data: Partial<InsertNotificationComment>): Promise<NotificationComment | undefined>;
+  getNotificationCommentCounts(notificationIds: string[]): Promise<Record<string, number>>;
+
+  // Acknowledgements
+  acknowledgeNotification(notificationId: string, userId: string): Promise<NotificationAck>;
+  getNotificationAcks(notificationId: string): Promise<NotificationAck[]>;
+  getAcknowledgedNotificationIds(userId: string): Promise<string[]>;
+
+  // Reactions
+  toggleReaction(targetType: ReactionTargetType, targetId: string, userId: string, emoji: string): Promise<boolean>;
+  getReactionSummaries(targetType: ReactionTargetType, targetIds: string[], viewerId?: string): Promise<Record<string, ReactionSummary[]>>;
+  deleteReactionsForTarget(targetType: ReactionTargetType, targetId: string): Promise<void>;
+}
+
+// FTS5's bm25 rank of a row for a match expression; lower is more relevant
+function searchRank(ftsTable: string, table: SQLiteTable, query: string) {
+  const fts = sql.raw(ftsTable);
+  return sql`(SELECT rank FROM ${fts} WHERE ${fts} MATCH ${query} AND rowid = ${table}.rowid)`;
 }
 
 export class DbStorage implements IStorage {
@@ -93,6 +258,13 @@ export class DbStorage implements IStorage {
     return allUsers;
   }
 
+  async getUsersByUsernames(usernames: string[]): Promise<User[]> {
+    if (usernames.length === 0) return [];
+    return await db.select().from(schema.users).where(
+      inArray(sql`lower(${schema.users.username})`, usernames.map(username => username.toLowerCase()))
+    );
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const [newUser] = await db.insert(schema.users).values(user).returning();
     return newUser;
@@ -151,8 +323,287 @@ export class DbStorage implements IStorage {
     return newRoom;
   }
 
+  async updateRoom(id: string, data: Partial<InsertRoom>): Promise<Room | undefined> {
+    const [room] = await db.update(schema.rooms).set(data).where(eq(schema.rooms.id, id)).returning();
+    return room;
+  }
+
   async deleteRoom(id: string): Promise<void> {
     await db.delete(schema.rooms).where(eq(schema.rooms.id, id));
+    await db.delete(schema.roomMembers).where(eq(schema.roomMembers.roomId, id));
+    await db.delete(schema.roomRequests).where(eq(schema.roomRequests.roomId, id));
+    await db.delete(schema.pinnedMessages).where(eq(schema.pinnedMessages.roomId, id));
+  }
+
+  // Room membership
+  async getRoomByDmKey(dmKey: string): Promise<Room | undefined> {
+    const [room] = await db.select().from(schema.rooms).where(eq(schema.rooms.dmKey, dmKey)).limit(1);
+    return room;
+  }
+
+  async createRoomWithMembers(room: InsertRoom, members: Array<{ userId: string; role?: string }>): Promise<Room> {
+    const [newRoom] = await db.insert(schema.rooms).values(room).returning();
+    await db.insert(schema.roomMembers)
+      .values(members.map(({ userId, role }) => ({ roomId: newRoom.id, userId, role: role ?? "member", addedBy: room.createdBy })))
+      .onConflictDoNothing();
+    return newRoom;
+  }
+
+  async getMembershipsForUser(userId: string): Promise<RoomMember[]> {
+    return await db.select().from(schema.roomMembers).where(eq(schema.roomMembers.userId, userId));
+  }
+
+  async getRoomMember(roomId: string, userId: string): Promise<RoomMember | undefined> {
+    const [member] = await db.select().from(schema.roomMembers)
+      .where(and(
+        eq(schema.roomMembers.roomId, roomId),
+        eq(schema.roomMembers.userId, userId)
+      ))
+      .limit(1);
+    return member;
+  }
+
+  async getRoomMemberIds(roomId: string): Promise<string[]> {
+    const rows = await db.select({ userId: schema.roomMembers.userId })
+      .from(schema.roomMembers)
+      .where(eq(schema.roomMembers.roomId, roomId));
+    return rows.map((row) => row.userId);
+  }
+
+  async getRoomMembers(roomIds: string[]): Promise<Record<string, RoomMemberProfile[]>> {
+    if (roomIds.length === 0) return {};
+
+    const rows = await db.select({
+      roomId: schema.roomMembers.roomId,
+      userId: schema.roomMembers.userId,
+      username: schema.users.username,
+      userRole: schema.users.role,
+      departmentName: schema.users.departmentName,
+      role: schema.roomMembers.role,
+      mutedUntil: schema.roomMembers.mutedUntil,
+    })
+      .from(schema.roomMembers)
+      .innerJoin(schema.users, eq(schema.users.id, schema.roomMembers.userId))
+      .where(inArray(schema.roomMembers.roomId, roomIds))
+      .orderBy(schema.roomMembers.joinedAt);
+
+    const members: Record<string, RoomMemberProfile[]> = {};
+    for (const { roomId, ...member } of rows) {
+      (members[roomId] ??= []).push(member);
+    }
+    return members;
+  }
+
+  async addRoomMember(member: InsertRoomMember): Promise<RoomMember> {
+    // Joining twice keeps the existing role
+    await db.insert(schema.roomMembers).values(member).onConflictDoNothing();
+    return (await this.getRoomMember(member.roomId, member.userId))!;
+  }
+
+  async updateRoomMember(roomId: string, userId: string, data: Partial<InsertRoomMember>): Promise<RoomMember | undefined> {
+    const [member] = await db.update(schema.roomMembers)
+      .set(data)
+      .where(and(
+        eq(schema.roomMembers.roomId, roomId),
+        eq(schema.roomMembers.userId, userId)
+      ))
+      .returning();
+    return member;
+  }
+
+  async removeRoomMember(roomId: string, userId: string): Promise<void> {
+    await db.delete(schema.roomMembers).where(and(
+      eq(schema.roomMembers.roomId, roomId),
+      eq(schema.roomMembers.userId, userId)
+    ));
+  }
+
+  // Invitations and join requests
+  async createRoomRequest(request: InsertRoomRequest): Promise<RoomRequest> {
+    const [newRequest] = await db.insert(schema.roomRequests).values(request).returning();
+    return newRequest;
+  }
+
+  async getRoomRequest(id: string): Promise<RoomRequest | undefined> {
+    const [request] = await db.select().from(schema.roomRequests).where(eq(schema.roomRequests.id, id)).limit(1);
+    return request;
+  }
+
+  async getPendingRoomRequest(roomId: string, userId: string): Promise<RoomRequest | undefined> {
+    const [request] = await db.select().from(schema.roomRequests)
+      .where(and(
+        eq(schema.roomRequests.roomId, roomId),
+        eq(schema.roomRequests.userId, userId),
+        eq(schema.roomRequests.status, "pending")
+      ))
+      .limit(1);
+    return request;
+  }
+
+  async getPendingRoomRequests(roomId: string): Promise<RoomRequest[]> {
+    return await db.select().from(schema.roomRequests)
+      .where(and(
+        eq(schema.roomRequests.roomId, roomId),
+        eq(schema.roomRequests.status, "pending")
+      ))
+      .orderBy(schema.roomRequests.createdAt);
+  }
+
+  async getPendingRequestsForUser(userId: string): Promise<RoomRequest[]> {
+    return await db.select().from(schema.roomRequests)
+      .where(and(
+        eq(schema.roomRequests.userId, userId),
+        eq(schema.roomRequests.status, "pending")
+      ))
+      .orderBy(desc(schema.roomRequests.createdAt));
+  }
+
+  async decideRoomRequest(id: string, status: "accepted" | "declined", decidedBy: string): Promise<RoomRequest | undefined> {
+    // Only a pending request can be decided, so a double click can't accept twice
+    const [request] = await db.update(schema.roomRequests)
+      .set({ status, decidedBy, decidedAt: new Date() })
+      .where(and(
+        eq(schema.roomRequests.id, id),
+        eq(schema.roomRequests.status, "pending")
+      ))
+      .returning();
+    return request;
+  }
+
+  // Pinned messages
+  async getPinnedMessages(roomId: string): Promise<Array<PinnedMessage & { message: Message }>> {
+    const rows = await db.select({ pin: schema.pinnedMessages, message: schema.messages })
+      .from(schema.pinnedMessages)
+      .innerJoin(schema.messages, eq(schema.messages.id, schema.pinnedMessages.messageId))
+      .where(eq(schema.pinnedMessages.roomId, roomId))
+      // pinned_at has one-second resolution; rowid keeps same-second pins in order
+      .orderBy(desc(schema.pinnedMessages.pinnedAt), desc(sql`${schema.pinnedMessages}.rowid`));
+    return rows.map(({ pin, message }) => ({ ...pin, message }));
+  }
+
+  async countPinnedMessages(roomId: string): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)` })
+      .from(schema.pinnedMessages)
+      .where(eq(schema.pinnedMessages.roomId, roomId));
+    return row?.count ?? 0;
+  }
+
+  async pinMessage(pin: InsertPinnedMessage): Promise<PinnedMessage | undefined> {
+    // Pinning an already pinned message returns undefined
+    const [created] = await db.insert(schema.pinnedMessages).values(pin).onConflictDoNothing().returning();
+    return created;
+  }
+
+  async unpinMessage(messageId: string): Promise<PinnedMessage | undefined> {
+    const [removed] = await db.delete(schema.pinnedMessages)
+      .where(eq(schema.pinnedMessages.messageId, messageId))
+      .returning();
+    return removed;
+  }
+
+  // Mentions
+  async createMentions(mentions: InsertMention[]): Promise<Mention[]> {
+    if (mentions.length === 0) return [];
+    return await db.insert(schema.mentions).values(mentions).onConflictDoNothing().returning();
+  }
+
+  async getMentionsForUser(userId: string, limit: number = 50): Promise<MentionWithMessage[]> {
+    // Deleted rooms drop out of the inbox with the joins, deleted and hidden messages by filter
+    const rows = await db.select({ mention: schema.mentions, message: schema.messages, room: schema.rooms })
+      .from(schema.mentions)
+      .innerJoin(schema.messages, eq(schema.messages.id, schema.mentions.messageId))
+      .innerJoin(schema.rooms, eq(schema.rooms.id, schema.mentions.roomId))
+      .where(and(
+        eq(schema.mentions.userId, userId),
+        isNull(schema.messages.deletedAt),
+        isNull(schema.messages.hiddenAt)
+      ))
+      .orderBy(desc(schema.mentions.createdAt))
+      .limit(limit);
+    return rows.map(({ mention, message, room }) => ({ ...mention, message, roomName: room.name, roomType: room.type }));
+  }
+
+  async countUnreadMentions(userId: string): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)` })
+      .from(schema.mentions)
+      .innerJoin(schema.messages, eq(schema.messages.id, schema.mentions.messageId))
+      .where(and(
+        eq(schema.mentions.userId, userId),
+        isNull(schema.mentions.readAt),
+        isNull(schema.messages.deletedAt),
+        isNull(schema.messages.hiddenAt)
+      ));
+    return row?.count ?? 0;
+  }
+
+  async markMentionsRead(userId: string, mentionIds?: string[]): Promise<number> {
+    const conditions = [eq(schema.mentions.userId, userId), isNull(schema.mentions.readAt)];
+    if (mentionIds) {
+      if (mentionIds.length === 0) return 0;
+      conditions.push(inArray(schema.mentions.id, mentionIds));
+    }
+    const updated = await db.update(schema.mentions)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: schema.mentions.id });
+    return updated.length;
+  }
+
+  // Message revisions
+  async createMessageRevision(revision: InsertMessageRevision): Promise<MessageRevision> {
+    const [created] = await db.insert(schema.messageRevisions).values(revision).returning();
+    return created;
+  }
+
+  async getMessageRevisions(messageId: string): Promise<MessageRevision[]> {
+    return await db.select().from(schema.messageRevisions)
+      .where(eq(schema.messageRevisions.messageId, messageId))
+      .orderBy(schema.messageRevisions.createdAt, sql`${schema.messageRevisions}.rowid`);
+  }
+
+  async getRecentMessageRevisions(limit: number = 100, action?: MessageRevisionAction): Promise<MessageRevision[]> {
+    return await db.select().from(schema.messageRevisions)
+      .where(action ? eq(schema.messageRevisions.action, action) : undefined)
+      .orderBy(desc(schema.messageRevisions.createdAt), desc(sql`${schema.messageRevisions}.rowid`))
+      .limit(limit);
+  }
+
+  // Reports
+  async createReport(report: InsertReport): Promise<Report | undefined> {
+    // Undefined when this user already reported the same content
+    const [created] = await db.insert(schema.reports).values(report).onConflictDoNothing().returning();
+    return created;
+  }
+
+  async getReports(status: "open" | "closed", departmentName?: string, limit: number = 200): Promise<Report[]> {
+    return await db.select().from(schema.reports)
+      .where(and(
+        status === "open" ? eq(schema.reports.status, "open") : ne(schema.reports.status, "open"),
+        departmentName ? eq(schema.reports.departmentName, departmentName) : undefined
+      ))
+      .orderBy(desc(status === "open" ? schema.reports.createdAt : schema.reports.resolvedAt))
+      .limit(limit);
+  }
+
+  async getOpenReportsForTarget(targetType: ReportTargetType, targetId: string): Promise<Report[]> {
+    return await db.select().from(schema.reports)
+      .where(and(
+        eq(schema.reports.targetType, targetType),
+        eq(schema.reports.targetId, targetId),
+        eq(schema.reports.status, "open")
+      ))
+      .orderBy(schema.reports.createdAt);
+  }
+
+  async resolveReports(targetType: ReportTargetType, targetId: string, data: Pick<InsertReport, "status" | "resolution" | "resolvedBy">): Promise<Report[]> {
+    return await db.update(schema.reports)
+      .set({ ...data, resolvedAt: new Date() })
+      .where(and(
+        eq(schema.reports.targetType, targetType),
+        eq(schema.reports.targetId, targetId),
+        eq(schema.reports.status, "open")
+      ))
+      .returning();
   }
 
   // Messages
@@ -161,10 +612,30 @@ export class DbStorage implements IStorage {
     return message;
   }
 
-  async getMessagesByRoom(roomId: string, limit: number = 100): Promise<Message[]> {
+  async getMessageByImageUrl(imageUrl: string): Promise<Message | undefined> {
+    const [message] = await db.select().from(schema.messages).where(eq(schema.messages.imageUrl, imageUrl)).limit(1);
+    return message;
+  }
+
+  async getMessagesByRoom(roomId: string, limit: number = 100, before?: MessageCursor): Promise<Message[]> {
+    // Newest first; createdAt has second precision, so rowid (insertion order) breaks ties
+    const rowid = sql`${schema.messages}.rowid`;
     return await db.select().from(schema.messages)
-      .where(eq(schema.messages.roomId, roomId))
-      .orderBy(desc(schema.messages.createdAt))
+      .where(and(
+        eq(schema.messages.roomId, roomId),
+        // Replies live in their thread, not the main timeline
+        isNull(schema.messages.replyTo),
+        before
+          ? or(
+              lt(schema.messages.createdAt, before.createdAt),
+              and(
+                eq(schema.messages.createdAt, before.createdAt),
+                sql`${rowid} < (SELECT rowid FROM messages WHERE id = ${before.id})`
+              )
+            )
+          : undefined
+      ))
+      .orderBy(desc(schema.messages.createdAt), desc(rowid))
       .limit(limit);
   }
 
@@ -173,6 +644,18 @@ export class DbStorage implements IStorage {
     return newMessage;
   }
 
+  async getLastMessageAt(roomId: string, sender: string): Promise<Date | undefined> {
+    const [row] = await db.select({ createdAt: schema.messages.createdAt })
+      .from(schema.messages)
+      .where(and(
+        eq(schema.messages.roomId, roomId),
+        eq(schema.messages.sender, sender)
+      ))
+      .orderBy(desc(schema.messages.createdAt))
+      .limit(1);
+    return row?.createdAt;
+  }
+
   async updateMessage(id: string, data: Partial<InsertMessage>): Promise<Message | undefined> {
     const [updated] = await db.update(schema.messages).set(data).where(eq(schema.messages.id, id)).returning();
     return updated;
@@ -180,6 +663,75 @@ export class DbStorage implements IStorage {
 
   async deleteMessage(id: string): Promise<void> {
     await db.delete(schema.messages).where(eq(schema.messages.id, id));
+    await db.delete(schema.mentions).where(eq(schema.mentions.messageId, id));
+    await db.delete(schema.messageRevisions).where(eq(schema.messageRevisions.messageId, id));
+  }
+
+  async getThreadReplies(rootId: string): Promise<Message[]> {
+    return await db.select().from(schema.messages)
+      .where(eq(schema.messages.replyTo, rootId))
+      .orderBy(schema.messages.createdAt, sql`${schema.messages}.rowid`);
+  }
+
+  async refreshThreadStats(rootId: string): Promise<Message | undefined> {
+    const [stats] = await db.select({
+      count: sql<number>`count(*)`,
+      lastReplyAt: sql<number | null>`max(${schema.messages.createdAt})`,
+    })
+      .from(schema.messages)
+      .where(eq(schema.messages.replyTo, rootId));
+
+    return await this.updateMessage(rootId, {
+      replyCount: Number(stats?.count ?? 0),
+      lastReplyAt: stats?.lastReplyAt ? new Date(Number(stats.lastReplyAt) * 1000) : null,
+    });
+  }
+
+  async softDeleteMessage(id: string, deletedBy: string): Promise<Message | undefined> {
+    return await this.updateMessage(id, {
+      content: "",
+      contentAst: null,
+      formatting: null,
+      imageUrl: null,
+      imageExpiry: null,
+      deletedAt: new Date(),
+      deletedBy,
+    });
+  }
+
+  async getPurgeableMessages(deletedBefore: Date): Promise<Message[]> {
+    // A deleted root waits until every reply under it can go too
+    return await db.select().from(schema.messages).where(
+      and(
+        lt(schema.messages.deletedAt, deletedBefore),
+        eq(schema.messages.legalHold, false),
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${schema.messages} AS reply
+          WHERE reply.reply_to = ${schema.messages.id}
+            AND (reply.deleted_at IS NULL OR reply.deleted_at >= ${Math.floor(deletedBefore.getTime() / 1000)}
+              OR reply.legal_hold = 1)
+        )`
+      )
+    );
+  }
+
+  async getRetentionExpiredMessages(roomId: string, postedBefore: Date): Promise<Message[]> {
+    // Pinned and held messages are kept, and so is a thread root while any reply under it is
+    const cutoff = Math.floor(postedBefore.getTime() / 1000);
+    return await db.select().from(schema.messages).where(
+      and(
+        eq(schema.messages.roomId, roomId),
+        lt(schema.messages.createdAt, postedBefore),
+        eq(schema.messages.legalHold, false),
+        sql`NOT EXISTS (SELECT 1 FROM ${schema.pinnedMessages} WHERE ${schema.pinnedMessages.messageId} = ${schema.messages.id})`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${schema.messages} AS reply
+          WHERE reply.reply_to = ${schema.messages.id}
+            AND (reply.created_at >= ${cutoff} OR reply.legal_hold = 1
+              OR EXISTS (SELECT 1 FROM pinned_messages WHERE pinned_messages.message_id = reply.id))
+        )`
+      )
+    );
   }
 
   async getExpiredImages(): Promise<Message[]> {
@@ -191,6 +743,18 @@ export class DbStorage implements IStorage {
     );
   }
 
+  // `query` is an FTS5 match expression; see buildSearchQuery in routes.ts. The
+  // searches return the best matches first, newer ones first among equals.
+  async searchMessages(query: string, roomIds: string[], limit: number = 20): Promise<Message[]> {
+    if (roomIds.length === 0) return [];
+    return await db.select().from(schema.messages).where(
+      and(
+        inArray(schema.messages.roomId, roomIds),
+        sql`${schema.messages}.rowid IN (SELECT rowid FROM messages_fts WHERE messages_fts MATCH ${query})`
+      )
+    ).orderBy(searchRank("messages_fts", schema.messages, query), desc(schema.messages.createdAt)).limit(limit);
+  }
+
   // Notifications
   async getNotification(id: string): Promise<Notification | undefined> {
     const [notif] = await db.select().from(schema.notifications).where(eq(schema.notifications.id, id)).limit(1);
@@ -198,7 +762,9 @@ export class DbStorage implements IStorage {
   }
 
   async getAllNotifications(): Promise<Notification[]> {
-    return await db.select().from(schema.notifications).orderBy(desc(schema.notifications.createdAt));
+    // Scheduled posts sort by when they went out, not when they were written
+    return await db.select().from(schema.notifications)
+      .orderBy(desc(sql`coalesce(${schema.notifications.publishAt}, ${schema.notifications.createdAt})`));
   }
 
   async getNotificationsByDepartment(departmentName: string): Promise<Notification[]> {
@@ -224,6 +790,60 @@ export class DbStorage implements IStorage {
     await db.delete(schema.notifications).where(eq(schema.notifications.id, id));
   }
 
+  async getScheduledNotifications(postedBy?: string): Promise<Notification[]> {
+    return await db.select().from(schema.notifications)
+      .where(and(
+        eq(schema.notifications.status, "scheduled"),
+        postedBy ? eq(schema.notifications.postedBy, postedBy) : undefined
+      ))
+      .orderBy(schema.notifications.publishAt);
+  }
+
+  async getDueNotifications(now: Date): Promise<Notification[]> {
+    return await db.select().from(schema.notifications)
+      .where(and(
+        eq(schema.notifications.status, "scheduled"),
+        lte(schema.notifications.publishAt, now)
+      ))
+      .orderBy(schema.notifications.publishAt);
+  }
+
+  async getUrgentNotificationsDueForAckReminder(publishedAfter: Date, publishedBefore: Date): Promise<Notification[]> {
+    const publishedAt = sql`coalesce(${schema.notifications.publishAt}, ${schema.notifications.createdAt})`;
+    return await db.select().from(schema.notifications)
+      .where(and(
+        eq(schema.notifications.status, "published"),
+        eq(schema.notifications.notificationType, "urgent"),
+        isNull(schema.notifications.ackReminderSentAt),
+        gte(publishedAt, Math.floor(publishedAfter.getTime() / 1000)),
+        lte(publishedAt, Math.floor(publishedBefore.getTime() / 1000))
+      ));
+  }
+
+  async getNotificationsToArchive(now: Date): Promise<Notification[]> {
+    return await db.select().from(schema.notifications)
+      .where(and(
+        eq(schema.notifications.status, "published"),
+        lte(schema.notifications.expiresAt, now)
+      ));
+  }
+
+  // Without a department every match is returned; with one, only general
+  // notifications and those targeted at that department
+  async searchNotifications(query: string, departmentName?: string, limit: number = 20): Promise<Notification[]> {
+    return await db.select().from(schema.notifications).where(
+      and(
+        sql`${schema.notifications}.rowid IN (SELECT rowid FROM notifications_fts WHERE notifications_fts MATCH ${query})`,
+        departmentName
+          ? or(
+              sql`${schema.notifications.targetDepartmentName} IS NULL`,
+              eq(schema.notifications.targetDepartmentName, departmentName)
+            )
+          : undefined
+      )
+    ).orderBy(searchRank("notifications_fts", schema.notifications, query), desc(schema.notifications.createdAt)).limit(limit);
+  }
+
   // Documents
   async getDocument(id: string): Promise<Document | undefined> {
     const [doc] = await db.select().from(schema.documents).where(eq(schema.documents.id, id)).limit(1);
@@ -244,8 +864,15 @@ export class DbStorage implements IStorage {
     return newDoc;
   }
 
+  async updateDocument(id: string, data: Partial<InsertDocument>): Promise<Document | undefined> {
+    const [updated] = await db.update(schema.documents).set(data).where(eq(schema.documents.id, id)).returning();
+    return updated;
+  }
+
   async deleteDocument(id: string): Promise<void> {
     await db.delete(schema.documents).where(eq(schema.documents.id, id));
+    await db.delete(schema.documentVersions).where(eq(schema.documentVersions.documentId, id));
+    await db.delete(schema.documentDownloads).where(eq(schema.documentDownloads.documentId, id));
   }
 
   async getExpiredDocuments(): Promise<Document[]> {
@@ -257,6 +884,163 @@ export class DbStorage implements IStorage {
     );
   }
 
+  async searchDocuments(query: string, departmentName?: string, limit: number = 20): Promise<Document[]> {
+    return await db.select().from(schema.documents).where(
+      and(
+        sql`${schema.documents}.rowid IN (SELECT rowid FROM documents_fts WHERE documents_fts MATCH ${query})`,
+        departmentName ? eq(schema.documents.departmentName, departmentName) : undefined
+      )
+    ).orderBy(searchRank("documents_fts", schema.documents, query), desc(schema.documents.createdAt)).limit(limit);
+  }
+
+  async getDocumentsInFolder(departmentName: string, folderId: string | null): Promise<Document[]> {
+    return await db.select().from(schema.documents).where(
+      and(
+        eq(schema.documents.departmentName, departmentName),
+        folderId ? eq(schema.documents.folderId, folderId) : isNull(schema.documents.folderId)
+      )
+    ).orderBy(desc(schema.documents.createdAt));
+  }
+
+  // Document folders
+  async getDocumentFolder(id: string): Promise<DocumentFolder | undefined> {
+    const [folder] = await db.select().from(schema.documentFolders).where(eq(schema.documentFolders.id, id)).limit(1);
+    return folder;
+  }
+
+  async getDocumentFolders(departmentName: string): Promise<DocumentFolder[]> {
+    return await db.select().from(schema.documentFolders)
+      .where(eq(schema.documentFolders.departmentName, departmentName))
+      .orderBy(schema.documentFolders.name);
+  }
+
+  async createDocumentFolder(folder: InsertDocumentFolder): Promise<DocumentFolder> {
+    const [newFolder] = await db.insert(schema.documentFolders).values(folder).returning();
+    return newFolder;
+  }
+
+  async deleteDocumentFolder(id: string): Promise<void> {
+    await db.delete(schema.documentFolders).where(eq(schema.documentFolders.id, id));
+  }
+
+  // Document versions
+  async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+    return await db.select().from(schema.documentVersions)
+      .where(eq(schema.documentVersions.documentId, documentId))
+      .orderBy(desc(schema.documentVersions.version));
+  }
+
+  async getDocumentVersion(documentId: string, version: number): Promise<DocumentVersion | undefined> {
+    const [found] = await db.select().from(schema.documentVersions)
+      .where(and(eq(schema.documentVersions.documentId, documentId), eq(schema.documentVersions.version, version)))
+      .limit(1);
+    return found;
+  }
+
+  async createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion> {
+    const [newVersion] = await db.insert(schema.documentVersions).values(version).returning();
+    return newVersion;
+  }
+
+  async addDocumentVersion(data: Omit<InsertDocumentVersion, "version">): Promise<{ version: DocumentVersion; document: Document }> {
+    return db.transaction((tx) => {
+      const { latest } = tx.select({ latest: sql<number | null>`max(${schema.documentVersions.version})` })
+        .from(schema.documentVersions)
+        .where(eq(schema.documentVersions.documentId, data.documentId))
+        .get()!;
+      const current = tx.select({ version: schema.documents.version })
+        .from(schema.documents)
+        .where(eq(schema.documents.id, data.documentId))
+        .get();
+      if (!current) {
+        throw new Error("Document not found");
+      }
+
+      const next = Math.max(latest ?? 0, current.version) + 1;
+      const version = tx.insert(schema.documentVersions).values({ ...data, version: next }).returning().get();
+      const document = tx.update(schema.documents)
+        .set({ name: version.name, path: version.path, fileType: version.fileType, size: version.size, version: next })
+        .where(eq(schema.documents.id, data.documentId))
+        .returning()
+        .get();
+      return { version, document };
+    });
+  }
+
+  async recordDocumentDownload(documentId: string, userId: string, version: number): Promise<void> {
+    const downloadedAt = new Date();
+    await db.insert(schema.documentDownloads)
+      .values({ documentId, userId, version, downloadedAt })
+      .onConflictDoUpdate({
+        target: [schema.documentDownloads.documentId, schema.documentDownloads.userId],
+        set: { version, downloadedAt },
+      });
+  }
+
+  async getDocumentDownloads(documentId: string): Promise<DocumentDownload[]> {
+    return await db.select().from(schema.documentDownloads)
+      .where(eq(schema.documentDownloads.documentId, documentId));
+  }
+
+  async getDocumentByFileKey(key: string): Promise<Document | undefined> {
+    const [document] = await db.select().from(schema.documents).where(
+      or(
+        eq(schema.documents.path, key),
+        inArray(
+          schema.documents.id,
+          db.select({ id: schema.documentVersions.documentId }).from(schema.documentVersions)
+            .where(eq(schema.documentVersions.path, key))
+        )
+      )
+    ).limit(1);
+    return document;
+  }
+
+  async getDocumentStorageUsage(filter: { uploadedBy?: string; departmentName?: string }): Promise<number> {
+    const [versions] = await db.select({ total: sql<number>`coalesce(sum(${schema.documentVersions.size}), 0)` })
+      .from(schema.documentVersions)
+      .innerJoin(schema.documents, eq(schema.documents.id, schema.documentVersions.documentId))
+      .where(and(
+        filter.uploadedBy ? eq(schema.documentVersions.uploadedBy, filter.uploadedBy) : undefined,
+        filter.departmentName ? eq(schema.documents.departmentName, filter.departmentName) : undefined
+      ));
+    // Documents uploaded before versioning have no version rows yet
+    const [unversioned] = await db.select({ total: sql<number>`coalesce(sum(${schema.documents.size}), 0)` })
+      .from(schema.documents)
+      .where(and(
+        sql`not exists (select 1 from ${schema.documentVersions} where ${schema.documentVersions.documentId} = ${schema.documents.id})`,
+        filter.uploadedBy ? eq(schema.documents.owner, filter.uploadedBy) : undefined,
+        filter.departmentName ? eq(schema.documents.departmentName, filter.departmentName) : undefined
+      ));
+    return Number(versions.total) + Number(unversioned.total);
+  }
+
+  // Stored file references
+  async getStoredFileReferences(): Promise<Array<{ value: string; kind: "document" | "chat-image" }>> {
+    const documentPaths = await db.selectDistinct({ value: schema.documents.path }).from(schema.documents);
+    const versionPaths = await db.selectDistinct({ value: schema.documentVersions.path }).from(schema.documentVersions);
+    const imageUrls = await db.selectDistinct({ value: schema.messages.imageUrl }).from(schema.messages)
+      .where(sql`${schema.messages.imageUrl} IS NOT NULL`);
+    const revisionImageUrls = await db.selectDistinct({ value: schema.messageRevisions.imageUrl }).from(schema.messageRevisions)
+      .where(sql`${schema.messageRevisions.imageUrl} IS NOT NULL`);
+
+    const references = new Map<string, "document" | "chat-image">();
+    for (const { value } of [...documentPaths, ...versionPaths]) references.set(value, "document");
+    for (const { value } of [...imageUrls, ...revisionImageUrls]) {
+      if (value && !references.has(value)) references.set(value, "chat-image");
+    }
+    return Array.from(references, ([value, kind]) => ({ value, kind }));
+  }
+
+  async replaceStoredFileReference(oldValue: string, newValue: string): Promise<void> {
+    db.transaction((tx) => {
+      tx.update(schema.documents).set({ path: newValue }).where(eq(schema.documents.path, oldValue)).run();
+      tx.update(schema.documentVersions).set({ path: newValue }).where(eq(schema.documentVersions.path, oldValue)).run();
+      tx.update(schema.messages).set({ imageUrl: newValue }).where(eq(schema.messages.imageUrl, oldValue)).run();
+      tx.update(schema.messageRevisions).set({ imageUrl: newValue }).where(eq(schema.messageRevisions.imageUrl, oldValue)).run();
+    });
+  }
+
   // Activity Logs
   async createActivityLog(log: InsertActivityLog): Promise<ActivityLog> {
     const [newLog] = await db.insert(schema.activityLogs).values(log).returning();
@@ -282,6 +1066,195 @@ export class DbStorage implements IStorage {
   async deletePushSubscription(endpoint: string): Promise<void> {
     await db.delete(schema.pushSubscriptions).where(eq(schema.pushSubscriptions.endpoint, endpoint));
   }
+
+  // Read receipts
+  async markRoomRead(userId: string, roomId: string, readAt: Date): Promise<RoomRead> {
+    // Never move the marker backwards if an older read arrives late
+    const [read] = await db.insert(schema.roomReads)
+      .values({ userId, roomId, lastReadAt: readAt })
+      .onConflictDoUpdate({
+        target: [schema.roomReads.userId, schema.roomReads.roomId],
+        set: { lastReadAt: sql`max(${schema.roomReads.lastReadAt}, excluded.last_read_at)` },
+      })
+      .returning();
+    return read;
+  }
+
+  async getUnreadCounts(user: Pick<User, "id" | "username" | "createdAt">, roomIds: string[]): Promise<Record<string, number>> {
+    if (roomIds.length === 0) return {};
+
+    // Rooms the user never opened count from when the account was created,
+    // so new users don't start with the whole history marked unread. Thread
+    // replies and deleted or hidden messages aren't in the timeline, so they
+    // don't count either.
+    const rows = await db.select({
+      roomId: schema.messages.roomId,
+      count: sql<number>`count(*)`,
+    })
+      .from(schema.messages)
+      .leftJoin(schema.roomReads, and(
+        eq(schema.roomReads.roomId, schema.messages.roomId),
+        eq(schema.roomReads.userId, user.id)
+      ))
+      .where(and(
+        inArray(schema.messages.roomId, roomIds),
+        ne(schema.messages.sender, user.username),
+        isNull(schema.messages.replyTo),
+        isNull(schema.messages.deletedAt),
+        isNull(schema.messages.hiddenAt),
+        or(
+          and(isNull(schema.roomReads.lastReadAt), gte(schema.messages.createdAt, user.createdAt)),
+          gt(schema.messages.createdAt, schema.roomReads.lastReadAt)
+        )
+      ))
+      .groupBy(schema.messages.roomId);
+
+    return Object.fromEntries(rows.map((row) => [row.roomId, Number(row.count)]));
+  }
+
+  async markNotificationsRead(userId: string, notificationIds: string[]): Promise<void> {
+    if (notificationIds.length === 0) return;
+    await db.insert(schema.notificationReads)
+      .values(notificationIds.map((notificationId) => ({ userId, notificationId })))
+      .onConflictDoNothing();
+  }
+
+  async getReadNotificationIds(userId: string): Promise<string[]> {
+    const rows = await db.select({ notificationId: schema.notificationReads.notificationId })
+      .from(schema.notificationReads)
+      .where(eq(schema.notificationReads.userId, userId));
+    return rows.map((row) => row.notificationId);
+  }
+
+  // Notification comments
+  async getNotificationComment(id: string): Promise<NotificationComment | undefined> {
+    const [comment] = await db.select().from(schema.notificationComments)
+      .where(eq(schema.notificationComments.id, id))
+      .limit(1);
+    return comment;
+  }
+
+  async getNotificationComments(notificationId: string): Promise<NotificationComment[]> {
+    return await db.select().from(schema.notificationComments)
+      .where(eq(schema.notificationComments.notificationId, notificationId))
+      .orderBy(schema.notificationComments.createdAt, schema.notificationComments.id);
+  }
+
+  async createNotificationComment(comment: InsertNotificationComment): Promise<NotificationComment> {
+    const [newComment] = await db.insert(schema.notificationComments).values(comment).returning();
+    return newComment;
+  }
+
+  async updateNotificationComment(id: string, data: Partial<InsertNotificationComment>): Promise<NotificationComment | undefined> {
+    const [updated] = await db.update(schema.notificationComments)
+      .set(data)
+      .where(eq(schema.notificationComments.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Counts what everyone can see: hidden and deleted comments are left out
+  async getNotificationCommentCounts(notificationIds: string[]): Promise<Record<string, number>> {
+    if (notificationIds.length === 0) return {};
+    const rows = await db.select({
+      notificationId: schema.notificationComments.notificationId,
+      count: sql<number>`count(*)`,
+    })
+      .from(schema.notificationComments)
+      .where(and(
+        inArray(schema.notificationComments.notificationId, notificationIds),
+        isNull(schema.notificationComments.hiddenAt),
+        isNull(schema.notificationComments.deletedAt)
+      ))
+      .groupBy(schema.notificationComments.notificationId);
+    return Object.fromEntries(rows.map((row) => [row.notificationId, Number(row.count)]));
+  }
+
+  // Acknowledgements
+  async acknowledgeNotification(notificationId: string, userId: string): Promise<NotificationAck> {
+    // Acknowledging twice keeps the first timestamp
+    await db.insert(schema.notificationAcks)
+      .values({ notificationId, userId })
+      .onConflictDoNothing();
+    const [ack] = await db.select().from(schema.notificationAcks)
+      .where(and(
+        eq(schema.notificationAcks.notificationId, notificationId),
+        eq(schema.notificationAcks.userId, userId)
+      ))
+      .limit(1);
+    return ack;
+  }
+
+  async getNotificationAcks(notificationId: string): Promise<NotificationAck[]> {
+    return await db.select().from(schema.notificationAcks)
+      .where(eq(schema.notificationAcks.notificationId, notificationId))
+      .orderBy(schema.notificationAcks.acknowledgedAt);
+  }
+
+  async getAcknowledgedNotificationIds(userId: string): Promise<string[]> {
+    const rows = await db.select({ notificationId: schema.notificationAcks.notificationId })
+      .from(schema.notificationAcks)
+      .where(eq(schema.notificationAcks.userId, userId));
+    return rows.map((row) => row.notificationId);
+  }
+
+  // Reactions
+  async toggleReaction(targetType: ReactionTargetType, targetId: string, userId: string, emoji: string): Promise<boolean> {
+    const match = and(
+      eq(schema.reactions.targetType, targetType),
+      eq(schema.reactions.targetId, targetId),
+      eq(schema.reactions.userId, userId),
+      eq(schema.reactions.emoji, emoji)
+    );
+
+    const removed = await db.delete(schema.reactions).where(match).returning();
+    if (removed.length > 0) return false;
+
+    await db.insert(schema.reactions)
+      .values({ targetType, targetId, userId, emoji })
+      .onConflictDoNothing();
+    return true;
+  }
+
+  async getReactionSummaries(targetType: ReactionTargetType, targetIds: string[], viewerId?: string): Promise<Record<string, ReactionSummary[]>> {
+    if (targetIds.length === 0) return {};
+
+    const rows = await db.select({
+      targetId: schema.reactions.targetId,
+      emoji: schema.reactions.emoji,
+      userId: schema.reactions.userId,
+      username: schema.users.username,
+    })
+      .from(schema.reactions)
+      .leftJoin(schema.users, eq(schema.users.id, schema.reactions.userId))
+      .where(and(
+        eq(schema.reactions.targetType, targetType),
+        inArray(schema.reactions.targetId, targetIds)
+      ))
+      .orderBy(schema.reactions.createdAt);
+
+    // Emojis keep the order they were first used on each target
+    const summaries: Record<string, ReactionSummary[]> = {};
+    for (const row of rows) {
+      const list = summaries[row.targetId] ??= [];
+      let summary = list.find((entry) => entry.emoji === row.emoji);
+      if (!summary) {
+        summary = { emoji: row.emoji, count: 0, users: [], reactedByMe: false };
+        list.push(summary);
+      }
+      summary.count++;
+      if (row.username) summary.users.push(row.username);
+      if (row.userId === viewerId) summary.reactedByMe = true;
+    }
+    return summaries;
+  }
+
+  async deleteReactionsForTarget(targetType: ReactionTargetType, targetId: string): Promise<void> {
+    await db.delete(schema.reactions).where(and(
+      eq(schema.reactions.targetType, targetType),
+      eq(schema.reactions.targetId, targetId)
+    ));
+  }
 }
 
 export const storage = new DbStorage();
\ No newline at end of file
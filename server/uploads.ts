@@ -0,0 +1,141 @@
+import fs from "fs/promises";
+import path from "path";
+import type { User } from "@shared/schema";
+
+const MB = 1024 * 1024;
+
+// Enough of the file to find a signature, and the part names near the start of a .docx
+const SNIFF_BYTES = 64 * 1024;
+
+export interface UploadPolicy {
+  // Detected file types, e.g. pdf, docx, png
+  allowedTypes: string[];
+  maxFileBytes: number;
+}
+
+export interface UploadSettings {
+  documents: UploadPolicy;
+  chatImages: UploadPolicy;
+  // Library storage per user by role, and per department; 0 means no limit
+  userQuotaBytes: Record<string, number>;
+  departmentQuotaBytes: number;
+}
+
+// Extensions accepted for each detected type; the file must sniff as the type its name claims
+const extensionTypes: Record<string, string> = {
+  ".pdf": "pdf",
+  ".doc": "doc",
+  ".docx": "docx",
+  ".txt": "txt",
+  ".png": "png",
+  ".jpg": "jpg",
+  ".jpeg": "jpg",
+  ".gif": "gif",
+  ".webp": "webp",
+};
+
+const defaultSettings: UploadSettings = {
+  documents: { allowedTypes: ["pdf", "doc", "docx", "txt", "png", "jpg"], maxFileBytes: 10 * MB },
+  chatImages: { allowedTypes: ["png", "jpg", "gif", "webp"], maxFileBytes: 5 * MB },
+  userQuotaBytes: { student: 50 * MB, "department-governor": 500 * MB, "faculty-governor": 1024 * MB, admin: 0 },
+  departmentQuotaBytes: 2048 * MB,
+};
+
+function parsePolicy(raw: any, fallback: UploadPolicy): UploadPolicy {
+  const allowedTypes = Array.isArray(raw?.allowed_types)
+    ? raw.allowed_types.map((type: unknown) => String(type).toLowerCase().replace(/^\./, ""))
+    : fallback.allowedTypes;
+  const maxFileMb = Number(raw?.max_file_mb);
+  return {
+    allowedTypes: allowedTypes.map((type: string) => type === "jpeg" ? "jpg" : type),
+    maxFileBytes: maxFileMb > 0 ? maxFileMb * MB : fallback.maxFileBytes,
+  };
+}
+
+// Reads the uploads section of config.json; anything missing keeps its default
+export function parseUploadSettings(config: any): UploadSettings {
+  const uploads = config?.uploads ?? {};
+  const userQuotaBytes = { ...defaultSettings.userQuotaBytes };
+  for (const [role, mb] of Object.entries(uploads.user_quota_mb ?? {})) {
+    if (Number(mb) >= 0) userQuotaBytes[role] = Number(mb) * MB;
+  }
+  const departmentQuotaMb = Number(uploads.department_quota_mb);
+  return {
+    documents: parsePolicy(uploads.documents, defaultSettings.documents),
+    chatImages: parsePolicy(uploads.chat_images, defaultSettings.chatImages),
+    userQuotaBytes,
+    departmentQuotaBytes: departmentQuotaMb >= 0 && uploads.department_quota_mb !== undefined
+      ? departmentQuotaMb * MB
+      : defaultSettings.departmentQuotaBytes,
+  };
+}
+
+function isUtf8Text(sample: Buffer): boolean {
+  if (sample.includes(0)) return false;
+  try {
+    // stream: a character cut off at the end of the sample isn't an error
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Works out a file's type from its first bytes rather than the name or the
+// Content-Type the browser sent. Null when it isn't a type we know.
+export async function detectFileType(filePath: string): Promise<string | null> {
+  const handle = await fs.open(filePath, "r");
+  let sample: Buffer;
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    sample = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const startsWith = (...bytes: number[]) => bytes.every((byte, i) => sample[i] === byte);
+  const head = sample.subarray(0, 12).toString("latin1");
+
+  if (head.startsWith("%PDF-")) return "pdf";
+  if (startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) return "png";
+  if (startsWith(0xff, 0xd8, 0xff)) return "jpg";
+  if (head.startsWith("GIF87a") || head.startsWith("GIF89a")) return "gif";
+  if (head.startsWith("RIFF") && head.slice(8, 12) === "WEBP") return "webp";
+  // Word 97-2003 files are OLE compound documents
+  if (startsWith(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1)) return "doc";
+  // .docx is a zip whose parts live under word/
+  if (startsWith(0x50, 0x4b, 0x03, 0x04)) return sample.includes("word/") ? "docx" : "zip";
+  if (sample.length > 0 && isUtf8Text(sample)) return "txt";
+  return null;
+}
+
+// Null when the file may be kept, otherwise why it was refused and the status to answer with
+export async function validateUpload(
+  file: { path: string; originalname: string; size: number },
+  policy: UploadPolicy
+): Promise<{ status: number; error: string } | null> {
+  if (file.size > policy.maxFileBytes) {
+    return { status: 413, error: `Files are limited to ${formatMegabytes(policy.maxFileBytes)}` };
+  }
+  const expected = extensionTypes[path.extname(file.originalname).toLowerCase()];
+  if (!expected || !policy.allowedTypes.includes(expected)) {
+    return { status: 415, error: `Only ${policy.allowedTypes.join(", ")} files can be uploaded here` };
+  }
+  if (await detectFileType(file.path) !== expected) {
+    return { status: 415, error: `The file's contents don't match a .${expected} file` };
+  }
+  return null;
+}
+
+export function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / MB)} MB`;
+}
+
+export function getUserQuota(settings: UploadSettings, user: Pick<User, "role">): number {
+  return settings.userQuotaBytes[user.role] ?? 0;
+}
+
+export function largestUploadBytes(settings: UploadSettings): number {
+  return Math.max(settings.documents.maxFileBytes, settings.chatImages.maxFileBytes);
+}
@@ -0,0 +1,106 @@
+import { test, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import https from "https";
+import os from "os";
+import path from "path";
+import webpush from "web-push";
+
+// db.ts opens data/cie_portal.db under the working directory, so run against a scratch one
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "webpush-test-"));
+const vapid = webpush.generateVAPIDKeys();
+fs.writeFileSync(path.join(workDir, "config.json"), JSON.stringify({
+  push: { vapid_public_key: vapid.publicKey, vapid_private_key: vapid.privateKey, contact_email: "mailto:test@example.com" },
+}));
+process.chdir(workDir);
+
+const { sqlite } = await import("./db");
+const { storage } = await import("./storage");
+const { initializeWebPush, subscribeToPush, sendPushNotification } = await import("./webpush");
+
+sqlite.exec(`CREATE TABLE push_subscriptions (
+  id text PRIMARY KEY NOT NULL,
+  user_id text NOT NULL,
+  endpoint text NOT NULL UNIQUE,
+  keys text NOT NULL,
+  created_at integer NOT NULL
+)`);
+
+// Stands in for the browser vendor's push service
+const received: Array<{ headers: http.IncomingHttpHeaders; body: Buffer }> = [];
+let pushStatus = 201;
+const pushService = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    received.push({ headers: req.headers, body: Buffer.concat(chunks) });
+    res.statusCode = pushStatus;
+    res.end();
+  });
+});
+let endpointBase = "";
+
+// web-push only speaks HTTPS; hand its requests to the plain-HTTP stand-in instead
+mock.method(https, "request", (options: http.RequestOptions, callback?: (res: http.IncomingMessage) => void) =>
+  http.request({ ...options, agent: undefined }, callback));
+
+// The keys a browser's PushSubscription hands out
+function browserKeys() {
+  const ecdh = crypto.createECDH("prime256v1");
+  ecdh.generateKeys();
+  return {
+    p256dh: ecdh.getPublicKey().toString("base64url"),
+    auth: crypto.randomBytes(16).toString("base64url"),
+  };
+}
+
+before(async () => {
+  await new Promise<void>((resolve) => pushService.listen(0, "127.0.0.1", resolve));
+  const { port } = pushService.address() as { port: number };
+  endpointBase = `http://127.0.0.1:${port}`;
+  await initializeWebPush();
+});
+
+after(() => {
+  pushService.close();
+  sqlite.close();
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test("a saved subscription receives an encrypted, VAPID-signed push", async () => {
+  received.length = 0;
+  const endpoint = `${endpointBase}/push/one`;
+  await subscribeToPush("user-1", endpoint, browserKeys());
+
+  await sendPushNotification("user-1", { title: "Hello", body: "World" });
+
+  assert.equal(received.length, 1);
+  assert.equal(received[0].headers["content-encoding"], "aes128gcm");
+  assert.match(String(received[0].headers.authorization), /^vapid t=.+, k=.+$/);
+  assert.ok(received[0].body.length > 0);
+  assert.ok(!received[0].body.includes("Hello"), "the payload is encrypted");
+});
+
+test("subscribing the same endpoint again replaces the old subscription", async () => {
+  const endpoint = `${endpointBase}/push/two`;
+  await subscribeToPush("user-2", endpoint, browserKeys());
+  await subscribeToPush("user-2", endpoint, browserKeys());
+
+  assert.equal((await storage.getPushSubscriptionsByUser("user-2")).length, 1);
+});
+
+test("a subscription the push service reports as gone is removed", async () => {
+  const endpoint = `${endpointBase}/push/three`;
+  await subscribeToPush("user-3", endpoint, browserKeys());
+
+  pushStatus = 410;
+  try {
+    await sendPushNotification("user-3", { title: "Hello", body: "World" });
+  } finally {
+    pushStatus = 201;
+  }
+
+  assert.deepEqual(await storage.getPushSubscriptionsByUser("user-3"), []);
+});
@@ -31,6 +31,17 @@ export async function initializeWebPush() {
   }
 }
 
+export interface PushSubscriptionKeys {
+  p256dh: string;
+  auth: string;
+}
+
+// Saves a browser's subscription; subscribing the same endpoint again replaces it
+export async function subscribeToPush(userId: string, endpoint: string, keys: PushSubscriptionKeys) {
+  await storage.deletePushSubscription(endpoint);
+  return storage.createPushSubscription({ userId, endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } });
+}
+
 export async function sendPushNotification(userId: string, payload: { title: string; body: string; icon?: string }) {
   if (!vapidKeys) return;
 
@@ -49,10 +60,7 @@ export async function sendPushNotification(userId: string, payload: { title: str
           await webpush.sendNotification(
             {
               endpoint: sub.endpoint,
-              keys: {
-                p256dh: sub.p256dh,
-                auth: sub.auth
-              }
+              keys: sub.keys as PushSubscriptionKeys
             },
             notificationPayload
           );
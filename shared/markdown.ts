@@ -0,0 +1,21 @@
+// The Markdown subset chat messages support, as parsed by server/markdown.ts.
+// Clients render these nodes directly and never see raw HTML.
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "bold"; children: InlineNode[] }
+  | { type: "italic"; children: InlineNode[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: InlineNode[] }
+  | { type: "mention"; username: string }
+  | { type: "break" };
+
+export type BlockNode =
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "code_block"; language: string | null; text: string }
+  | { type: "list"; ordered: boolean; items: InlineNode[][] };
+
+export type MessageAst = BlockNode[];
+
+// Longest message or image caption source the server accepts
+export const MAX_MESSAGE_LENGTH = 4000;
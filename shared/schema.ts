@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, index, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { MessageAst } from "./markdown";
 
 export const users = sqliteTable("users", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -12,6 +13,13 @@ export const users = sqliteTable("users", {
   role: text("role").notNull(),
   departmentName: text("department_name").notNull(),
   tutorialSeen: integer("tutorial_seen", { mode: "boolean" }).default(sql`0`).notNull(),
+  // Set by a moderator: no chat messages or comments until then
+  mutedUntil: integer("muted_until", { mode: "timestamp" }),
+  muteReason: text("mute_reason"),
+  // active, suspended (no sign-in until suspendedUntil) or banned
+  accountStatus: text("account_status").default("active").notNull(),
+  suspendedUntil: integer("suspended_until", { mode: "timestamp" }),
+  statusReason: text("status_reason"),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
 });
 
@@ -24,25 +32,59 @@ export const departments = sqliteTable("departments", {
 export const rooms = sqliteTable("rooms", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   name: text("name").notNull(),
-  type: text("type").notNull(),
+  type: text("type").notNull(), // general, department, custom, dm, group
   departmentName: text("department_name"),
+  // Sorted member ids of a direct message, so starting a DM again reuses the room
+  dmKey: text("dm_key"),
+  // How non-members get into a custom room: open (join freely), request, invite
+  joinPolicy: text("join_policy").default("open").notNull(),
+  // Announcement rooms: only moderators can post
+  readOnly: integer("read_only", { mode: "boolean" }).default(false).notNull(),
+  // Minimum gap between two messages from the same non-moderator, 0 = off
+  slowModeSeconds: integer("slow_mode_seconds").default(0).notNull(),
+  // How long messages are kept: forever, days (retentionDays) or semester (until
+  // the end of the semester they were posted in, see chat.semester_end_dates)
+  retentionPolicy: text("retention_policy").default("forever").notNull(),
+  retentionDays: integer("retention_days"),
   createdBy: text("created_by").notNull(),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
-});
+}, (table) => [
+  uniqueIndex("rooms_dm_key_idx").on(table.dmKey),
+]);
 
 export const messages = sqliteTable("messages", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   roomId: text("room_id").notNull(),
   sender: text("sender").notNull(),
+  // content keeps the Markdown source; contentAst is the sanitized parse clients render.
+  // Messages from before Markdown support have no AST and use formatting instead.
   content: text("content").notNull(),
+  contentAst: text("content_ast", { mode: "json" }).$type<MessageAst>(),
   formatting: text("formatting", { mode: "json" }),
-  imageUrl: text("image_url"),
+  imageUrl: text("image_url"), // storage key, served from /api/files/<key>
   imageExpiry: integer("image_expiry", { mode: "timestamp" }),
   replyTo: text("reply_to"),
   edited: integer("edited", { mode: "boolean" }).$defaultFn(() => false).notNull(),
   reactions: text("reactions", { mode: "json" }).$defaultFn(() => ({})).notNull(),
+  // Thread stats, kept on the root message
+  replyCount: integer("reply_count").default(0).notNull(),
+  lastReplyAt: integer("last_reply_at", { mode: "timestamp" }),
+  // Deleted messages stay as placeholders until the purge job removes them;
+  // what they said is kept in message_revisions
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
+  deletedBy: text("deleted_by"),
+  // Hidden from the report queue; like a deletion the content moves to message_revisions,
+  // but the message is never purged (room retention still applies)
+  hiddenAt: integer("hidden_at", { mode: "timestamp" }),
+  hiddenBy: text("hidden_by"),
+  // Placed by an admin: exempt from room retention and the deleted-message purge
+  legalHold: integer("legal_hold", { mode: "boolean" }).default(false).notNull(),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
-});
+}, (table) => [
+  index("messages_room_created_idx").on(table.roomId, table.createdAt),
+  index("messages_reply_to_idx").on(table.replyTo),
+  index("messages_image_url_idx").on(table.imageUrl),
+]);
 
 export const notifications = sqliteTable("notifications", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -54,21 +96,78 @@ export const notifications = sqliteTable("notifications", {
   targetDepartmentName: text("target_department_name"),
   reactions: text("reactions", { mode: "json" }).$defaultFn(() => ({})).notNull(),
   comments: text("comments", { mode: "json" }).$defaultFn(() => ([])).notNull(),
+  status: text("status").default("published").notNull(), // scheduled, published, archived
+  publishAt: integer("publish_at", { mode: "timestamp" }),
+  expiresAt: integer("expires_at", { mode: "timestamp" }),
+  // Urgent posts only: when unacknowledged users were pushed a reminder
+  ackReminderSentAt: integer("ack_reminder_sent_at", { mode: "timestamp" }),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
-});
+}, (table) => [
+  index("notifications_status_publish_idx").on(table.status, table.publishAt),
+]);
 
 export const documents = sqliteTable("documents", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   name: text("name").notNull(),
-  path: text("path").notNull(),
+  path: text("path").notNull(), // storage key of the latest version's file
   owner: text("owner").notNull(),
   departmentName: text("department_name").notNull(),
+  // Folder in the department's library; null for its top level
+  folderId: text("folder_id"),
+  // Who can see it: department (departmentName), departments (also visibleDepartments),
+  // faculty (everyone) or governors (staff only)
+  visibility: text("visibility").default("department").notNull(),
+  visibleDepartments: text("visible_departments", { mode: "json" }).$type<string[]>(),
   fileType: text("file_type").notNull(),
   size: integer("size").notNull(),
+  // name, path, fileType and size are those of the latest version
+  version: integer("version").default(1).notNull(),
   expiration: integer("expiration", { mode: "timestamp" }),
+  // Hidden documents are only listed for their owner and moderators
+  hiddenAt: integer("hidden_at", { mode: "timestamp" }),
+  hiddenBy: text("hidden_by"),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
 });
 
+export const documentFolders = sqliteTable("document_folders", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  name: text("name").notNull(),
+  departmentName: text("department_name").notNull(),
+  // Null for folders at the top of the department's library
+  parentId: text("parent_id"),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+}, (table) => [
+  index("document_folders_department_idx").on(table.departmentName, table.parentId),
+]);
+
+// Every file uploaded for a document, the latest included; older ones stay on disk
+export const documentVersions = sqliteTable("document_versions", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  documentId: text("document_id").notNull(),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  path: text("path").notNull(), // storage key
+  fileType: text("file_type").notNull(),
+  size: integer("size").notNull(),
+  uploadedBy: text("uploaded_by").notNull(), // username, like documents.owner
+  note: text("note"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+}, (table) => [
+  uniqueIndex("document_versions_document_version_idx").on(table.documentId, table.version),
+]);
+
+// The last version of a document each user downloaded, so they can be told when it is replaced
+export const documentDownloads = sqliteTable("document_downloads", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  documentId: text("document_id").notNull(),
+  userId: text("user_id").notNull(),
+  version: integer("version").notNull(),
+  downloadedAt: integer("downloaded_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+}, (table) => [
+  uniqueIndex("document_downloads_document_user_idx").on(table.documentId, table.userId),
+]);
+
 export const activityLogs = sqliteTable("activity_logs", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   userId: text("user_id").notNull(),
@@ -85,6 +184,161 @@ export const pushSubscriptions = sqliteTable("push_subscriptions", {
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
 });
 
+export const roomReads = sqliteTable("room_reads", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text("user_id").notNull(),
+  roomId: text("room_id").notNull(),
+  lastReadAt: integer("last_read_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  uniqueIndex("room_reads_user_room_idx").on(table.userId, table.roomId),
+]);
+
+export const notificationReads = sqliteTable("notification_reads", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text("user_id").notNull(),
+  notificationId: text("notification_id").notNull(),
+  readAt: integer("read_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+}, (table) => [
+  uniqueIndex("notification_reads_user_notification_idx").on(table.userId, table.notificationId),
+]);
+
+export const notificationComments = sqliteTable("notification_comments", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  notificationId: text("notification_id").notNull(),
+  // Replies are one level deep: parentId always points at a top-level comment
+  parentId: text("parent_id"),
+  // Null only for comments migrated from authors that no longer exist
+  authorId: text("author_id"),
+  authorName: text("author_name").notNull(),
+  content: text("content").notNull(),
+  edited: integer("edited", { mode: "boolean" }).default(false).notNull(),
+  hiddenAt: integer("hidden_at", { mode: "timestamp" }),
+  hiddenBy: text("hidden_by"),
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
+  deletedBy: text("deleted_by"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }),
+}, (table) => [
+  index("notification_comments_notification_idx").on(table.notificationId, table.createdAt),
+]);
+
+export const notificationAcks = sqliteTable("notification_acks", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  notificationId: text("notification_id").notNull(),
+  userId: text("user_id").notNull(),
+  acknowledgedAt: integer("acknowledged_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+}, (table) => [
+  uniqueIndex("notification_acks_notification_user_idx").on(table.notificationId, table.userId),
+]);
+
+// One row per (target, user, emoji); reacting again removes the row
+export const reactions = sqliteTable("reactions", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  targetType: text("target_type").notNull(), // message, notification
+  targetId: text("target_id").notNull(),
+  userId: text("user_id").notNull(),
+  emoji: text("emoji").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+}, (table) => [
+  uniqueIndex("reactions_target_user_emoji_idx").on(table.targetType, table.targetId, table.userId, table.emoji),
+]);
+
+// Who belongs to a dm, group or custom room; general and department rooms are open by department
+export const roomMembers = sqliteTable("room_members", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  roomId: text("room_id").notNull(),
+  userId: text("user_id").notNull(),
+  role: text("role").default("member").notNull(), // owner, moderator, member
+  mutedUntil: integer("muted_until", { mode: "timestamp" }),
+  addedBy: text("added_by"),
+  joinedAt: integer("joined_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+}, (table) => [
+  uniqueIndex("room_members_room_user_idx").on(table.roomId, table.userId),
+  index("room_members_user_idx").on(table.userId),
+]);
+
+// Invitations sent by room moderators and requests to join a request-only room
+export const roomRequests = sqliteTable("room_requests", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  roomId: text("room_id").notNull(),
+  userId: text("user_id").notNull(), // the person who would join
+  kind: text("kind").notNull(), // invite, join
+  requestedBy: text("requested_by").notNull(),
+  status: text("status").default("pending").notNull(), // pending, accepted, declined
+  decidedBy: text("decided_by"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+  decidedAt: integer("decided_at", { mode: "timestamp" }),
+}, (table) => [
+  index("room_requests_room_status_idx").on(table.roomId, table.status),
+  index("room_requests_user_status_idx").on(table.userId, table.status),
+]);
+
+// Messages a room's moderators pinned to the bar above the chat
+export const pinnedMessages = sqliteTable("pinned_messages", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  roomId: text("room_id").notNull(),
+  messageId: text("message_id").notNull(),
+  pinnedBy: text("pinned_by").notNull(),
+  pinnedAt: integer("pinned_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+}, (table) => [
+  uniqueIndex("pinned_messages_message_idx").on(table.messageId),
+  index("pinned_messages_room_idx").on(table.roomId),
+]);
+
+// One row per user a message mentions, directly or through @room / @department
+export const mentions = sqliteTable("mentions", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  messageId: text("message_id").notNull(),
+  roomId: text("room_id").notNull(),
+  userId: text("user_id").notNull(), // the person mentioned
+  mentionedBy: text("mentioned_by").notNull(),
+  kind: text("kind").default("user").notNull(), // user, room, department
+  readAt: integer("read_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+}, (table) => [
+  uniqueIndex("mentions_message_user_idx").on(table.messageId, table.userId),
+  index("mentions_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+// Snapshot of a message as it was before each edit or deletion
+export const messageRevisions = sqliteTable("message_revisions", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  messageId: text("message_id").notNull(),
+  roomId: text("room_id").notNull(),
+  action: text("action").notNull(), // edit, delete
+  actorId: text("actor_id").notNull(), // who edited or deleted it
+  content: text("content").notNull(),
+  contentAst: text("content_ast", { mode: "json" }).$type<MessageAst>(),
+  formatting: text("formatting", { mode: "json" }),
+  imageUrl: text("image_url"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+}, (table) => [
+  index("message_revisions_message_idx").on(table.messageId, table.createdAt),
+  index("message_revisions_created_idx").on(table.createdAt),
+]);
+
+// A user flagging a message, notification comment or document. Reports are worked
+// per target: acting on one resolves every open report against the same content.
+export const reports = sqliteTable("reports", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  targetType: text("target_type").notNull(), // message, comment, document
+  targetId: text("target_id").notNull(),
+  reporterId: text("reporter_id").notNull(),
+  reason: text("reason").notNull(), // spam, harassment, inappropriate, other
+  details: text("details"),
+  // Who posted the content, and the department whose governor handles the report
+  authorId: text("author_id"),
+  departmentName: text("department_name"),
+  status: text("status").default("open").notNull(), // open, dismissed, resolved
+  resolution: text("resolution"), // dismiss, hide, delete, warn, mute
+  resolvedBy: text("resolved_by"),
+  resolvedAt: integer("resolved_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+}, (table) => [
+  uniqueIndex("reports_target_reporter_idx").on(table.targetType, table.targetId, table.reporterId),
+  index("reports_status_created_idx").on(table.status, table.createdAt),
+]);
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
@@ -105,6 +359,13 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   createdAt: true,
 });
 
+// Whole-message style from the composer's toolbar; colors come from its color picker
+export const messageFormattingSchema = z.object({
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i).optional(),
+}).strict();
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
@@ -115,6 +376,16 @@ export const insertDocumentSchema = createInsertSchema(documents).omit({
   createdAt: true,
 });
 
+export const insertDocumentFolderSchema = createInsertSchema(documentFolders).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDocumentVersionSchema = createInsertSchema(documentVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({
   id: true,
   createdAt: true,
@@ -125,9 +396,64 @@ export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions
   createdAt: true,
 });
 
+export const insertRoomReadSchema = createInsertSchema(roomReads).omit({
+  id: true,
+});
+
+export const insertNotificationReadSchema = createInsertSchema(notificationReads).omit({
+  id: true,
+  readAt: true,
+});
+
+export const insertNotificationCommentSchema = createInsertSchema(notificationComments).omit({
+  createdAt: true,
+});
+
+export const insertNotificationAckSchema = createInsertSchema(notificationAcks).omit({
+  id: true,
+  acknowledgedAt: true,
+});
+
+export const insertReactionSchema = createInsertSchema(reactions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRoomMemberSchema = createInsertSchema(roomMembers).omit({
+  id: true,
+  joinedAt: true,
+});
+
+export const insertRoomRequestSchema = createInsertSchema(roomRequests).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPinnedMessageSchema = createInsertSchema(pinnedMessages).omit({
+  id: true,
+  pinnedAt: true,
+});
+
+export const insertMentionSchema = createInsertSchema(mentions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMessageRevisionSchema = createInsertSchema(messageRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReportSchema = createInsertSchema(reports).omit({
+  id: true,
+  createdAt: true,
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+export type AccountStatus = "active" | "suspended" | "banned";
+
 export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
 export type Department = typeof departments.$inferSelect;
 
@@ -135,6 +461,7 @@ export type InsertRoom = z.infer<typeof insertRoomSchema>;
 export type Room = typeof rooms.$inferSelect;
 
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type MessageFormatting = z.infer<typeof messageFormattingSchema>;
 export type Message = typeof messages.$inferSelect;
 
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
@@ -143,8 +470,72 @@ export type Notification = typeof notifications.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
 
+export type InsertDocumentFolder = z.infer<typeof insertDocumentFolderSchema>;
+export type DocumentFolder = typeof documentFolders.$inferSelect;
+
+export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type DocumentDownload = typeof documentDownloads.$inferSelect;
+
+export type DocumentVisibility = "department" | "departments" | "faculty" | "governors";
+
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
 export type ActivityLog = typeof activityLogs.$inferSelect;
 
 export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
 export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+
+export type InsertRoomRead = z.infer<typeof insertRoomReadSchema>;
+export type RoomRead = typeof roomReads.$inferSelect;
+
+export type InsertNotificationRead = z.infer<typeof insertNotificationReadSchema>;
+export type NotificationRead = typeof notificationReads.$inferSelect;
+
+export type InsertNotificationComment = z.infer<typeof insertNotificationCommentSchema>;
+export type NotificationComment = typeof notificationComments.$inferSelect;
+
+export type InsertNotificationAck = z.infer<typeof insertNotificationAckSchema>;
+export type NotificationAck = typeof notificationAcks.$inferSelect;
+
+export type InsertReaction = z.infer<typeof insertReactionSchema>;
+export type Reaction = typeof reactions.$inferSelect;
+
+export type InsertRoomMember = z.infer<typeof insertRoomMemberSchema>;
+export type RoomMember = typeof roomMembers.$inferSelect;
+
+export type InsertRoomRequest = z.infer<typeof insertRoomRequestSchema>;
+export type RoomRequest = typeof roomRequests.$inferSelect;
+
+export type InsertPinnedMessage = z.infer<typeof insertPinnedMessageSchema>;
+export type PinnedMessage = typeof pinnedMessages.$inferSelect;
+
+export type InsertMention = z.infer<typeof insertMentionSchema>;
+export type Mention = typeof mentions.$inferSelect;
+
+export type MentionKind = "user" | "room" | "department";
+
+export type InsertMessageRevision = z.infer<typeof insertMessageRevisionSchema>;
+export type MessageRevision = typeof messageRevisions.$inferSelect;
+
+export type MessageRevisionAction = "edit" | "delete" | "hide";
+
+export type InsertReport = z.infer<typeof insertReportSchema>;
+export type Report = typeof reports.$inferSelect;
+
+export type ReportTargetType = "message" | "comment" | "document";
+export type ReportReason = "spam" | "harassment" | "inappropriate" | "other";
+export type ReportResolution = "dismiss" | "hide" | "delete" | "warn" | "mute";
+
+export type RoomRole = "owner" | "moderator" | "member";
+export type RoomJoinPolicy = "open" | "request" | "invite";
+export type RoomRetentionPolicy = "forever" | "days" | "semester";
+
+export type ReactionTargetType = "message" | "notification";
+
+// Aggregated view of one emoji on one target, as returned to clients
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  users: string[];
+  reactedByMe: boolean;
+}